@@ -0,0 +1,227 @@
+/**
+ * User agent log analysis
+ * Extracts user agents from log lines, parses them through an LRU cache and formats
+ * records and aggregate reports for the CLI
+ */
+
+import type { AgentInfo } from '../types';
+import { parseUserAgent } from '../core/parser';
+import { LRUCache } from '../utils/lru-cache';
+
+/**
+ * Input line format
+ * - ua: one user agent per line
+ * - combined: Apache/nginx combined log format (user agent is the last quoted field)
+ * - auto: combined when the line matches it, otherwise the whole line
+ */
+export type InputFormat = 'auto' | 'ua' | 'combined';
+
+/**
+ * Output format for per-line records and reports
+ */
+export type OutputFormat = 'jsonl' | 'csv';
+
+/**
+ * Aggregate report dimensions
+ */
+export type ReportDimension = 'browser' | 'os' | 'bot';
+
+/**
+ * Count and share of one value in a report dimension
+ */
+export interface ReportEntry {
+  value: string;
+  count: number;
+  /** Share of all analyzed lines, 0..1 */
+  share: number;
+}
+
+/**
+ * Aggregate report over analyzed user agents
+ */
+export interface AnalysisReport {
+  total: number;
+  browser: ReportEntry[];
+  os: ReportEntry[];
+  bot: ReportEntry[];
+}
+
+/**
+ * Default AgentInfo fields written per line
+ */
+export const DEFAULT_FIELDS: readonly (keyof AgentInfo)[] = [
+  'source',
+  'browser',
+  'version',
+  'os',
+  'platform',
+  'isMobile',
+  'isTablet',
+  'isDesktop',
+  'isBot',
+] as const;
+
+/**
+ * Default maximum number of cached parse results
+ */
+export const DEFAULT_CLI_CACHE_SIZE = 10000;
+
+/**
+ * Combined log format: host ident user [time] "request" status bytes "referer" "user-agent"
+ */
+const COMBINED_LOG_PATTERN =
+  /^\S+ \S+ \S+ \[[^\]]*\] "(?:[^"\\]|\\.)*" \d{3} (?:\d+|-) "(?:[^"\\]|\\.)*" "((?:[^"\\]|\\.)*)"/;
+
+/**
+ * Extract the user agent from a log line
+ * @param line - Log line
+ * @param input - Input format
+ * @returns User agent, or null for blank lines and lines not in combined format
+ */
+export const extractUserAgent = (line: string, input: InputFormat = 'auto'): string | null => {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  if (input === 'ua') return trimmed;
+
+  const match = COMBINED_LOG_PATTERN.exec(trimmed);
+  if (match) {
+    return match[1].replace(/\\(.)/g, '$1');
+  }
+  return input === 'auto' ? trimmed : null;
+};
+
+/**
+ * Create a parser memoizing results by user agent in a bounded LRU cache
+ * Parses without the shared parser cache, so this cache alone bounds memory
+ * @param cacheSize - Maximum number of cached results (0 disables caching)
+ * @returns Function parsing a user agent into AgentInfo
+ */
+export const createCachedParser = (
+  cacheSize: number = DEFAULT_CLI_CACHE_SIZE
+): ((userAgent: string) => AgentInfo) => {
+  const cache = new LRUCache<string, AgentInfo>(cacheSize);
+
+  return (userAgent: string): AgentInfo => {
+    let agent = cache.get(userAgent);
+    if (!agent) {
+      // parseUserAgent does not read browser globals, unlike parse()
+      agent = parseUserAgent(userAgent);
+      cache.set(userAgent, agent);
+    }
+    return agent;
+  };
+};
+
+/**
+ * Escape a CSV cell
+ */
+const escapeCsv = (value: unknown): string => {
+  const text = value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Format the CSV header row
+ * @param fields - AgentInfo fields
+ * @returns CSV header line
+ */
+export const formatCsvHeader = (fields: readonly string[]): string => {
+  return fields.map(escapeCsv).join(',');
+};
+
+/**
+ * Format a parsed agent as a JSON Lines or CSV record
+ * @param agent - Parsed agent information
+ * @param fields - AgentInfo fields to include
+ * @param format - Output format
+ * @returns Output line without trailing newline
+ */
+export const formatRecord = (
+  agent: AgentInfo,
+  fields: readonly (keyof AgentInfo)[],
+  format: OutputFormat
+): string => {
+  if (format === 'csv') {
+    return fields.map((field) => escapeCsv(agent[field] ?? '')).join(',');
+  }
+
+  const record: Record<string, unknown> = {};
+  for (const field of fields) {
+    record[field] = agent[field];
+  }
+  return JSON.stringify(record);
+};
+
+/**
+ * Collects browser, OS and bot counts for the aggregate report
+ */
+export class ReportCollector {
+  private total = 0;
+  private readonly counts: Record<ReportDimension, Map<string, number>> = {
+    browser: new Map(),
+    os: new Map(),
+    bot: new Map(),
+  };
+
+  /**
+   * Count a parsed agent
+   * @param agent - Parsed agent information
+   */
+  public add(agent: AgentInfo): void {
+    this.total++;
+    this.increment('browser', agent.browser);
+    this.increment('os', agent.os);
+    this.increment('bot', agent.isBot ? (agent.bot?.category ?? 'unknown') : 'human');
+  }
+
+  /**
+   * Build the report, each dimension sorted by count
+   * @returns Aggregate report
+   */
+  public getReport(): AnalysisReport {
+    return {
+      total: this.total,
+      browser: this.getEntries('browser'),
+      os: this.getEntries('os'),
+      bot: this.getEntries('bot'),
+    };
+  }
+
+  private increment(dimension: ReportDimension, value: string): void {
+    const counts = this.counts[dimension];
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  private getEntries(dimension: ReportDimension): ReportEntry[] {
+    return [...this.counts[dimension]]
+      .map(([value, count]) => ({
+        value,
+        count,
+        share: this.total > 0 ? count / this.total : 0,
+      }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+}
+
+/**
+ * Format an aggregate report
+ * JSON Lines output is a single JSON object; CSV output has one row per dimension value
+ * @param report - Aggregate report
+ * @param format - Output format
+ * @returns Output lines
+ */
+export const formatReport = (report: AnalysisReport, format: OutputFormat): string[] => {
+  if (format === 'jsonl') {
+    return [JSON.stringify(report)];
+  }
+
+  const dimensions: ReportDimension[] = ['browser', 'os', 'bot'];
+  return [
+    formatCsvHeader(['dimension', 'value', 'count', 'share']),
+    ...dimensions.flatMap((dimension) =>
+      report[dimension].map(({ value, count, share }) =>
+        [dimension, value, count, share.toFixed(4)].map(escapeCsv).join(',')
+      )
+    ),
+  ];
+};
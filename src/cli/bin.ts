@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+/**
+ * device-uuid executable
+ */
+
+import { runCli } from './index';
+
+runCli(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+}).then((code) => {
+  process.exitCode = code;
+});
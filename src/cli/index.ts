@@ -0,0 +1,175 @@
+/**
+ * device-uuid command line interface
+ * Classifies newline-delimited user agents or combined-format access logs from stdin or files
+ */
+
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { parseArgs } from 'node:util';
+import type { AgentInfo } from '../types';
+import type { InputFormat, OutputFormat } from './analyze';
+import { DEFAULT_AGENT } from '../constants';
+import {
+  DEFAULT_CLI_CACHE_SIZE,
+  DEFAULT_FIELDS,
+  ReportCollector,
+  createCachedParser,
+  extractUserAgent,
+  formatCsvHeader,
+  formatRecord,
+  formatReport,
+} from './analyze';
+
+/**
+ * Streams used by the CLI, injectable for tests
+ */
+export interface CliIO {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+}
+
+/**
+ * CLI help text
+ */
+export const USAGE = `Usage: device-uuid [options] [files...]
+
+Classify user agents from files or stdin (one user agent per line, or combined access logs).
+
+Options:
+  -f, --format <jsonl|csv>       Output format (default: jsonl)
+      --fields <list>            Comma-separated AgentInfo fields
+                                 (default: ${DEFAULT_FIELDS.join(',')})
+  -i, --input <auto|ua|combined> Input line format (default: auto)
+  -r, --report                   Print browser, OS and bot shares instead of records
+      --cache-size <n>           Parse result cache size (default: ${DEFAULT_CLI_CACHE_SIZE})
+  -h, --help                     Show this help
+`;
+
+const INPUT_FORMATS: readonly InputFormat[] = ['auto', 'ua', 'combined'];
+const OUTPUT_FORMATS: readonly OutputFormat[] = ['jsonl', 'csv'];
+
+/**
+ * Write a line, waiting for the stream to drain when its buffer is full
+ */
+const writeLine = async (stream: NodeJS.WritableStream, line: string): Promise<void> => {
+  if (!stream.write(`${line}\n`)) {
+    await new Promise<void>((resolve) => stream.once('drain', resolve));
+  }
+};
+
+/**
+ * Iterate the lines of the input files, or stdin when no files are given
+ */
+async function* readLines(files: string[], stdin: NodeJS.ReadableStream): AsyncGenerator<string> {
+  const inputs = files.length > 0 ? files : ['-'];
+  for (const file of inputs) {
+    const input = file === '-' ? stdin : createReadStream(file, { encoding: 'utf8' });
+    yield* createInterface({ input, crlfDelay: Infinity });
+  }
+}
+
+/**
+ * Parse and validate command line arguments
+ * @throws Error for unknown options, formats and fields
+ */
+const parseCliArgs = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'jsonl' },
+      fields: { type: 'string' },
+      input: { type: 'string', short: 'i', default: 'auto' },
+      report: { type: 'boolean', short: 'r', default: false },
+      'cache-size': { type: 'string', default: String(DEFAULT_CLI_CACHE_SIZE) },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`unknown format "${values.format}"`);
+  }
+  const input = values.input as InputFormat;
+  if (!INPUT_FORMATS.includes(input)) {
+    throw new Error(`unknown input format "${values.input}"`);
+  }
+
+  const fields = values.fields
+    ? (values.fields.split(',').map((field) => field.trim()) as (keyof AgentInfo)[])
+    : [...DEFAULT_FIELDS];
+  const unknown = fields.filter(
+    (field) => !Object.prototype.hasOwnProperty.call(DEFAULT_AGENT, field)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`unknown fields: ${unknown.join(', ')}`);
+  }
+
+  const cacheSize = Number(values['cache-size']);
+  if (!Number.isInteger(cacheSize) || cacheSize < 0) {
+    throw new Error(`invalid cache size "${values['cache-size']}"`);
+  }
+
+  return {
+    files: positionals,
+    format,
+    input,
+    fields,
+    report: values.report,
+    cacheSize,
+    help: values.help,
+  };
+};
+
+/**
+ * Run the CLI
+ * @param argv - Command line arguments (without node and script path)
+ * @param io - Input and output streams
+ * @returns Exit code: 0 on success, 1 on read errors, 2 on usage errors
+ */
+export const runCli = async (argv: string[], io: CliIO): Promise<number> => {
+  let args: ReturnType<typeof parseCliArgs>;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr.write(`device-uuid: ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (args.help) {
+    io.stdout.write(USAGE);
+    return 0;
+  }
+
+  const parse = createCachedParser(args.cacheSize);
+  const collector = new ReportCollector();
+
+  try {
+    if (!args.report && args.format === 'csv') {
+      await writeLine(io.stdout, formatCsvHeader(args.fields));
+    }
+
+    for await (const line of readLines(args.files, io.stdin)) {
+      const userAgent = extractUserAgent(line, args.input);
+      if (userAgent === null) continue;
+
+      const agent = parse(userAgent);
+      if (args.report) {
+        collector.add(agent);
+      } else {
+        await writeLine(io.stdout, formatRecord(agent, args.fields, args.format));
+      }
+    }
+  } catch (error) {
+    io.stderr.write(`device-uuid: ${(error as Error).message}\n`);
+    return 1;
+  }
+
+  if (args.report) {
+    for (const line of formatReport(collector.getReport(), args.format)) {
+      await writeLine(io.stdout, line);
+    }
+  }
+  return 0;
+};
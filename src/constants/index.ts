@@ -5,36 +5,430 @@ import type {
   PlatformPatterns,
   DeviceUUIDOptions,
   AgentInfo,
+  BotDefinition,
+  DeviceDefinition,
+  DetectionRule,
 } from '../types';
 
 /**
- * List of known bot user agents
+ * Catalogue of known bots, crawlers and automated clients
+ * Entries are tested in order, so more specific patterns come first
  */
-export const BOTS: readonly string[] = [
-  '\\+https:\\/\\/developers.google.com\\/\\+\\/web\\/snippet\\/',
-  'googlebot',
-  'baiduspider',
-  'gurujibot',
-  'yandexbot',
-  'slurp',
-  'msnbot',
-  'bingbot',
-  'facebookexternalhit',
-  'linkedinbot',
-  'twitterbot',
-  'slackbot',
-  'telegrambot',
-  'applebot',
-  'pingdom',
-  'tumblr ',
-  'Embedly',
-  'spbot',
+export const BOT_DEFINITIONS: readonly BotDefinition[] = [
+  // Search engines
+  { pattern: 'googlebot', name: 'Googlebot', category: 'search-engine', vendor: 'Google' },
+  { pattern: 'adsbot-google', name: 'AdsBot', category: 'search-engine', vendor: 'Google' },
+  {
+    pattern: 'google-inspectiontool',
+    name: 'Google-InspectionTool',
+    category: 'search-engine',
+    vendor: 'Google',
+  },
+  {
+    pattern: '\\+https:\\/\\/developers.google.com\\/\\+\\/web\\/snippet\\/',
+    name: 'Google Snippet',
+    category: 'social',
+    vendor: 'Google',
+  },
+  { pattern: 'bingbot', name: 'Bingbot', category: 'search-engine', vendor: 'Microsoft' },
+  { pattern: 'msnbot', name: 'MSNBot', category: 'search-engine', vendor: 'Microsoft' },
+  { pattern: 'bingpreview', name: 'BingPreview', category: 'search-engine', vendor: 'Microsoft' },
+  { pattern: 'slurp', name: 'Yahoo! Slurp', category: 'search-engine', vendor: 'Yahoo' },
+  { pattern: 'duckduckbot', name: 'DuckDuckBot', category: 'search-engine', vendor: 'DuckDuckGo' },
+  { pattern: 'baiduspider', name: 'Baiduspider', category: 'search-engine', vendor: 'Baidu' },
+  { pattern: 'yandexbot', name: 'YandexBot', category: 'search-engine', vendor: 'Yandex' },
+  { pattern: 'yandex\\w+\\/', name: 'Yandex', category: 'search-engine', vendor: 'Yandex' },
+  {
+    pattern: 'sogou \\w+ spider',
+    name: 'Sogou Spider',
+    category: 'search-engine',
+    vendor: 'Sogou',
+  },
+  { pattern: 'exabot', name: 'Exabot', category: 'search-engine', vendor: 'Exalead' },
+  { pattern: 'seznambot', name: 'SeznamBot', category: 'search-engine', vendor: 'Seznam' },
+  { pattern: 'petalbot', name: 'PetalBot', category: 'search-engine', vendor: 'Huawei' },
+  { pattern: 'qwantify|qwantbot', name: 'Qwantbot', category: 'search-engine', vendor: 'Qwant' },
+  { pattern: 'mojeekbot', name: 'MojeekBot', category: 'search-engine', vendor: 'Mojeek' },
+  { pattern: 'yeti\\/', name: 'Yeti', category: 'search-engine', vendor: 'Naver' },
+  { pattern: 'gurujibot', name: 'GurujiBot', category: 'search-engine', vendor: 'Guruji' },
+
+  // AI crawlers and assistants
+  { pattern: 'gptbot', name: 'GPTBot', category: 'ai-crawler', vendor: 'OpenAI' },
+  { pattern: 'chatgpt-user', name: 'ChatGPT-User', category: 'ai-crawler', vendor: 'OpenAI' },
+  { pattern: 'oai-searchbot', name: 'OAI-SearchBot', category: 'ai-crawler', vendor: 'OpenAI' },
+  { pattern: 'claudebot', name: 'ClaudeBot', category: 'ai-crawler', vendor: 'Anthropic' },
+  {
+    pattern: 'claude-(?:web|user|searchbot)',
+    name: 'Claude',
+    category: 'ai-crawler',
+    vendor: 'Anthropic',
+  },
+  { pattern: 'anthropic-ai', name: 'anthropic-ai', category: 'ai-crawler', vendor: 'Anthropic' },
+  { pattern: 'ccbot', name: 'CCBot', category: 'ai-crawler', vendor: 'Common Crawl' },
+  {
+    pattern: 'perplexitybot',
+    name: 'PerplexityBot',
+    category: 'ai-crawler',
+    vendor: 'Perplexity',
+  },
+  {
+    pattern: 'perplexity-user',
+    name: 'Perplexity-User',
+    category: 'ai-crawler',
+    vendor: 'Perplexity',
+  },
+  { pattern: 'bytespider', name: 'Bytespider', category: 'ai-crawler', vendor: 'ByteDance' },
+  { pattern: 'amazonbot', name: 'Amazonbot', category: 'ai-crawler', vendor: 'Amazon' },
+  {
+    pattern: 'meta-externalagent',
+    name: 'Meta-ExternalAgent',
+    category: 'ai-crawler',
+    vendor: 'Meta',
+  },
+  { pattern: 'cohere-ai', name: 'cohere-ai', category: 'ai-crawler', vendor: 'Cohere' },
+  { pattern: 'diffbot', name: 'Diffbot', category: 'ai-crawler', vendor: 'Diffbot' },
+  { pattern: 'youbot', name: 'YouBot', category: 'ai-crawler', vendor: 'You.com' },
+  {
+    pattern: 'mistralai-user',
+    name: 'MistralAI-User',
+    category: 'ai-crawler',
+    vendor: 'Mistral AI',
+  },
+  { pattern: 'timpibot', name: 'Timpibot', category: 'ai-crawler', vendor: 'Timpi' },
+  { pattern: 'imagesiftbot', name: 'ImagesiftBot', category: 'ai-crawler', vendor: 'ImageSift' },
+
+  // Apple crawls for both Siri/Spotlight search and AI training
+  { pattern: 'applebot', name: 'Applebot', category: 'search-engine', vendor: 'Apple' },
+
+  // Social networks and link previews
+  {
+    pattern: 'facebookexternalhit|facebookcatalog',
+    name: 'Facebook',
+    category: 'social',
+    vendor: 'Meta',
+  },
+  { pattern: 'whatsapp\\/', name: 'WhatsApp', category: 'social', vendor: 'Meta' },
+  { pattern: 'twitterbot', name: 'Twitterbot', category: 'social', vendor: 'X' },
+  { pattern: 'linkedinbot', name: 'LinkedInBot', category: 'social', vendor: 'LinkedIn' },
+  { pattern: 'slackbot|slack-imgproxy', name: 'Slackbot', category: 'social', vendor: 'Slack' },
+  { pattern: 'telegrambot', name: 'TelegramBot', category: 'social', vendor: 'Telegram' },
+  { pattern: 'discordbot', name: 'Discordbot', category: 'social', vendor: 'Discord' },
+  { pattern: 'pinterestbot', name: 'Pinterestbot', category: 'social', vendor: 'Pinterest' },
+  { pattern: 'redditbot', name: 'redditbot', category: 'social', vendor: 'Reddit' },
+  { pattern: 'skypeuripreview', name: 'Skype', category: 'social', vendor: 'Microsoft' },
+  { pattern: 'vkshare', name: 'VK Share', category: 'social', vendor: 'VK' },
+  { pattern: 'tumblr ', name: 'Tumblr', category: 'social', vendor: 'Tumblr' },
+  { pattern: 'embedly', name: 'Embedly', category: 'social', vendor: 'Embedly' },
+  { pattern: 'iframely', name: 'Iframely', category: 'social', vendor: 'Iframely' },
+
+  // SEO tools
+  { pattern: 'ahrefsbot|ahrefssiteaudit', name: 'AhrefsBot', category: 'seo', vendor: 'Ahrefs' },
+  { pattern: 'semrushbot|siteauditbot', name: 'SemrushBot', category: 'seo', vendor: 'Semrush' },
+  { pattern: 'mj12bot', name: 'MJ12bot', category: 'seo', vendor: 'Majestic' },
+  { pattern: 'dotbot|rogerbot', name: 'Moz', category: 'seo', vendor: 'Moz' },
+  {
+    pattern: 'screaming frog',
+    name: 'Screaming Frog SEO Spider',
+    category: 'seo',
+    vendor: 'Screaming Frog',
+  },
+  { pattern: 'serpstatbot', name: 'serpstatbot', category: 'seo', vendor: 'Serpstat' },
+  { pattern: 'blexbot', name: 'BLEXBot', category: 'seo', vendor: 'WebMeUp' },
+  { pattern: 'dataforseobot', name: 'DataForSeoBot', category: 'seo', vendor: 'DataForSEO' },
+  { pattern: 'barkrowler', name: 'Barkrowler', category: 'seo', vendor: 'Babbar' },
+  { pattern: 'megaindex', name: 'MegaIndex', category: 'seo', vendor: 'MegaIndex' },
+  { pattern: 'spbot', name: 'SEO Profiler', category: 'seo', vendor: 'OpenLinkProfiler' },
+
+  // Uptime and performance monitoring
+  { pattern: 'pingdom', name: 'Pingdom', category: 'monitoring', vendor: 'SolarWinds' },
+  { pattern: 'uptimerobot', name: 'UptimeRobot', category: 'monitoring', vendor: 'UptimeRobot' },
+  { pattern: 'statuscake', name: 'StatusCake', category: 'monitoring', vendor: 'StatusCake' },
+  { pattern: 'site24x7', name: 'Site24x7', category: 'monitoring', vendor: 'Zoho' },
+  { pattern: 'newrelicpinger', name: 'New Relic', category: 'monitoring', vendor: 'New Relic' },
+  { pattern: 'datadog', name: 'Datadog', category: 'monitoring', vendor: 'Datadog' },
+  {
+    pattern: 'better ?uptime',
+    name: 'Better Uptime',
+    category: 'monitoring',
+    vendor: 'Better Stack',
+  },
+  { pattern: 'uptime-kuma', name: 'Uptime Kuma', category: 'monitoring', vendor: 'Uptime Kuma' },
+  { pattern: 'checkly', name: 'Checkly', category: 'monitoring', vendor: 'Checkly' },
+  { pattern: 'freshping', name: 'Freshping', category: 'monitoring', vendor: 'Freshworks' },
+  { pattern: 'hetrixtools', name: 'HetrixTools', category: 'monitoring', vendor: 'HetrixTools' },
+  { pattern: 'gtmetrix', name: 'GTmetrix', category: 'monitoring', vendor: 'GTmetrix' },
+  { pattern: 'chrome-lighthouse', name: 'Lighthouse', category: 'monitoring', vendor: 'Google' },
+
+  // Headless browsers and automation frameworks
+  { pattern: 'headlesschrome', name: 'Headless Chrome', category: 'headless', vendor: 'Google' },
+  { pattern: 'phantomjs', name: 'PhantomJS', category: 'headless', vendor: 'PhantomJS' },
+  { pattern: 'slimerjs', name: 'SlimerJS', category: 'headless', vendor: 'SlimerJS' },
+  { pattern: 'htmlunit', name: 'HtmlUnit', category: 'headless', vendor: 'HtmlUnit' },
+  { pattern: 'jsdom\\/', name: 'jsdom', category: 'headless', vendor: 'jsdom' },
+  { pattern: 'cypress\\/', name: 'Cypress', category: 'headless', vendor: 'Cypress' },
+  { pattern: 'splash', name: 'Splash', category: 'headless', vendor: 'Zyte' },
+
+  // Feed readers
+  { pattern: 'feedly', name: 'Feedly', category: 'feed-reader', vendor: 'Feedly' },
+  { pattern: 'inoreader', name: 'Inoreader', category: 'feed-reader', vendor: 'Inoreader' },
+  { pattern: 'newsblur', name: 'NewsBlur', category: 'feed-reader', vendor: 'NewsBlur' },
+  { pattern: 'feedbin', name: 'Feedbin', category: 'feed-reader', vendor: 'Feedbin' },
+  { pattern: 'freshrss', name: 'FreshRSS', category: 'feed-reader', vendor: 'FreshRSS' },
+  {
+    pattern: 'tiny tiny rss',
+    name: 'Tiny Tiny RSS',
+    category: 'feed-reader',
+    vendor: 'Tiny Tiny RSS',
+  },
+  {
+    pattern: 'theoldreader',
+    name: 'The Old Reader',
+    category: 'feed-reader',
+    vendor: 'The Old Reader',
+  },
+  { pattern: 'netnewswire', name: 'NetNewsWire', category: 'feed-reader', vendor: 'Ranchero' },
+  {
+    pattern: 'feedfetcher-google',
+    name: 'Feedfetcher',
+    category: 'feed-reader',
+    vendor: 'Google',
+  },
+
+  // HTTP client libraries and command line tools
+  { pattern: 'curl\\/', name: 'curl', category: 'http-library', vendor: 'curl' },
+  { pattern: 'wget\\/', name: 'Wget', category: 'http-library', vendor: 'GNU' },
+  { pattern: 'python-requests', name: 'Requests', category: 'http-library', vendor: 'Python' },
+  { pattern: 'python-urllib', name: 'urllib', category: 'http-library', vendor: 'Python' },
+  { pattern: 'python-httpx', name: 'HTTPX', category: 'http-library', vendor: 'Python' },
+  { pattern: 'aiohttp', name: 'aiohttp', category: 'http-library', vendor: 'Python' },
+  { pattern: 'scrapy', name: 'Scrapy', category: 'http-library', vendor: 'Zyte' },
+  { pattern: 'axios\\/', name: 'axios', category: 'http-library', vendor: 'axios' },
+  { pattern: 'node-fetch', name: 'node-fetch', category: 'http-library', vendor: 'Node.js' },
+  { pattern: '^undici|^node$', name: 'undici', category: 'http-library', vendor: 'Node.js' },
+  { pattern: 'go-http-client', name: 'Go http', category: 'http-library', vendor: 'Go' },
+  { pattern: 'okhttp', name: 'OkHttp', category: 'http-library', vendor: 'Square' },
+  {
+    pattern: 'apache-httpclient',
+    name: 'Apache HttpClient',
+    category: 'http-library',
+    vendor: 'Apache',
+  },
+  { pattern: '^java\\/', name: 'Java', category: 'http-library', vendor: 'Oracle' },
+  { pattern: 'libwww-perl', name: 'libwww-perl', category: 'http-library', vendor: 'Perl' },
+  { pattern: 'guzzlehttp', name: 'Guzzle', category: 'http-library', vendor: 'PHP' },
+  { pattern: 'postmanruntime', name: 'Postman', category: 'http-library', vendor: 'Postman' },
+  { pattern: 'insomnia\\/', name: 'Insomnia', category: 'http-library', vendor: 'Kong' },
+  { pattern: 'httpie\\/', name: 'HTTPie', category: 'http-library', vendor: 'HTTPie' },
+  { pattern: '^dart:io|dart\\/', name: 'Dart', category: 'http-library', vendor: 'Google' },
+  { pattern: '^ruby', name: 'Ruby', category: 'http-library', vendor: 'Ruby' },
 ] as const;
 
+/**
+ * List of known bot user agent patterns
+ */
+export const BOTS: readonly string[] = BOT_DEFINITIONS.map(({ pattern }) =>
+  typeof pattern === 'string' ? pattern : pattern.source
+);
+
 /**
  * Compiled regex for bot detection
  */
-export const IS_BOT_REGEXP = new RegExp(`^.*(${BOTS.join('|')}).*$`);
+export const IS_BOT_REGEXP = new RegExp(`^.*(${BOTS.join('|')}).*$`, 'i');
+
+/**
+ * Model token in a user agent: follows "; " or "(" and ends before " Build/", ";" or ")"
+ */
+const MODEL_START = '(?:^|[;(] ?)';
+const MODEL_END = '(?= Build|[;)]|$)';
+
+/**
+ * Device database
+ * Entries are tested in order, so named models come before their vendor's generic code patterns
+ */
+export const DEVICE_DEFINITIONS: readonly DeviceDefinition[] = [
+  // Apple
+  {
+    pattern: '\\bAppleTV|\\bApple TV|\\btvOS\\b',
+    vendor: 'Apple',
+    model: 'Apple TV',
+    type: 'smarttv',
+  },
+  {
+    pattern: '\\bwatch ?OS\\b|\\(Watch;|\\bAppleWatch',
+    vendor: 'Apple',
+    model: 'Apple Watch',
+    type: 'wearable',
+  },
+  { pattern: '\\biPad\\b', vendor: 'Apple', model: 'iPad', type: 'tablet' },
+  { pattern: '\\biPod\\b', vendor: 'Apple', model: 'iPod touch', type: 'mobile' },
+  { pattern: '\\biPhone\\b', vendor: 'Apple', model: 'iPhone', type: 'mobile' },
+  { pattern: '\\bMacintosh\\b', vendor: 'Apple', model: 'Mac', type: 'desktop' },
+
+  // Amazon
+  { pattern: '\\bKFOT\\b', vendor: 'Amazon', model: 'Kindle Fire', type: 'tablet' },
+  { pattern: '\\bKFTT\\b', vendor: 'Amazon', model: 'Kindle Fire HD', type: 'tablet' },
+  { pattern: '\\bKFJWI\\b', vendor: 'Amazon', model: 'Kindle Fire HD 8.9', type: 'tablet' },
+  { pattern: '\\bKFJWA\\b', vendor: 'Amazon', model: 'Kindle Fire HD 8.9 4G', type: 'tablet' },
+  { pattern: '\\bKFSOWI\\b', vendor: 'Amazon', model: 'Kindle Fire HD 7', type: 'tablet' },
+  { pattern: '\\bKFTHWI\\b', vendor: 'Amazon', model: 'Kindle Fire HDX 7', type: 'tablet' },
+  { pattern: '\\bKFTHWA\\b', vendor: 'Amazon', model: 'Kindle Fire HDX 7 4G', type: 'tablet' },
+  { pattern: '\\bKFAPWI\\b', vendor: 'Amazon', model: 'Kindle Fire HDX 8.9', type: 'tablet' },
+  { pattern: '\\bKFAPWA\\b', vendor: 'Amazon', model: 'Kindle Fire HDX 8.9 4G', type: 'tablet' },
+  { pattern: '\\bKFMAWI\\b', vendor: 'Amazon', model: 'Kindle Fire HD 10', type: 'tablet' },
+  { pattern: '\\bKFARWI\\b', vendor: 'Amazon', model: 'Fire HD 6', type: 'tablet' },
+  { pattern: '\\bKFASWI\\b', vendor: 'Amazon', model: 'Fire HD 7 (2014)', type: 'tablet' },
+  { pattern: '\\bKFSAWI\\b', vendor: 'Amazon', model: 'Fire HDX 8.9 (2014)', type: 'tablet' },
+  { pattern: '\\bKFSAWA\\b', vendor: 'Amazon', model: 'Fire HDX 8.9 4G (2014)', type: 'tablet' },
+  { pattern: '\\bKFFOWI\\b', vendor: 'Amazon', model: 'Fire (2015)', type: 'tablet' },
+  { pattern: '\\bKFMEWI\\b', vendor: 'Amazon', model: 'Fire HD 8 (2015)', type: 'tablet' },
+  { pattern: '\\bKFTBWI\\b', vendor: 'Amazon', model: 'Fire HD 10 (2015)', type: 'tablet' },
+  { pattern: '\\bKFGIWI\\b', vendor: 'Amazon', model: 'Fire HD 8 (2016)', type: 'tablet' },
+  { pattern: '\\bKFAUWI\\b', vendor: 'Amazon', model: 'Fire 7 (2017)', type: 'tablet' },
+  { pattern: '\\bKFDOWI\\b', vendor: 'Amazon', model: 'Fire HD 8 (2017)', type: 'tablet' },
+  { pattern: '\\bKFSUWI\\b', vendor: 'Amazon', model: 'Fire HD 10 (2017)', type: 'tablet' },
+  { pattern: '\\bKFKAWI\\b', vendor: 'Amazon', model: 'Fire HD 8 (2018)', type: 'tablet' },
+  { pattern: '\\bKFMUWI\\b', vendor: 'Amazon', model: 'Fire 7 (2019)', type: 'tablet' },
+  { pattern: '\\bKFONWI\\b', vendor: 'Amazon', model: 'Fire HD 8 (2020)', type: 'tablet' },
+  { pattern: '\\bKFTRWI\\b', vendor: 'Amazon', model: 'Fire HD 10 (2021)', type: 'tablet' },
+  { pattern: '\\bKFTRPWI\\b', vendor: 'Amazon', model: 'Fire HD 10 Plus (2021)', type: 'tablet' },
+  { pattern: '\\bKFQUWI\\b', vendor: 'Amazon', model: 'Fire 7 (2022)', type: 'tablet' },
+  { pattern: '\\bKFRAWI\\b', vendor: 'Amazon', model: 'Fire HD 8 (2022)', type: 'tablet' },
+  { pattern: '\\bKFSNWI\\b', vendor: 'Amazon', model: 'Fire Max 11', type: 'tablet' },
+  { pattern: '\\bKindle Fire\\b', vendor: 'Amazon', model: 'Kindle Fire', type: 'tablet' },
+  { pattern: '\\bKindle\\/\\d', vendor: 'Amazon', model: 'Kindle', type: 'ereader' },
+  { pattern: '\\bAFT[A-Z0-9]+\\b', vendor: 'Amazon', model: 'Fire TV', type: 'smarttv' },
+
+  // Samsung phones
+  { pattern: '\\bSM-S921', vendor: 'Samsung', model: 'Galaxy S24' },
+  { pattern: '\\bSM-S926', vendor: 'Samsung', model: 'Galaxy S24+' },
+  { pattern: '\\bSM-S928', vendor: 'Samsung', model: 'Galaxy S24 Ultra' },
+  { pattern: '\\bSM-S911', vendor: 'Samsung', model: 'Galaxy S23' },
+  { pattern: '\\bSM-S916', vendor: 'Samsung', model: 'Galaxy S23+' },
+  { pattern: '\\bSM-S918', vendor: 'Samsung', model: 'Galaxy S23 Ultra' },
+  { pattern: '\\bSM-S711', vendor: 'Samsung', model: 'Galaxy S23 FE' },
+  { pattern: '\\bSM-S901', vendor: 'Samsung', model: 'Galaxy S22' },
+  { pattern: '\\bSM-S906', vendor: 'Samsung', model: 'Galaxy S22+' },
+  { pattern: '\\bSM-S908', vendor: 'Samsung', model: 'Galaxy S22 Ultra' },
+  { pattern: '\\bSM-G99[01]', vendor: 'Samsung', model: 'Galaxy S21' },
+  { pattern: '\\bSM-G996', vendor: 'Samsung', model: 'Galaxy S21+' },
+  { pattern: '\\bSM-G998', vendor: 'Samsung', model: 'Galaxy S21 Ultra' },
+  { pattern: '\\bSM-G98[01]', vendor: 'Samsung', model: 'Galaxy S20' },
+  { pattern: '\\bSM-G98[56]', vendor: 'Samsung', model: 'Galaxy S20+' },
+  { pattern: '\\bSM-G988', vendor: 'Samsung', model: 'Galaxy S20 Ultra' },
+  { pattern: '\\bSM-N98[01]', vendor: 'Samsung', model: 'Galaxy Note20' },
+  { pattern: '\\bSM-N98[56]', vendor: 'Samsung', model: 'Galaxy Note20 Ultra' },
+  { pattern: '\\bSM-F956', vendor: 'Samsung', model: 'Galaxy Z Fold6' },
+  { pattern: '\\bSM-F741', vendor: 'Samsung', model: 'Galaxy Z Flip6' },
+  { pattern: '\\bSM-F946', vendor: 'Samsung', model: 'Galaxy Z Fold5' },
+  { pattern: '\\bSM-F731', vendor: 'Samsung', model: 'Galaxy Z Flip5' },
+  { pattern: '\\bSM-F936', vendor: 'Samsung', model: 'Galaxy Z Fold4' },
+  { pattern: '\\bSM-F721', vendor: 'Samsung', model: 'Galaxy Z Flip4' },
+  { pattern: '\\bSM-A55[56]', vendor: 'Samsung', model: 'Galaxy A55' },
+  { pattern: '\\bSM-A35[56]', vendor: 'Samsung', model: 'Galaxy A35' },
+  { pattern: '\\bSM-A25[56]', vendor: 'Samsung', model: 'Galaxy A25' },
+  { pattern: '\\bSM-A15[56]', vendor: 'Samsung', model: 'Galaxy A15' },
+  { pattern: '\\bSM-A546', vendor: 'Samsung', model: 'Galaxy A54' },
+  { pattern: '\\bSM-A346', vendor: 'Samsung', model: 'Galaxy A34' },
+  { pattern: '\\bSM-A14[56]', vendor: 'Samsung', model: 'Galaxy A14' },
+  { pattern: '\\bSM-A536', vendor: 'Samsung', model: 'Galaxy A53' },
+  { pattern: '\\bSM-A52[56]', vendor: 'Samsung', model: 'Galaxy A52' },
+  { pattern: '\\bSM-A528', vendor: 'Samsung', model: 'Galaxy A52s' },
+  { pattern: '\\bSM-A13[56]', vendor: 'Samsung', model: 'Galaxy A13' },
+  { pattern: '\\bSM-A12[56]', vendor: 'Samsung', model: 'Galaxy A12' },
+
+  // Samsung tablets and watches
+  { pattern: '\\bSM-X91[06]', vendor: 'Samsung', model: 'Galaxy Tab S9 Ultra', type: 'tablet' },
+  { pattern: '\\bSM-X81[06]', vendor: 'Samsung', model: 'Galaxy Tab S9+', type: 'tablet' },
+  { pattern: '\\bSM-X71[06]', vendor: 'Samsung', model: 'Galaxy Tab S9', type: 'tablet' },
+  { pattern: '\\bSM-X90[06]', vendor: 'Samsung', model: 'Galaxy Tab S8 Ultra', type: 'tablet' },
+  { pattern: '\\bSM-X80[06]', vendor: 'Samsung', model: 'Galaxy Tab S8+', type: 'tablet' },
+  { pattern: '\\bSM-X70[06]', vendor: 'Samsung', model: 'Galaxy Tab S8', type: 'tablet' },
+  { pattern: '\\bSM-X20[05]', vendor: 'Samsung', model: 'Galaxy Tab A8', type: 'tablet' },
+  { pattern: '\\bSM-T87[05]', vendor: 'Samsung', model: 'Galaxy Tab S7', type: 'tablet' },
+  { pattern: '\\bSM-P61[05]', vendor: 'Samsung', model: 'Galaxy Tab S6 Lite', type: 'tablet' },
+  { pattern: '\\bSM-R9[3-6]0', vendor: 'Samsung', model: 'Galaxy Watch6', type: 'wearable' },
+  { pattern: '\\bSM-R9[0-2]0', vendor: 'Samsung', model: 'Galaxy Watch5', type: 'wearable' },
+  { pattern: '\\bSM-R8[6-9]0', vendor: 'Samsung', model: 'Galaxy Watch4', type: 'wearable' },
+  { pattern: '\\b(SM-[TPX]\\d{3}[A-Z0-9]*)', vendor: 'Samsung', model: '$1', type: 'tablet' },
+  { pattern: '\\b(SM-R\\d{3}[A-Z0-9]*)', vendor: 'Samsung', model: '$1', type: 'wearable' },
+  { pattern: '\\b(SM-[A-Z]\\d{3}[A-Z0-9]*)', vendor: 'Samsung', model: '$1' },
+  { pattern: '\\b((?:GT|SCH|SGH|SPH)-[A-Z]\\d{3,4}[A-Z0-9]*)', vendor: 'Samsung', model: '$1' },
+
+  // Google
+  {
+    pattern: `${MODEL_START}(Pixel Watch(?: \\d)?)${MODEL_END}`,
+    vendor: 'Google',
+    model: '$1',
+    type: 'wearable',
+  },
+  {
+    pattern: `${MODEL_START}(Pixel (?:Tablet|C))${MODEL_END}`,
+    vendor: 'Google',
+    model: '$1',
+    type: 'tablet',
+  },
+  { pattern: `${MODEL_START}(Pixel(?: [^;)]*?)?)${MODEL_END}`, vendor: 'Google', model: '$1' },
+  {
+    pattern: `${MODEL_START}(Nexus (?:7|9|10))${MODEL_END}`,
+    vendor: 'Google',
+    model: '$1',
+    type: 'tablet',
+  },
+  { pattern: `${MODEL_START}(Nexus [^;)]*?)${MODEL_END}`, vendor: 'Google', model: '$1' },
+
+  // Xiaomi (Xiaomi, Redmi and POCO brands, plus numeric model codes)
+  {
+    pattern: `${MODEL_START}((?:Xiaomi|Redmi) Pad[^;)]*?)${MODEL_END}`,
+    vendor: 'Xiaomi',
+    model: '$1',
+    type: 'tablet',
+  },
+  {
+    pattern: `${MODEL_START}((?:Xiaomi|Redmi|POCO|Mi) [^;)]*?)${MODEL_END}`,
+    vendor: 'Xiaomi',
+    model: '$1',
+  },
+  {
+    pattern: /(?:^|[;(] ?)(M\d{4}[A-Z]\d{1,2}[A-Z]{1,3})(?= Build|[;)]|$)/,
+    vendor: 'Xiaomi',
+    model: '$1',
+  },
+  {
+    pattern: /(?:^|[;(] ?)(2\d{3}(?=[0-9A-Z]*[A-Z])[0-9A-Z]{4,6})(?= Build|[;)]|$)/,
+    vendor: 'Xiaomi',
+    model: '$1',
+  },
+
+  // Huawei and Honor
+  { pattern: `${MODEL_START}HUAWEI[ _-]?([^;)]+?)${MODEL_END}`, vendor: 'Huawei', model: '$1' },
+  { pattern: `${MODEL_START}HONOR[ _-]?([^;)]+?)${MODEL_END}`, vendor: 'Honor', model: '$1' },
+  {
+    pattern: /(?:^|[;(] ?)([A-Z]{3}\d?-W\d{2}[A-Z]?)(?= Build|[;)]|$)/,
+    vendor: 'Huawei',
+    model: '$1',
+    type: 'tablet',
+  },
+  {
+    pattern: /(?:^|[;(] ?)([A-Z]{3}\d?-(?:AL|AN|AX|DL|L|LX|N|NX|TL)\d{1,2}[A-Z]?)(?= Build|[;)]|$)/,
+    vendor: 'Huawei',
+    model: '$1',
+  },
+
+  // OnePlus
+  { pattern: `${MODEL_START}ONEPLUS[ _-]?([^;)]+?)${MODEL_END}`, vendor: 'OnePlus', model: '$1' },
+  {
+    pattern: /(?:^|[;(] ?)((?:BE|GM|HD|IN|KB|LE|NE)\d{4})(?= Build|[;)]|$)/,
+    vendor: 'OnePlus',
+    model: '$1',
+  },
+
+  // Motorola
+  {
+    pattern: `${MODEL_START}((?:moto|motorola)[ _][^;)]+?)${MODEL_END}`,
+    vendor: 'Motorola',
+    model: '$1',
+  },
+] as const;
 
 /**
  * Browser version detection patterns
@@ -57,6 +451,12 @@ export const VERSION_PATTERNS: Readonly<VersionPatterns> = {
   WinJs: /msapphost\/([\d\w.-]+)/i,
   PhantomJS: /phantomjs\/([\d\w.-]+)/i,
   UC: /UCBrowser\/([\d\w.]+)/i,
+  SamsungInternet: /SamsungBrowser\/([\d\w.-]+)/i,
+  Yandex: /YaBrowser\/([\d\w.-]+)/i,
+  Vivaldi: /Vivaldi\/([\d\w.-]+)/i,
+  Whale: /Whale\/([\d\w.-]+)/i,
+  DuckDuckGo: /(?:DuckDuckGo|Ddg)\/([\d\w.-]+)/i,
+  OperaGX: /(?:OPX|OPR)\/([\d\w.-]+)/i,
 } as const;
 
 /**
@@ -81,13 +481,31 @@ export const BROWSER_PATTERNS: Readonly<BrowserPatterns> = {
   WinJs: /msapphost/i,
   PhantomJS: /phantomjs/i,
   UC: /UCBrowser/i,
+  SamsungInternet: /SamsungBrowser/i,
+  Yandex: /YaBrowser/i,
+  Vivaldi: /Vivaldi/i,
+  Whale: /Whale\//i,
+  DuckDuckGo: /DuckDuckGo\/|\bDdg\//i,
+  OperaGX: /\bOPX\/|\(Edition GX/i,
+} as const;
+
+/**
+ * In-app browser (webview) detection patterns by app name
+ * Patterns are tested in order, so the generic Android WebView comes last
+ */
+export const WEBVIEW_PATTERNS: Readonly<Record<string, RegExp>> = {
+  Facebook: /\bFB(?:AN|AV|_IAB)\b/,
+  Instagram: /\bInstagram\b/,
+  TikTok: /\b(?:musical_ly|BytedanceWebview|TikTok)\b/i,
+  WeChat: /\bMicroMessenger\//,
+  LINE: /\bLine\//,
+  'Android WebView': /; wv\)/,
 } as const;
 
 /**
  * Operating system detection patterns
  */
 export const OS_PATTERNS: Readonly<OSPatterns> = {
-  Windows11: /windows nt 10\.0.*(?:; win64; x64|; wow64).*(?:rv:|edg\/|chrome\/).*?(\d+)/i,
   Windows10: /windows nt 10\.0/i,
   Windows81: /windows nt 6\.3/i,
   Windows8: /windows nt 6\.2/i,
@@ -132,6 +550,19 @@ export const OS_PATTERNS: Readonly<OSPatterns> = {
   Curl: /curl\/(\d+)\.(\d+)\.(\d+)/i,
 } as const;
 
+/**
+ * Operating system version patterns, checked in order; the first capture group is the version
+ */
+export const OS_VERSION_PATTERNS: Readonly<Record<string, RegExp>> = {
+  WindowsPhone: /windows phone(?: os)? ([\d.]+)/i,
+  Windows: /windows nt ([\d.]+)/i,
+  iOS: /(?:iphone|cpu) os (\d+(?:[._]\d+)*)/i,
+  macOS: /mac os x (\d+(?:[._]\d+)*)/i,
+  Android: /android ([\d.]+)/i,
+  ChromeOS: /cros \S+ ([\d.]+)/i,
+  Bada: /bada\/([\d.]+)/i,
+} as const;
+
 /**
  * Platform detection patterns
  */
@@ -151,6 +582,515 @@ export const PLATFORM_PATTERNS: Readonly<PlatformPatterns> = {
   Curl: /curl/i,
 } as const;
 
+/**
+ * Built-in browser, operating system and platform detection rules
+ * For each kind, the first matching rule in priority order wins; built-in priorities are spaced
+ * by 10 so custom rules can be placed between them
+ */
+export const DETECTION_RULES: readonly DetectionRule[] = [
+  // Browsers
+  {
+    kind: 'browser',
+    name: 'Edge',
+    pattern: BROWSER_PATTERNS.Edge,
+    priority: 240,
+    fields: { isEdge: true },
+    version: VERSION_PATTERNS.Edge,
+  },
+  {
+    kind: 'browser',
+    name: 'PhantomJS',
+    pattern: BROWSER_PATTERNS.PhantomJS,
+    priority: 230,
+    fields: { isPhantomJS: true },
+    version: VERSION_PATTERNS.PhantomJS,
+  },
+  {
+    kind: 'browser',
+    name: 'Konqueror',
+    pattern: BROWSER_PATTERNS.Konqueror,
+    priority: 220,
+    fields: { isKonqueror: true },
+  },
+  {
+    kind: 'browser',
+    name: 'Amaya',
+    pattern: BROWSER_PATTERNS.Amaya,
+    priority: 210,
+    fields: { isAmaya: true },
+    version: VERSION_PATTERNS.Amaya,
+  },
+  {
+    kind: 'browser',
+    name: 'Epiphany',
+    pattern: BROWSER_PATTERNS.Epiphany,
+    priority: 200,
+    fields: { isEpiphany: true },
+    version: VERSION_PATTERNS.Epiphany,
+  },
+  {
+    kind: 'browser',
+    name: 'SeaMonkey',
+    pattern: BROWSER_PATTERNS.SeaMonkey,
+    priority: 190,
+    fields: { isSeaMonkey: true },
+    version: VERSION_PATTERNS.SeaMonkey,
+  },
+  {
+    kind: 'browser',
+    name: 'Flock',
+    pattern: BROWSER_PATTERNS.Flock,
+    priority: 180,
+    fields: { isFlock: true },
+    version: VERSION_PATTERNS.Flock,
+  },
+  {
+    kind: 'browser',
+    name: 'OmniWeb',
+    pattern: BROWSER_PATTERNS.OmniWeb,
+    priority: 170,
+    fields: { isOmniWeb: true },
+    version: VERSION_PATTERNS.OmniWeb,
+  },
+  {
+    kind: 'browser',
+    name: 'Opera GX',
+    pattern: BROWSER_PATTERNS.OperaGX,
+    priority: 160,
+    fields: { isOpera: true },
+    version: VERSION_PATTERNS.OperaGX,
+  },
+  {
+    kind: 'browser',
+    name: 'Opera',
+    pattern: BROWSER_PATTERNS.Opera,
+    priority: 150,
+    fields: { isOpera: true },
+    version: VERSION_PATTERNS.Opera,
+  },
+  {
+    kind: 'browser',
+    name: 'Samsung Internet',
+    pattern: BROWSER_PATTERNS.SamsungInternet,
+    priority: 140,
+    version: VERSION_PATTERNS.SamsungInternet,
+  },
+  {
+    kind: 'browser',
+    name: 'Yandex',
+    pattern: BROWSER_PATTERNS.Yandex,
+    priority: 130,
+    version: VERSION_PATTERNS.Yandex,
+  },
+  {
+    kind: 'browser',
+    name: 'Vivaldi',
+    pattern: BROWSER_PATTERNS.Vivaldi,
+    priority: 120,
+    version: VERSION_PATTERNS.Vivaldi,
+  },
+  {
+    kind: 'browser',
+    name: 'Whale',
+    pattern: BROWSER_PATTERNS.Whale,
+    priority: 110,
+    version: VERSION_PATTERNS.Whale,
+  },
+  {
+    kind: 'browser',
+    name: 'DuckDuckGo',
+    pattern: BROWSER_PATTERNS.DuckDuckGo,
+    priority: 100,
+    version: VERSION_PATTERNS.DuckDuckGo,
+  },
+  {
+    kind: 'browser',
+    name: 'Chromium',
+    pattern: BROWSER_PATTERNS.Chromium,
+    priority: 90,
+    fields: { isChrome: true },
+    version: VERSION_PATTERNS.Chromium,
+  },
+  {
+    kind: 'browser',
+    name: 'Chrome',
+    pattern: BROWSER_PATTERNS.Chrome,
+    priority: 80,
+    fields: { isChrome: true },
+    version: VERSION_PATTERNS.Chrome,
+  },
+  {
+    kind: 'browser',
+    name: 'Safari',
+    pattern: BROWSER_PATTERNS.Safari,
+    priority: 70,
+    fields: { isSafari: true },
+    version: VERSION_PATTERNS.Safari,
+  },
+  {
+    kind: 'browser',
+    name: 'WinJs',
+    pattern: BROWSER_PATTERNS.WinJs,
+    priority: 60,
+    fields: { isWinJs: true },
+    version: VERSION_PATTERNS.WinJs,
+  },
+  {
+    kind: 'browser',
+    name: 'IE',
+    pattern: BROWSER_PATTERNS.IE,
+    priority: 50,
+    fields: { isIE: true },
+    version: VERSION_PATTERNS.IE,
+  },
+  {
+    kind: 'browser',
+    name: 'ps3',
+    pattern: BROWSER_PATTERNS.PS3,
+    priority: 40,
+    version: VERSION_PATTERNS.Ps3,
+  },
+  {
+    kind: 'browser',
+    name: 'psp',
+    pattern: BROWSER_PATTERNS.PSP,
+    priority: 30,
+    version: VERSION_PATTERNS.Psp,
+  },
+  {
+    kind: 'browser',
+    name: 'Firefox',
+    pattern: BROWSER_PATTERNS.Firefox,
+    priority: 20,
+    fields: { isFirefox: true },
+    version: VERSION_PATTERNS.Firefox,
+  },
+  {
+    kind: 'browser',
+    name: 'UCBrowser',
+    pattern: BROWSER_PATTERNS.UC,
+    priority: 10,
+    fields: { isUC: true },
+    version: VERSION_PATTERNS.UC,
+  },
+
+  // Operating systems (Windows 11 reports NT 10.0 and is only distinguishable via Client Hints)
+  {
+    kind: 'os',
+    name: 'Windows 10.0',
+    pattern: OS_PATTERNS.Windows10,
+    priority: 410,
+    fields: { isWindows: true },
+  },
+  {
+    kind: 'os',
+    name: 'Windows Vista',
+    pattern: OS_PATTERNS.WindowsVista,
+    priority: 400,
+    fields: { isWindows: true },
+  },
+  {
+    kind: 'os',
+    name: 'Windows 7',
+    pattern: OS_PATTERNS.Windows7,
+    priority: 390,
+    fields: { isWindows: true },
+  },
+  {
+    kind: 'os',
+    name: 'Windows 8',
+    pattern: OS_PATTERNS.Windows8,
+    priority: 380,
+    fields: { isWindows: true },
+  },
+  {
+    kind: 'os',
+    name: 'Windows 8.1',
+    pattern: OS_PATTERNS.Windows81,
+    priority: 370,
+    fields: { isWindows: true },
+  },
+  {
+    kind: 'os',
+    name: 'Windows 2003',
+    pattern: OS_PATTERNS.Windows2003,
+    priority: 360,
+    fields: { isWindows: true },
+  },
+  {
+    kind: 'os',
+    name: 'Windows XP',
+    pattern: OS_PATTERNS.WindowsXP,
+    priority: 350,
+    fields: { isWindows: true },
+  },
+  {
+    kind: 'os',
+    name: 'Windows 2000',
+    pattern: OS_PATTERNS.Windows2000,
+    priority: 340,
+    fields: { isWindows: true },
+  },
+  { kind: 'os', name: 'Windows Phone 8', pattern: OS_PATTERNS.WindowsPhone8, priority: 330 },
+  {
+    kind: 'os',
+    name: 'Linux 64',
+    pattern: OS_PATTERNS.Linux64,
+    priority: 320,
+    fields: { isLinux: true, isLinux64: true },
+  },
+  {
+    kind: 'os',
+    name: 'Linux',
+    pattern: OS_PATTERNS.Linux,
+    priority: 310,
+    fields: { isLinux: true },
+  },
+  {
+    kind: 'os',
+    name: 'Chrome OS',
+    pattern: OS_PATTERNS.ChromeOS,
+    priority: 300,
+    fields: { isChromeOS: true },
+  },
+  { kind: 'os', name: 'Wii', pattern: OS_PATTERNS.Wii, priority: 290 },
+  { kind: 'os', name: 'Playstation', pattern: OS_PATTERNS.PS3, priority: 280 },
+  { kind: 'os', name: 'Playstation', pattern: OS_PATTERNS.PSP, priority: 270 },
+  {
+    kind: 'os',
+    name: 'OS X Cheetah',
+    pattern: OS_PATTERNS.OSXCheetah,
+    priority: 260,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Puma',
+    pattern: OS_PATTERNS.OSXPuma,
+    priority: 250,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Jaguar',
+    pattern: OS_PATTERNS.OSXJaguar,
+    priority: 240,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Panther',
+    pattern: OS_PATTERNS.OSXPanther,
+    priority: 230,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Tiger',
+    pattern: OS_PATTERNS.OSXTiger,
+    priority: 220,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Leopard',
+    pattern: OS_PATTERNS.OSXLeopard,
+    priority: 210,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Snow Leopard',
+    pattern: OS_PATTERNS.OSXSnowLeopard,
+    priority: 200,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Lion',
+    pattern: OS_PATTERNS.OSXLion,
+    priority: 190,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Mountain Lion',
+    pattern: OS_PATTERNS.OSXMountainLion,
+    priority: 180,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Mavericks',
+    pattern: OS_PATTERNS.OSXMavericks,
+    priority: 170,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X Yosemite',
+    pattern: OS_PATTERNS.OSXYosemite,
+    priority: 160,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'OS X El Capitan',
+    pattern: OS_PATTERNS.OSXElCapitan,
+    priority: 150,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'macOS Sierra',
+    pattern: OS_PATTERNS.OSXSierra,
+    priority: 140,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'macOS High Sierra',
+    pattern: OS_PATTERNS.OSXHighSierra,
+    priority: 130,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'macOS Mojave',
+    pattern: OS_PATTERNS.OSXMojave,
+    priority: 120,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'macOS Catalina',
+    pattern: OS_PATTERNS.OSXCatalina,
+    priority: 110,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'macOS Big Sur',
+    pattern: OS_PATTERNS.MacOSBigSur,
+    priority: 100,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'macOS Monterey',
+    pattern: OS_PATTERNS.MacOSMonterey,
+    priority: 90,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'macOS Ventura',
+    pattern: OS_PATTERNS.MacOSVentura,
+    priority: 80,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'macOS Sonoma',
+    pattern: OS_PATTERNS.MacOSSonoma,
+    priority: 70,
+    fields: { isMac: true },
+  },
+  {
+    kind: 'os',
+    name: 'macOS Sequoia',
+    pattern: OS_PATTERNS.MacOSSequoia,
+    priority: 60,
+    fields: { isMac: true },
+  },
+  // iOS is checked after the macOS versions but before the generic Mac pattern
+  { kind: 'os', name: 'iOS', pattern: OS_PATTERNS.iPad, priority: 50, fields: { isiPad: true } },
+  {
+    kind: 'os',
+    name: 'iOS',
+    pattern: OS_PATTERNS.iPhone,
+    priority: 40,
+    fields: { isiPhone: true },
+  },
+  { kind: 'os', name: 'Mac OS', pattern: OS_PATTERNS.Mac, priority: 30, fields: { isMac: true } },
+  { kind: 'os', name: 'Bada', pattern: OS_PATTERNS.Bada, priority: 20, fields: { isBada: true } },
+  { kind: 'os', name: 'Curl', pattern: OS_PATTERNS.Curl, priority: 10, fields: { isCurl: true } },
+
+  // Platforms
+  {
+    kind: 'platform',
+    name: 'Microsoft Windows',
+    pattern: PLATFORM_PATTERNS.Windows,
+    priority: 130,
+  },
+  {
+    kind: 'platform',
+    name: 'Microsoft Windows Phone',
+    pattern: PLATFORM_PATTERNS.WindowsPhone,
+    priority: 120,
+    fields: { isWindowsPhone: true },
+  },
+  { kind: 'platform', name: 'Apple Mac', pattern: PLATFORM_PATTERNS.Mac, priority: 110 },
+  { kind: 'platform', name: 'Curl', pattern: PLATFORM_PATTERNS.Curl, priority: 100 },
+  {
+    kind: 'platform',
+    name: 'Android',
+    pattern: PLATFORM_PATTERNS.Android,
+    priority: 90,
+    fields: { isAndroid: true },
+  },
+  {
+    kind: 'platform',
+    name: 'Blackberry',
+    pattern: PLATFORM_PATTERNS.Blackberry,
+    priority: 80,
+    fields: { isBlackberry: true },
+  },
+  { kind: 'platform', name: 'Linux', pattern: PLATFORM_PATTERNS.Linux, priority: 70 },
+  { kind: 'platform', name: 'Wii', pattern: PLATFORM_PATTERNS.Wii, priority: 60 },
+  { kind: 'platform', name: 'Playstation', pattern: PLATFORM_PATTERNS.Playstation, priority: 50 },
+  {
+    kind: 'platform',
+    name: 'iPad',
+    pattern: PLATFORM_PATTERNS.iPad,
+    priority: 40,
+    fields: { isiPad: true },
+  },
+  {
+    kind: 'platform',
+    name: 'iPod',
+    pattern: PLATFORM_PATTERNS.iPod,
+    priority: 30,
+    fields: { isiPod: true },
+  },
+  {
+    kind: 'platform',
+    name: 'iPhone',
+    pattern: PLATFORM_PATTERNS.iPhone,
+    priority: 20,
+    fields: { isiPhone: true },
+  },
+  {
+    kind: 'platform',
+    name: 'Samsung',
+    pattern: PLATFORM_PATTERNS.Samsung,
+    priority: 10,
+    fields: { isSamsung: true },
+  },
+] as const;
+
+/**
+ * DeviceUUIDOptions keys that configure UUID generation instead of selecting hashed fields
+ */
+export const CONFIG_OPTIONS: readonly (keyof DeviceUUIDOptions)[] = [
+  'hashAlgorithm',
+  'outputFormat',
+  'namespace',
+  'salt',
+  'secretKey',
+  'rules',
+] as const;
+
 /**
  * Default configuration options
  */
@@ -238,6 +1178,10 @@ export const DEFAULT_AGENT: Readonly<Omit<AgentInfo, 'hashInt' | 'hashMD5'>> = {
   isSamsung: false,
   isRaspberry: false,
   isBot: false,
+  bot: null,
+  device: { vendor: 'unknown', model: 'unknown', type: 'unknown' },
+  isWebView: false,
+  appName: 'unknown',
   isCurl: false,
   isAndroidTablet: false,
   isWinJs: false,
@@ -253,10 +1197,20 @@ export const DEFAULT_AGENT: Readonly<Omit<AgentInfo, 'hashInt' | 'hashMD5'>> = {
   resolution: [0, 0],
   cpuCores: -1,
   language: 'unknown',
+  languages: [],
+  devicePixelRatio: -1,
+  deviceMemory: -1,
+  saveData: false,
   browser: 'unknown',
   version: 'unknown',
   os: 'unknown',
   platform: 'unknown',
+  browserVersion: { major: 0, minor: 0, patch: 0, raw: 'unknown' },
+  osVersion: { major: 0, minor: 0, patch: 0, raw: 'unknown' },
+  architecture: 'unknown',
+  bitness: 'unknown',
+  model: 'unknown',
+  clientHints: null,
   geoIp: {},
   source: '',
 } as const;
@@ -6,21 +6,43 @@
 import type {
   DeviceUUIDOptions,
   AgentInfo,
+  GeoIpInfo,
+  GeoResolver,
+  HeadersLike,
+  IdentityResult,
+  IdentityStoreOptions,
   FingerprintOptions,
   FingerprintDetails,
+  FingerprintComponent,
+  FingerprintComponentName,
   FingerprintFeature,
   FingerprintPreset,
+  AutomationResult,
+  ConsistencyResult,
+  DetectionRule,
+  RawFingerprint,
+  MediaDevicesRawValue,
+  NetworkInfoRawValue,
+  TimezoneRawValue,
+  IncognitoRawValue,
+  SupportPolicy,
+  SupportResult,
 } from '../types';
-import {
-  DEFAULT_OPTIONS,
-  DEFAULT_AGENT,
-  VERSION_PATTERNS,
-  BROWSER_PATTERNS,
-  OS_PATTERNS,
-  PLATFORM_PATTERNS,
-  IS_BOT_REGEXP,
-} from '../constants';
+import type { HeaderDeviceInfo } from '../utils/headers';
+import type { RuleSet } from '../utils/rules';
+import { DEFAULT_OPTIONS, DEFAULT_AGENT, CONFIG_OPTIONS } from '../constants';
 import { hashMD5, hashInt } from '../utils/md5';
+import { generateUuid, generateUuidAsync } from '../utils/uuid';
+import { createIdentityStore } from '../utils/identity-store';
+import { parseUserAgentCached } from './parser';
+import { getRuleSet } from '../utils/rules';
+import { checkSupport } from '../utils/support';
+import {
+  estimateConfidence,
+  getComponentEntropy,
+  getEntropyPlatform,
+  resolveEntropyTable,
+} from '../utils/entropy';
 import {
   getUserAgent,
   getLanguage,
@@ -28,25 +50,42 @@ import {
   getPixelDepth,
   getScreenResolution,
   getCPUCores,
+  getLanguages,
+  getDevicePixelRatio,
+  getDeviceMemory,
+  getSaveData,
   isTouchScreen as checkTouchScreen,
+  getMaxTouchPoints,
+  isBrave,
+  isArc,
   getNavigator,
   isBrowser,
 } from '../utils/environment';
+import { getHeaderDeviceInfo } from '../utils/headers';
+import {
+  getHighEntropyValues,
+  parseClientHintsHeaders,
+  applyClientHints,
+} from '../utils/client-hints';
 import {
   mergeOptions,
   getPresetOptions,
   isFeatureSupported,
   withTimeout,
   combineHashes,
-  calculateConfidence,
   getTimestamp,
   measureAsync,
+  STABLE_COMPONENTS,
 } from '../utils/fingerprint';
 import {
-  getCanvasFingerprint,
-  getWebGLFingerprint,
-  getAudioFingerprint,
-  getFontFingerprint,
+  getCanvasFingerprintRaw,
+  getWebGLFingerprintRaw,
+  getWebGPUFingerprintRaw,
+  getAudioFingerprintRaw,
+  getFontFingerprintRaw,
+  getVoicesFingerprintRaw,
+  detectAutomation,
+  detectInconsistencies,
 } from '../fingerprints';
 
 /**
@@ -55,11 +94,9 @@ import {
  */
 export class DeviceUUID {
   private readonly options: DeviceUUIDOptions;
-  private readonly versionPatterns = VERSION_PATTERNS;
-  private readonly browserPatterns = BROWSER_PATTERNS;
-  private readonly osPatterns = OS_PATTERNS;
-  private readonly platformPatterns = PLATFORM_PATTERNS;
+  private readonly rules: RuleSet;
   private agent: AgentInfo;
+  private static geoResolver: GeoResolver | null = null;
 
   /**
    * Get or set the user agent string
@@ -78,6 +115,7 @@ export class DeviceUUID {
   constructor(options: Partial<DeviceUUIDOptions> = {}) {
     // Merge provided options with defaults
     this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.rules = getRuleSet(this.options.rules);
 
     // Initialize agent with default values and hash functions
     this.agent = {
@@ -88,640 +126,161 @@ export class DeviceUUID {
   }
 
   /**
-   * Get browser name from user agent string
+   * Test for iPadOS requesting desktop websites with a Mac user agent
+   * Macs have no touch screen, so touch points reveal the iPad (browser only)
    */
-  private getBrowser(source: string): string {
-    // Check browsers in priority order
-    if (this.browserPatterns.Edge.test(source)) {
-      this.agent.isEdge = true;
-      return 'Edge';
-    }
-    if (this.browserPatterns.PhantomJS.test(source)) {
-      this.agent.isPhantomJS = true;
-      return 'PhantomJS';
-    }
-    if (this.browserPatterns.Konqueror.test(source)) {
-      this.agent.isKonqueror = true;
-      return 'Konqueror';
-    }
-    if (this.browserPatterns.Amaya.test(source)) {
-      this.agent.isAmaya = true;
-      return 'Amaya';
-    }
-    if (this.browserPatterns.Epiphany.test(source)) {
-      this.agent.isEpiphany = true;
-      return 'Epiphany';
-    }
-    if (this.browserPatterns.SeaMonkey.test(source)) {
-      this.agent.isSeaMonkey = true;
-      return 'SeaMonkey';
-    }
-    if (this.browserPatterns.Flock.test(source)) {
-      this.agent.isFlock = true;
-      return 'Flock';
-    }
-    if (this.browserPatterns.OmniWeb.test(source)) {
-      this.agent.isOmniWeb = true;
-      return 'OmniWeb';
-    }
-    if (this.browserPatterns.Opera.test(source)) {
-      this.agent.isOpera = true;
-      return 'Opera';
-    }
-    if (this.browserPatterns.Chromium.test(source)) {
-      this.agent.isChrome = true;
-      return 'Chromium';
-    }
-    if (this.browserPatterns.Chrome.test(source)) {
-      this.agent.isChrome = true;
-      return 'Chrome';
-    }
-    if (this.browserPatterns.Safari.test(source)) {
-      this.agent.isSafari = true;
-      return 'Safari';
-    }
-    if (this.browserPatterns.WinJs.test(source)) {
-      this.agent.isWinJs = true;
-      return 'WinJs';
-    }
-    if (this.browserPatterns.IE.test(source)) {
-      this.agent.isIE = true;
-      return 'IE';
-    }
-    if (this.browserPatterns.PS3.test(source)) {
-      return 'ps3';
-    }
-    if (this.browserPatterns.PSP.test(source)) {
-      return 'psp';
-    }
-    if (this.browserPatterns.Firefox.test(source)) {
-      this.agent.isFirefox = true;
-      return 'Firefox';
-    }
-    if (this.browserPatterns.UC.test(source)) {
-      this.agent.isUC = true;
-      return 'UCBrowser';
-    }
-
-    // If UA doesn't start with Mozilla, try to extract browser name
-    if (source.indexOf('Mozilla') !== 0 && /^([\d\w-.]+)\/[\d\w.-]+/i.test(source)) {
-      this.agent.isAuthoritative = false;
-      return RegExp.$1;
-    }
+  private testiPadDesktopMode(agent: AgentInfo): void {
+    if (agent.device.model !== 'Mac' || getMaxTouchPoints() <= 1) return;
 
-    return 'unknown';
+    agent.isiPad = true;
+    agent.isTablet = true;
+    agent.isMac = false;
+    agent.isDesktop = false;
+    agent.os = 'iOS';
+    agent.platform = 'iPad';
+    agent.device = { vendor: 'Apple', model: 'iPad', type: 'tablet' };
   }
 
   /**
-   * Get browser version from user agent string
+   * Collect device properties from browser globals
    */
-  private getBrowserVersion(source: string): string {
-    const browser = this.agent.browser;
-
-    const versionMap: Record<string, RegExp> = {
-      Edge: this.versionPatterns.Edge,
-      PhantomJS: this.versionPatterns.PhantomJS,
-      Chrome: this.versionPatterns.Chrome,
-      Chromium: this.versionPatterns.Chromium,
-      Safari: this.versionPatterns.Safari,
-      Opera: this.versionPatterns.Opera,
-      Firefox: this.versionPatterns.Firefox,
-      WinJs: this.versionPatterns.WinJs,
-      IE: this.versionPatterns.IE,
-      ps3: this.versionPatterns.Ps3,
-      psp: this.versionPatterns.Psp,
-      Amaya: this.versionPatterns.Amaya,
-      Epiphany: this.versionPatterns.Epiphany,
-      SeaMonkey: this.versionPatterns.SeaMonkey,
-      Flock: this.versionPatterns.Flock,
-      OmniWeb: this.versionPatterns.OmniWeb,
-      UCBrowser: this.versionPatterns.UC,
-    };
-
-    const pattern = versionMap[browser];
-    if (pattern && pattern.test(source)) {
-      // Handle IE and Opera special cases with multiple capture groups
-      if (browser === 'IE' || browser === 'Opera') {
-        return RegExp.$2 || RegExp.$1 || 'unknown';
-      }
-      return RegExp.$1 || 'unknown';
-    }
-
-    // Try generic pattern if browser is not unknown
-    if (browser !== 'unknown') {
-      const regex = new RegExp(`${browser}[\\/ ]([\\d\\w.\\-]+)`, 'i');
-      if (regex.test(source)) {
-        return RegExp.$1 || 'unknown';
-      }
-    }
-
-    return 'unknown';
+  private getEnvironmentInfo(agent: AgentInfo): void {
+    agent.language = getLanguage();
+    agent.languages = getLanguages();
+    agent.colorDepth = getColorDepth();
+    agent.pixelDepth = getPixelDepth();
+    agent.resolution = getScreenResolution();
+    agent.cpuCores = getCPUCores();
+    agent.devicePixelRatio = getDevicePixelRatio();
+    agent.deviceMemory = getDeviceMemory();
+    agent.saveData = getSaveData();
   }
 
   /**
-   * Get operating system from user agent string
+   * Get device properties from request headers instead of browser globals
    */
-  private getOS(source: string): string {
-    // Windows versions - check Windows 11 before Windows 10
-    if (this.osPatterns.Windows11.test(source)) {
-      // Windows 11 uses NT 10.0 but can be detected by platform version
-      const match = source.match(this.osPatterns.Windows11);
-      if (match && match[1]) {
-        const version = parseInt(match[1]);
-        // Chrome/Edge version >= 96 typically indicates Windows 11
-        if (version >= 96) {
-          this.agent.isWindows = true;
-          return 'Windows 11';
-        }
-      }
-    }
-    if (this.osPatterns.Windows10.test(source)) {
-      this.agent.isWindows = true;
-      return 'Windows 10.0';
-    }
-    if (this.osPatterns.WindowsVista.test(source)) {
-      this.agent.isWindows = true;
-      return 'Windows Vista';
-    }
-    if (this.osPatterns.Windows7.test(source)) {
-      this.agent.isWindows = true;
-      return 'Windows 7';
-    }
-    if (this.osPatterns.Windows8.test(source)) {
-      this.agent.isWindows = true;
-      return 'Windows 8';
-    }
-    if (this.osPatterns.Windows81.test(source)) {
-      this.agent.isWindows = true;
-      return 'Windows 8.1';
-    }
-    if (this.osPatterns.Windows2003.test(source)) {
-      this.agent.isWindows = true;
-      return 'Windows 2003';
-    }
-    if (this.osPatterns.WindowsXP.test(source)) {
-      this.agent.isWindows = true;
-      return 'Windows XP';
-    }
-    if (this.osPatterns.Windows2000.test(source)) {
-      this.agent.isWindows = true;
-      return 'Windows 2000';
-    }
-    if (this.osPatterns.WindowsPhone8.test(source)) {
-      return 'Windows Phone 8';
-    }
-
-    // Linux
-    if (this.osPatterns.Linux64.test(source)) {
-      this.agent.isLinux = true;
-      this.agent.isLinux64 = true;
-      return 'Linux 64';
-    }
-    if (this.osPatterns.Linux.test(source)) {
-      this.agent.isLinux = true;
-      return 'Linux';
-    }
-    if (this.osPatterns.ChromeOS.test(source)) {
-      this.agent.isChromeOS = true;
-      return 'Chrome OS';
-    }
-
-    // Gaming consoles
-    if (this.osPatterns.Wii.test(source)) {
-      return 'Wii';
-    }
-    if (this.osPatterns.PS3.test(source)) {
-      return 'Playstation';
-    }
-    if (this.osPatterns.PSP.test(source)) {
-      return 'Playstation';
-    }
-
-    // macOS versions
-    if (this.osPatterns.OSXCheetah.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Cheetah';
-    }
-    if (this.osPatterns.OSXPuma.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Puma';
-    }
-    if (this.osPatterns.OSXJaguar.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Jaguar';
-    }
-    if (this.osPatterns.OSXPanther.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Panther';
-    }
-    if (this.osPatterns.OSXTiger.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Tiger';
-    }
-    if (this.osPatterns.OSXLeopard.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Leopard';
-    }
-    if (this.osPatterns.OSXSnowLeopard.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Snow Leopard';
-    }
-    if (this.osPatterns.OSXLion.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Lion';
-    }
-    if (this.osPatterns.OSXMountainLion.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Mountain Lion';
-    }
-    if (this.osPatterns.OSXMavericks.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Mavericks';
-    }
-    if (this.osPatterns.OSXYosemite.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X Yosemite';
-    }
-    if (this.osPatterns.OSXElCapitan.test(source)) {
-      this.agent.isMac = true;
-      return 'OS X El Capitan';
-    }
-    if (this.osPatterns.OSXSierra.test(source)) {
-      this.agent.isMac = true;
-      return 'macOS Sierra';
-    }
-    if (this.osPatterns.OSXHighSierra.test(source)) {
-      this.agent.isMac = true;
-      return 'macOS High Sierra';
-    }
-    if (this.osPatterns.OSXMojave.test(source)) {
-      this.agent.isMac = true;
-      return 'macOS Mojave';
-    }
-    if (this.osPatterns.OSXCatalina.test(source)) {
-      this.agent.isMac = true;
-      return 'macOS Catalina';
-    }
-    if (this.osPatterns.MacOSBigSur.test(source)) {
-      this.agent.isMac = true;
-      return 'macOS Big Sur';
-    }
-    if (this.osPatterns.MacOSMonterey.test(source)) {
-      this.agent.isMac = true;
-      return 'macOS Monterey';
-    }
-    if (this.osPatterns.MacOSVentura.test(source)) {
-      this.agent.isMac = true;
-      return 'macOS Ventura';
-    }
-    if (this.osPatterns.MacOSSonoma.test(source)) {
-      this.agent.isMac = true;
-      return 'macOS Sonoma';
-    }
-    if (this.osPatterns.MacOSSequoia.test(source)) {
-      this.agent.isMac = true;
-      return 'macOS Sequoia';
-    }
-
-    // Mobile OS - check before Mac to avoid false Mac detection on iOS devices
-    if (this.osPatterns.iPad.test(source)) {
-      this.agent.isiPad = true;
-      return 'iOS';
-    }
-    if (this.osPatterns.iPhone.test(source)) {
-      this.agent.isiPhone = true;
-      return 'iOS';
-    }
-
-    // Mac OS - check after iOS to avoid false positives
-    if (this.osPatterns.Mac.test(source)) {
-      this.agent.isMac = true;
-      return 'Mac OS';
-    }
-    if (this.osPatterns.Bada.test(source)) {
-      this.agent.isBada = true;
-      return 'Bada';
-    }
-    if (this.osPatterns.Curl.test(source)) {
-      this.agent.isCurl = true;
-      return 'Curl';
-    }
-
-    return 'unknown';
+  private static getHeaderInfo(agent: AgentInfo, info: HeaderDeviceInfo): void {
+    agent.languages = info.languages;
+    agent.language = info.languages[0]?.toLowerCase() ?? 'unknown';
+    agent.resolution = info.viewport;
+    agent.devicePixelRatio = info.devicePixelRatio;
+    agent.deviceMemory = info.deviceMemory;
+    agent.saveData = info.saveData;
   }
 
   /**
-   * Get platform from user agent string
+   * Reset agent to default state
    */
-  private getPlatform(source: string): string {
-    if (this.platformPatterns.Windows.test(source)) {
-      return 'Microsoft Windows';
-    }
-    if (this.platformPatterns.WindowsPhone.test(source)) {
-      this.agent.isWindowsPhone = true;
-      return 'Microsoft Windows Phone';
-    }
-    if (this.platformPatterns.Mac.test(source)) {
-      return 'Apple Mac';
-    }
-    if (this.platformPatterns.Curl.test(source)) {
-      return 'Curl';
-    }
-    if (this.platformPatterns.Android.test(source)) {
-      this.agent.isAndroid = true;
-      return 'Android';
-    }
-    if (this.platformPatterns.Blackberry.test(source)) {
-      this.agent.isBlackberry = true;
-      return 'Blackberry';
-    }
-    if (this.platformPatterns.Linux.test(source)) {
-      return 'Linux';
-    }
-    if (this.platformPatterns.Wii.test(source)) {
-      return 'Wii';
-    }
-    if (this.platformPatterns.Playstation.test(source)) {
-      return 'Playstation';
-    }
-    if (this.platformPatterns.iPad.test(source)) {
-      this.agent.isiPad = true;
-      return 'iPad';
-    }
-    if (this.platformPatterns.iPod.test(source)) {
-      this.agent.isiPod = true;
-      return 'iPod';
-    }
-    if (this.platformPatterns.iPhone.test(source)) {
-      this.agent.isiPhone = true;
-      return 'iPhone';
-    }
-    if (this.platformPatterns.Samsung.test(source)) {
-      this.agent.isSamsung = true;
-      return 'Samsung';
-    }
-
-    return 'unknown';
+  public reset(): this {
+    this.agent = {
+      ...DEFAULT_AGENT,
+      hashInt,
+      hashMD5,
+    };
+    return this;
   }
 
   /**
-   * Test for bot/crawler
+   * Parse user agent and collect device information
+   * User agent results are memoized, so repeated user agents skip detection
+   * @param source - User agent string (defaults to navigator.userAgent)
+   * @returns AgentInfo object with device details
    */
-  private testBot(): void {
-    const isBot = IS_BOT_REGEXP.exec(this.agent.source.toLowerCase());
-    if (isBot) {
-      this.agent.isBot = isBot[1];
-    } else if (!this.agent.isAuthoritative) {
-      // Test unauthoritative parse for 'bot' in UA
-      this.agent.isBot = /bot/i.test(this.agent.source);
+  public parse(source?: string): AgentInfo {
+    const agent = parseUserAgentCached(source || getUserAgent(), this.rules);
+    agent.isTouchScreen = checkTouchScreen();
+    // Touch points describe the current device, not an arbitrary user agent
+    if (agent.device.model === 'Mac' && (!source || source === getUserAgent())) {
+      this.testiPadDesktopMode(agent);
     }
-  }
 
-  /**
-   * Test for Smart TV
-   */
-  private testSmartTV(): void {
-    const isSmartTV = /smart-tv|smarttv|googletv|appletv|hbbtv|pov_tv|netcast.tv/gi.exec(
-      this.agent.source.toLowerCase()
-    );
-    if (isSmartTV) {
-      this.agent.isSmartTV = isSmartTV[1] || true;
-    }
+    this.getEnvironmentInfo(agent);
+    return agent;
   }
 
   /**
-   * Test for mobile device
+   * Parse device information from HTTP request headers (server-side)
+   * Reads the user agent, Accept-Language, Client Hints and Save-Data headers
+   * without touching browser globals
+   * @param headers - Request headers (IncomingMessage headers or Fetch API Headers)
+   * @param ip - Optional client IP address used to populate geoIp
+   * @param rules - Optional custom detection rules
+   * @returns AgentInfo object with device details
    */
-  private testMobile(): void {
-    // Smart TV check - Smart TVs are not mobile or desktop
-    if (this.agent.isSmartTV) {
-      this.agent.isMobile = false;
-      this.agent.isDesktop = false;
-      return;
+  public static fromHeaders(
+    headers: HeadersLike,
+    ip?: string,
+    rules?: readonly DetectionRule[]
+  ): AgentInfo {
+    const info = getHeaderDeviceInfo(headers);
+    const agent = parseUserAgentCached(info.userAgent, getRuleSet(rules));
+    DeviceUUID.getHeaderInfo(agent, info);
+    if (ip) {
+      agent.geoIp = DeviceUUID.lookupGeoIp(ip);
     }
 
-    // Mobile OS detection - check BEFORE desktop to avoid false Linux detection for Android
-    if (
-      this.agent.isAndroid ||
-      this.agent.isSamsung ||
-      this.agent.isiPhone ||
-      this.agent.isiPod ||
-      this.agent.isBada ||
-      this.agent.isBlackberry ||
-      this.agent.isWindowsPhone
-    ) {
-      this.agent.isMobile = true;
-      this.agent.isDesktop = false;
-      return;
-    }
-
-    // iPad is a tablet, not mobile
-    if (this.agent.isiPad) {
-      this.agent.isMobile = false;
-      this.agent.isDesktop = false;
-      return;
-    }
-
-    // Desktop OS detection
-    if (this.agent.isWindows || this.agent.isLinux || this.agent.isMac || this.agent.isChromeOS) {
-      this.agent.isDesktop = true;
-      return;
-    }
-
-    // Check for mobile keyword in user agent
-    if (/mobile/i.test(this.agent.source)) {
-      this.agent.isMobile = true;
-      this.agent.isDesktop = false;
-    }
+    const hints = parseClientHintsHeaders(headers);
+    return hints ? applyClientHints(agent, hints) : agent;
   }
 
   /**
-   * Test for Android tablet
+   * Set the resolver used to populate geoIp from client IP addresses
+   * @param resolver - Geo resolver (e.g. createMMDBGeoResolver from device-uuid/server) or null to disable
    */
-  private testAndroidTablet(): void {
-    if (this.agent.isAndroid && !/mobile/i.test(this.agent.source)) {
-      this.agent.isAndroidTablet = true;
-      this.agent.isMobile = false; // Tablets are not mobile
-    }
-  }
-
-  /**
-   * Test for tablet device
-   */
-  private testTablet(): void {
-    if (this.agent.isiPad || this.agent.isAndroidTablet || this.agent.isKindleFire) {
-      this.agent.isTablet = true;
-    }
-
-    if (/tablet/i.test(this.agent.source)) {
-      this.agent.isTablet = true;
-    }
+  public static setGeoResolver(resolver: GeoResolver | null): void {
+    DeviceUUID.geoResolver = resolver;
   }
 
   /**
-   * Test for IE compatibility mode
+   * Resolve geolocation data for an IP address using the configured resolver
+   * @param ip - IPv4 or IPv6 address
+   * @returns Geolocation data (empty when no resolver is set or the IP is unknown)
    */
-  private testCompatibilityMode(): void {
-    if (this.agent.isIE) {
-      const tridentMatch = /Trident\/(\d)\.0/i.exec(this.agent.source);
-      if (tridentMatch) {
-        const tridentVersion = parseInt(tridentMatch[1], 10);
-        const version = parseFloat(this.agent.version);
-
-        if (version === 7 && tridentVersion === 7) {
-          this.agent.isIECompatibilityMode = true;
-          this.agent.version = '11.0';
-        } else if (version === 7 && tridentVersion === 6) {
-          this.agent.isIECompatibilityMode = true;
-          this.agent.version = '10.0';
-        } else if (version === 7 && tridentVersion === 5) {
-          this.agent.isIECompatibilityMode = true;
-          this.agent.version = '9.0';
-        } else if (version === 7 && tridentVersion === 4) {
-          this.agent.isIECompatibilityMode = true;
-          this.agent.version = '8.0';
-        }
-      }
-    }
-  }
+  public static lookupGeoIp(ip: string): GeoIpInfo {
+    if (!DeviceUUID.geoResolver) return {};
 
-  /**
-   * Test for Amazon Silk browser
-   */
-  private testSilk(): void {
-    if (/silk/gi.test(this.agent.source)) {
-      this.agent.isSilk = true;
-    }
-    if (/Silk-Accelerated=true/gi.test(this.agent.source)) {
-      this.agent.silkAccelerated = true;
+    try {
+      return DeviceUUID.geoResolver.lookup(ip) ?? {};
+    } catch {
+      return {};
     }
   }
 
   /**
-   * Test for Kindle Fire device
-   */
-  private testKindleFire(): void {
-    const kindleTests: Array<[RegExp, string]> = [
-      [/KFOT/gi, 'Kindle Fire'],
-      [/KFTT/gi, 'Kindle Fire HD'],
-      [/KFJWI/gi, 'Kindle Fire HD 8.9'],
-      [/KFJWA/gi, 'Kindle Fire HD 8.9 4G'],
-      [/KFSOWI/gi, 'Kindle Fire HD 7'],
-      [/KFTHWI/gi, 'Kindle Fire HDX 7'],
-      [/KFTHWA/gi, 'Kindle Fire HDX 7 4G'],
-      [/KFAPWI/gi, 'Kindle Fire HDX 8.9'],
-      [/KFAPWA/gi, 'Kindle Fire HDX 8.9 4G'],
-      [/KFMAWI/gi, 'Kindle Fire HD 10'],
-    ];
-
-    for (const [pattern] of kindleTests) {
-      if (pattern.test(this.agent.source)) {
-        this.agent.isKindleFire = true;
-        return;
+   * Parse user agent and merge User-Agent Client Hints
+   * In browsers the hints are read from navigator.userAgentData; on the server
+   * pass the request headers to read them from Sec-CH-UA-* headers instead
+   * @param source - User agent string (defaults to navigator.userAgent)
+   * @param headers - Optional request headers carrying Sec-CH-UA-* hints
+   * @returns Promise resolving to AgentInfo object with device details
+   */
+  public async parseAsync(source?: string, headers?: HeadersLike): Promise<AgentInfo> {
+    const agent = this.parse(source);
+    const hints = headers ? parseClientHintsHeaders(headers) : await getHighEntropyValues();
+    const result = hints ? applyClientHints(agent, hints) : agent;
+
+    // Brave and Arc report plain Chrome user agents and are only detectable in the browser
+    if (result.browser === 'Chrome' && (!source || source === getUserAgent())) {
+      if (await isBrave()) {
+        result.browser = 'Brave';
+      } else if (isArc()) {
+        result.browser = 'Arc';
       }
     }
-  }
-
-  /**
-   * Test for Captive Network Assistant
-   */
-  private testCaptiveNetwork(): void {
-    if (/CaptiveNetwork/gi.test(this.agent.source)) {
-      this.agent.isCaptive = true;
-      this.agent.isMac = true;
-      this.agent.platform = 'Apple Mac';
-    }
-  }
-
-  /**
-   * Test for touch screen support
-   */
-  private testTouchSupport(): void {
-    this.agent.isTouchScreen = checkTouchScreen();
-  }
-
-  /**
-   * Get language from browser
-   */
-  private getLanguageInfo(): void {
-    this.agent.language = getLanguage();
-  }
-
-  /**
-   * Get color depth
-   */
-  private getColorDepthInfo(): void {
-    this.agent.colorDepth = getColorDepth();
-  }
-
-  /**
-   * Get pixel depth
-   */
-  private getPixelDepthInfo(): void {
-    this.agent.pixelDepth = getPixelDepth();
-  }
-
-  /**
-   * Get screen resolution
-   */
-  private getScreenResolutionInfo(): void {
-    this.agent.resolution = getScreenResolution();
-  }
-
-  /**
-   * Get CPU core count
-   */
-  private getCPUInfo(): void {
-    this.agent.cpuCores = getCPUCores();
-  }
 
-  /**
-   * Reset agent to default state
-   */
-  public reset(): this {
-    this.agent = {
-      ...DEFAULT_AGENT,
-      hashInt,
-      hashMD5,
-    };
-    return this;
+    return result;
   }
 
   /**
-   * Parse user agent and collect device information
+   * Check the browser against a support policy
+   * @param policy - Browserslist-style query (e.g. "chrome >= 110, safari >= 16.4") or minimum
+   * versions by browser name (e.g. `{ Chrome: 110, Safari: '16.4' }`)
    * @param source - User agent string (defaults to navigator.userAgent)
-   * @returns AgentInfo object with device details
+   * @returns Whether the browser is supported, with a reason
+   * @throws Error for queries that need browserslist usage data (e.g. "last 2 versions")
    */
-  public parse(source?: string): AgentInfo {
-    const ua = new DeviceUUID();
-    const userAgent = source || getUserAgent();
-
-    ua.agent.source = userAgent.replace(/^\s*/, '').replace(/\s*$/, '');
-    ua.agent.os = ua.getOS(ua.agent.source);
-    ua.agent.platform = ua.getPlatform(ua.agent.source);
-    ua.agent.browser = ua.getBrowser(ua.agent.source);
-    ua.agent.version = ua.getBrowserVersion(ua.agent.source);
-
-    // Run all tests
-    ua.testBot();
-    ua.testSmartTV();
-    ua.testMobile();
-    ua.testAndroidTablet();
-    ua.testTablet();
-    ua.testCompatibilityMode();
-    ua.testSilk();
-    ua.testKindleFire();
-    ua.testCaptiveNetwork();
-    ua.testTouchSupport();
-
-    // Get device properties
-    ua.getLanguageInfo();
-    ua.getColorDepthInfo();
-    ua.getPixelDepthInfo();
-    ua.getScreenResolutionInfo();
-    ua.getCPUInfo();
-
-    return ua.agent;
+  public checkSupport(policy: SupportPolicy, source?: string): SupportResult {
+    return checkSupport(this.parse(source), policy);
   }
 
   /**
@@ -735,7 +294,10 @@ export class DeviceUUID {
 
     // Collect data based on options
     for (const key in this.options) {
-      if (Object.prototype.hasOwnProperty.call(this.options, key)) {
+      if (
+        Object.prototype.hasOwnProperty.call(this.options, key) &&
+        !CONFIG_OPTIONS.includes(key as keyof DeviceUUIDOptions)
+      ) {
         const value = du[key as keyof AgentInfo];
         dataArray.push(value);
       }
@@ -751,19 +313,7 @@ export class DeviceUUID {
       dataArray.push(du.resolution);
     }
 
-    // Generate UUID v4 format
-    const pref = 'b'; // UUID version 4 variant bits
-    const tmpUuid = hashMD5(dataArray.join(':'));
-
-    const uuid = [
-      tmpUuid.slice(0, 8),
-      tmpUuid.slice(8, 12),
-      '4' + tmpUuid.slice(12, 15), // Version 4
-      pref + tmpUuid.slice(15, 18), // Variant bits
-      tmpUuid.slice(20),
-    ];
-
-    return uuid.join('-');
+    return generateUuid(dataArray.join(':'), this.options);
   }
 
   /**
@@ -778,6 +328,22 @@ export class DeviceUUID {
     return details.uuid;
   }
 
+  /**
+   * Get a persistent device ID
+   * The first fingerprint is stored (localStorage → IndexedDB → cookie) and its ID is returned
+   * on later visits as long as fresh fingerprints stay similar to the stored one
+   * @param options - Fingerprint options or preset name
+   * @param storeOptions - Identity store options
+   * @returns Promise resolving to the reconciled identity
+   */
+  public async getPersistentAsync(
+    options?: Partial<FingerprintOptions> | FingerprintPreset,
+    storeOptions?: IdentityStoreOptions
+  ): Promise<IdentityResult> {
+    const details = await this.getDetailedAsync(options);
+    return createIdentityStore(storeOptions).reconcile(details);
+  }
+
   /**
    * Generate detailed fingerprint with all component information
    * @param options - Fingerprint options or preset name
@@ -805,198 +371,156 @@ export class DeviceUUID {
     };
 
     const hashes: (string | null)[] = [basicHash];
-    let successCount = 1;
-    let totalCount = 1;
 
     // Collect advanced fingerprints based on options
     const tasks: Promise<void>[] = [];
+    const { methodTimeout: timeout, includeRawValues, excludeRandomized } = resolvedOptions;
+
+    /**
+     * Whether a component is left out of the UUID because its value changes between reads
+     */
+    const isExcluded = (component?: FingerprintComponent): boolean =>
+      !!excludeRandomized && component?.randomized === true;
+
+    /**
+     * Collect a component, keeping its raw values only when requested
+     */
+    const collect = async <T>(
+      name: Exclude<FingerprintComponentName, 'basic' | 'automation'>,
+      fn: () => Promise<RawFingerprint<T> | null>
+    ): Promise<void> => {
+      const { result, duration } = await measureAsync(fn);
+      const component: FingerprintComponent<T> = {
+        name,
+        value: result?.hash ?? null,
+        success: result !== null,
+        duration,
+        ...(includeRawValues && result && { raw: result.raw }),
+        ...(result?.randomized !== undefined && { randomized: result.randomized }),
+      };
+      Object.assign(components, { [name]: component });
+      if (result && !isExcluded(component)) hashes.push(result.hash);
+    };
 
     // Canvas fingerprint
     if (resolvedOptions.canvas) {
-      totalCount++;
-      tasks.push(
-        (async () => {
-          const { result, duration } = await measureAsync(() =>
-            getCanvasFingerprint({ timeout: resolvedOptions.methodTimeout })
-          );
-          components.canvas = {
-            name: 'canvas',
-            value: result,
-            success: result !== null,
-            duration,
-          };
-          if (result) {
-            hashes.push(result);
-            successCount++;
-          }
-        })()
-      );
+      tasks.push(collect('canvas', () => getCanvasFingerprintRaw({ timeout })));
     }
 
     // WebGL fingerprint
     if (resolvedOptions.webgl) {
-      totalCount++;
-      tasks.push(
-        (async () => {
-          const { result, duration } = await measureAsync(() =>
-            getWebGLFingerprint({ timeout: resolvedOptions.methodTimeout })
-          );
-          components.webgl = {
-            name: 'webgl',
-            value: result,
-            success: result !== null,
-            duration,
-          };
-          if (result) {
-            hashes.push(result);
-            successCount++;
-          }
-        })()
-      );
+      const config = typeof resolvedOptions.webgl === 'object' ? resolvedOptions.webgl : {};
+      tasks.push(collect('webgl', () => getWebGLFingerprintRaw({ ...config, timeout })));
+    }
+
+    // WebGPU fingerprint
+    if (resolvedOptions.webgpu) {
+      tasks.push(collect('webgpu', () => getWebGPUFingerprintRaw({ timeout })));
     }
 
     // Audio fingerprint
     if (resolvedOptions.audio) {
-      totalCount++;
-      tasks.push(
-        (async () => {
-          const { result, duration } = await measureAsync(() =>
-            getAudioFingerprint({ timeout: resolvedOptions.methodTimeout })
-          );
-          components.audio = {
-            name: 'audio',
-            value: result,
-            success: result !== null,
-            duration,
-          };
-          if (result) {
-            hashes.push(result);
-            successCount++;
-          }
-        })()
-      );
+      tasks.push(collect('audio', () => getAudioFingerprintRaw({ timeout })));
     }
 
     // Font fingerprint
     if (resolvedOptions.fonts) {
-      totalCount++;
-      const fontList = Array.isArray(resolvedOptions.fonts) ? resolvedOptions.fonts : undefined;
-      tasks.push(
-        (async () => {
-          const { result, duration } = await measureAsync(() =>
-            getFontFingerprint({ timeout: resolvedOptions.methodTimeout, fonts: fontList })
-          );
-          components.fonts = {
-            name: 'fonts',
-            value: result,
-            success: result !== null,
-            duration,
-          };
-          if (result) {
-            hashes.push(result);
-            successCount++;
-          }
-        })()
-      );
+      const fonts = Array.isArray(resolvedOptions.fonts) ? resolvedOptions.fonts : undefined;
+      tasks.push(collect('fonts', () => getFontFingerprintRaw({ timeout, fonts })));
+    }
+
+    // Speech synthesis voices fingerprint
+    if (resolvedOptions.voices) {
+      tasks.push(collect('voices', () => getVoicesFingerprintRaw({ timeout })));
     }
 
     // Media devices fingerprint
     if (resolvedOptions.mediaDevices) {
-      totalCount++;
-      tasks.push(
-        (async () => {
-          const { result, duration } = await measureAsync(() => this.getMediaDevicesHash());
-          components.mediaDevices = {
-            name: 'mediaDevices',
-            value: result,
-            success: result !== null,
-            duration,
-          };
-          if (result) {
-            hashes.push(result);
-            successCount++;
-          }
-        })()
-      );
+      tasks.push(collect('mediaDevices', () => this.getMediaDevicesFingerprint()));
     }
 
     // Network info fingerprint
     if (resolvedOptions.networkInfo) {
-      totalCount++;
-      const { result, duration } = await measureAsync(() =>
-        Promise.resolve(this.getNetworkInfoHash())
-      );
-      components.networkInfo = {
-        name: 'networkInfo',
-        value: result,
-        success: result !== null,
-        duration,
-      };
-      if (result) {
-        hashes.push(result);
-        successCount++;
-      }
+      await collect('networkInfo', () => Promise.resolve(this.getNetworkInfoFingerprint()));
     }
 
     // Timezone fingerprint
     if (resolvedOptions.timezone) {
-      totalCount++;
-      const { result, duration } = await measureAsync(() =>
-        Promise.resolve(this.getTimezoneHash())
-      );
-      components.timezone = {
-        name: 'timezone',
-        value: result,
-        success: result !== null,
-        duration,
-      };
-      if (result) {
-        hashes.push(result);
-        successCount++;
-      }
+      await collect('timezone', () => Promise.resolve(this.getTimezoneFingerprint()));
     }
 
     // Incognito detection
     if (resolvedOptions.incognitoDetection) {
-      totalCount++;
-      tasks.push(
-        (async () => {
-          const { result, duration } = await measureAsync(() => this.detectIncognito());
-          components.incognito = {
-            name: 'incognito',
-            value: result,
-            success: result !== null,
-            duration,
-          };
-          if (result) {
-            hashes.push(result);
-            successCount++;
-          }
-        })()
-      );
+      tasks.push(collect('incognito', () => this.detectIncognito()));
+    }
+
+    // Automation detection (reported separately, does not affect the UUID)
+    let automation: AutomationResult | undefined;
+    if (resolvedOptions.automation) {
+      const { result, duration } = await measureAsync(() => Promise.resolve(detectAutomation()));
+      automation = result;
+      components.automation = {
+        name: 'automation',
+        value: result.signals.join(',') || 'none',
+        success: true,
+        duration,
+      };
+    }
+
+    // User agent consistency checks (lower the confidence instead of changing the UUID)
+    let consistency: ConsistencyResult | undefined;
+    if (resolvedOptions.consistency) {
+      consistency = detectInconsistencies(await this.parseAsync());
     }
 
     // Wait for all async tasks with global timeout
     await withTimeout(Promise.all(tasks), resolvedOptions.timeout ?? 5000, []);
 
-    // Combine all hashes into final UUID
-    const combinedData = combineHashes(hashes);
-    const finalHash = hashMD5(combinedData);
-
-    const uuid = [
-      finalHash.slice(0, 8),
-      finalHash.slice(8, 12),
-      '4' + finalHash.slice(12, 15),
-      'b' + finalHash.slice(15, 18),
-      finalHash.slice(20),
-    ].join('-');
+    // Annotate components with entropy estimates for the current platform
+    const entropyTable = resolveEntropyTable(resolvedOptions.entropyTable);
+    const platform = getEntropyPlatform(this.parse());
+    const names = Object.keys(components) as FingerprintComponentName[];
+    for (const name of names) {
+      const component = components[name];
+      if (!component) continue;
+      const { entropy, stability } = getComponentEntropy(name, platform, entropyTable);
+      component.entropy = component.success ? entropy : 0;
+      component.stability = stability;
+    }
+
+    // Combine all hashes into final UUID (fuzzy mode keeps only upgrade-stable components)
+    const combinedData = combineHashes(
+      resolvedOptions.fuzzy
+        ? STABLE_COMPONENTS.map((name) =>
+            isExcluded(components[name]) ? null : (components[name]?.value ?? null)
+          )
+        : hashes
+    );
+    const identifying = names
+      .filter((name) =>
+        resolvedOptions.fuzzy ? STABLE_COMPONENTS.includes(name) : name !== 'automation'
+      )
+      .map((name) => components[name] as FingerprintComponent)
+      .filter((component) => !isExcluded(component));
+    const uuid = await generateUuidAsync(combinedData, {
+      hashAlgorithm: resolvedOptions.hashAlgorithm ?? this.options.hashAlgorithm,
+      outputFormat: resolvedOptions.outputFormat ?? this.options.outputFormat,
+      namespace: resolvedOptions.namespace ?? this.options.namespace,
+      salt: this.options.salt,
+      secretKey: this.options.secretKey,
+    });
 
     const endTime = getTimestamp();
 
     return {
       uuid,
       components,
-      confidence: calculateConfidence(totalCount, successCount),
+      ...(automation && { automation }),
+      ...(consistency && { consistency }),
+      entropy: identifying.reduce((sum, { entropy = 0 }) => sum + entropy, 0),
+      confidence:
+        estimateConfidence(identifying, entropyTable.targetBits) *
+        (1 - (consistency?.lieScore ?? 0)),
       duration: endTime - startTime,
       timestamp: Date.now(),
     };
@@ -1029,10 +553,10 @@ export class DeviceUUID {
   }
 
   /**
-   * Get media devices fingerprint hash
-   * @returns Promise resolving to hash or null
+   * Get media devices fingerprint
+   * @returns Promise resolving to hash and device counts, or null
    */
-  private async getMediaDevicesHash(): Promise<string | null> {
+  private async getMediaDevicesFingerprint(): Promise<RawFingerprint<MediaDevicesRawValue> | null> {
     if (!isBrowser()) return null;
 
     const nav = getNavigator();
@@ -1041,7 +565,7 @@ export class DeviceUUID {
     try {
       const devices = await nav.mediaDevices.enumerateDevices();
 
-      const counts = {
+      const counts: MediaDevicesRawValue = {
         audioinput: 0,
         audiooutput: 0,
         videoinput: 0,
@@ -1049,21 +573,24 @@ export class DeviceUUID {
 
       for (const device of devices) {
         if (device.kind in counts) {
-          counts[device.kind as keyof typeof counts]++;
+          counts[device.kind as keyof MediaDevicesRawValue]++;
         }
       }
 
-      return hashMD5(`${counts.audioinput}:${counts.audiooutput}:${counts.videoinput}`);
+      return {
+        hash: hashMD5(`${counts.audioinput}:${counts.audiooutput}:${counts.videoinput}`),
+        raw: counts,
+      };
     } catch {
       return null;
     }
   }
 
   /**
-   * Get network information fingerprint hash
-   * @returns Hash or null
+   * Get network information fingerprint
+   * @returns Hash and connection info, or null
    */
-  private getNetworkInfoHash(): string | null {
+  private getNetworkInfoFingerprint(): RawFingerprint<NetworkInfoRawValue> | null {
     if (!isBrowser()) return null;
 
     const nav = getNavigator() as Navigator & {
@@ -1078,42 +605,58 @@ export class DeviceUUID {
 
     try {
       const conn = nav.connection;
+      const raw: NetworkInfoRawValue = {
+        effectiveType: conn.effectiveType ?? null,
+        downlink: conn.downlink ?? null,
+        rtt: conn.rtt ?? null,
+      };
       const parts = [
-        conn.effectiveType ?? 'unknown',
-        conn.downlink?.toString() ?? 'unknown',
-        conn.rtt?.toString() ?? 'unknown',
+        raw.effectiveType ?? 'unknown',
+        raw.downlink?.toString() ?? 'unknown',
+        raw.rtt?.toString() ?? 'unknown',
       ];
-      return hashMD5(parts.join(':'));
+      return { hash: hashMD5(parts.join(':')), raw };
     } catch {
       return null;
     }
   }
 
   /**
-   * Get timezone fingerprint hash
-   * @returns Hash or null
+   * Get timezone fingerprint
+   * @returns Hash and timezone/locale strings, or null
    */
-  private getTimezoneHash(): string | null {
+  private getTimezoneFingerprint(): RawFingerprint<TimezoneRawValue> | null {
     try {
-      const parts: string[] = [];
-
-      // Timezone offset
-      parts.push(`offset:${new Date().getTimezoneOffset()}`);
+      const raw: TimezoneRawValue = {
+        offset: new Date().getTimezoneOffset(),
+        timeZone: null,
+        locale: null,
+        languages: null,
+      };
 
       // Intl timezone
       if (typeof Intl !== 'undefined') {
         const options = Intl.DateTimeFormat().resolvedOptions();
-        parts.push(`tz:${options.timeZone ?? 'unknown'}`);
-        parts.push(`locale:${options.locale ?? 'unknown'}`);
+        raw.timeZone = options.timeZone ?? 'unknown';
+        raw.locale = options.locale ?? 'unknown';
       }
 
       // Languages
       const nav = getNavigator();
       if (nav?.languages) {
-        parts.push(`langs:${nav.languages.join(',')}`);
+        raw.languages = [...nav.languages];
+      }
+
+      const parts = [`offset:${raw.offset}`];
+      if (raw.timeZone !== null && raw.locale !== null) {
+        parts.push(`tz:${raw.timeZone}`);
+        parts.push(`locale:${raw.locale}`);
+      }
+      if (raw.languages) {
+        parts.push(`langs:${raw.languages.join(',')}`);
       }
 
-      return hashMD5(parts.join('|'));
+      return { hash: hashMD5(parts.join('|')), raw };
     } catch {
       return null;
     }
@@ -1121,9 +664,9 @@ export class DeviceUUID {
 
   /**
    * Detect incognito/private browsing mode
-   * @returns Promise resolving to hash or null
+   * @returns Promise resolving to hash and indicators, or null
    */
-  private async detectIncognito(): Promise<string | null> {
+  private async detectIncognito(): Promise<RawFingerprint<IncognitoRawValue> | null> {
     if (!isBrowser()) return null;
 
     try {
@@ -1167,7 +710,7 @@ export class DeviceUUID {
       // Cookie check
       indicators.push(`cookies:${navigator.cookieEnabled ? 'enabled' : 'disabled'}`);
 
-      return hashMD5(indicators.join('|'));
+      return { hash: hashMD5(indicators.join('|')), raw: { indicators } };
     } catch {
       return null;
     }
@@ -0,0 +1,320 @@
+/**
+ * User Agent Parser
+ * Parses user agent strings into AgentInfo with precompiled patterns and memoizes the results
+ * in a bounded LRU cache per rule set
+ */
+
+import type { AgentInfo, DetectionRuleKind } from '../types';
+import type { CompiledRule, RuleSet } from '../utils/rules';
+import { DEFAULT_AGENT, WEBVIEW_PATTERNS } from '../constants';
+import { hashMD5, hashInt } from '../utils/md5';
+import { detectBot, getBotsRevision } from '../utils/bots';
+import { detectDevice } from '../utils/devices';
+import { getRuleSet, findRule, extractVersion } from '../utils/rules';
+import { parseVersion, getOSVersion } from '../utils/version';
+import { LRUCache } from '../utils/lru-cache';
+
+/**
+ * Maximum number of memoized parse results per rule set
+ */
+export const PARSE_CACHE_SIZE = 1000;
+
+/**
+ * Memoized parse results with the bot registry revision they were parsed against
+ */
+interface ParseCache {
+  botsRevision: number;
+  results: LRUCache<string, AgentInfo>;
+}
+
+const SMART_TV_PATTERN = /smart-tv|smarttv|googletv|appletv|hbbtv|pov_tv|netcast.tv/i;
+const PRODUCT_TOKEN_PATTERN = /^([\d\w-.]+)\/([\d\w.-]+)/i;
+const TRIDENT_PATTERN = /Trident\/(\d)\.0/i;
+const WEBVIEWS = Object.entries(WEBVIEW_PATTERNS);
+
+/**
+ * Document modes IE 8-11 report in compatibility mode, by Trident version
+ */
+const IE_COMPATIBILITY_VERSIONS: Readonly<Record<number, string>> = {
+  7: '11.0',
+  6: '10.0',
+  5: '9.0',
+  4: '8.0',
+};
+
+const caches = new WeakMap<RuleSet, ParseCache>();
+
+/**
+ * Apply the first matching detection rule of a kind to the agent
+ * @returns The matched rule, or null if no rule matched
+ */
+const applyRule = (
+  agent: AgentInfo,
+  rules: RuleSet,
+  kind: DetectionRuleKind
+): CompiledRule | null => {
+  const compiled = findRule(rules[kind], agent.source);
+  if (compiled?.rule.fields) {
+    Object.assign(agent, compiled.rule.fields);
+  }
+  return compiled;
+};
+
+/**
+ * Detect the browser name and version
+ */
+const detectBrowser = (agent: AgentInfo, rules: RuleSet): void => {
+  const { source } = agent;
+  const compiled = applyRule(agent, rules, 'browser');
+
+  if (compiled) {
+    agent.browser = compiled.rule.name;
+    agent.version =
+      extractVersion(compiled.rule, source) ||
+      compiled.fallbackVersion?.exec(source)?.[1] ||
+      'unknown';
+    return;
+  }
+
+  // If UA doesn't start with Mozilla, use its product token as the browser name
+  const match = PRODUCT_TOKEN_PATTERN.exec(source);
+  if (source.indexOf('Mozilla') !== 0 && match) {
+    agent.isAuthoritative = false;
+    agent.browser = match[1];
+    agent.version = match[2];
+  }
+};
+
+/**
+ * Test for bot/crawler using the bot catalogue
+ */
+const testBot = (agent: AgentInfo): void => {
+  const bot = detectBot(agent.source);
+  if (bot) {
+    agent.isBot = bot.match;
+    agent.bot = bot.info;
+  } else if (!agent.isAuthoritative) {
+    // Test unauthoritative parse for 'bot' in UA
+    agent.isBot = /bot/i.test(agent.source);
+  }
+};
+
+/**
+ * Test for Smart TV
+ */
+const testSmartTV = (agent: AgentInfo): void => {
+  if (SMART_TV_PATTERN.test(agent.source)) {
+    agent.isSmartTV = true;
+  }
+};
+
+/**
+ * Test for mobile device
+ */
+const testMobile = (agent: AgentInfo): void => {
+  // Smart TV check - Smart TVs are not mobile or desktop
+  if (agent.isSmartTV) {
+    agent.isMobile = false;
+    agent.isDesktop = false;
+    return;
+  }
+
+  // Mobile OS detection - check BEFORE desktop to avoid false Linux detection for Android
+  if (
+    agent.isAndroid ||
+    agent.isSamsung ||
+    agent.isiPhone ||
+    agent.isiPod ||
+    agent.isBada ||
+    agent.isBlackberry ||
+    agent.isWindowsPhone
+  ) {
+    agent.isMobile = true;
+    agent.isDesktop = false;
+    return;
+  }
+
+  // iPad is a tablet, not mobile
+  if (agent.isiPad) {
+    agent.isMobile = false;
+    agent.isDesktop = false;
+    return;
+  }
+
+  // Desktop OS detection
+  if (agent.isWindows || agent.isLinux || agent.isMac || agent.isChromeOS) {
+    agent.isDesktop = true;
+    return;
+  }
+
+  // Check for mobile keyword in user agent
+  if (/mobile/i.test(agent.source)) {
+    agent.isMobile = true;
+    agent.isDesktop = false;
+  }
+};
+
+/**
+ * Test for Android tablet
+ */
+const testAndroidTablet = (agent: AgentInfo): void => {
+  if (agent.isAndroid && !/mobile/i.test(agent.source)) {
+    agent.isAndroidTablet = true;
+    agent.isMobile = false; // Tablets are not mobile
+  }
+};
+
+/**
+ * Test for tablet device
+ */
+const testTablet = (agent: AgentInfo): void => {
+  if (agent.isiPad || agent.isAndroidTablet || agent.isKindleFire) {
+    agent.isTablet = true;
+  }
+
+  if (/tablet/i.test(agent.source)) {
+    agent.isTablet = true;
+  }
+};
+
+/**
+ * Test for IE compatibility mode
+ */
+const testCompatibilityMode = (agent: AgentInfo): void => {
+  if (!agent.isIE || parseFloat(agent.version) !== 7) return;
+
+  const tridentMatch = TRIDENT_PATTERN.exec(agent.source);
+  const version = tridentMatch ? IE_COMPATIBILITY_VERSIONS[parseInt(tridentMatch[1], 10)] : null;
+  if (version) {
+    agent.isIECompatibilityMode = true;
+    agent.version = version;
+  }
+};
+
+/**
+ * Test for Amazon Silk browser
+ */
+const testSilk = (agent: AgentInfo): void => {
+  if (/silk/i.test(agent.source)) {
+    agent.isSilk = true;
+  }
+  if (/Silk-Accelerated=true/i.test(agent.source)) {
+    agent.silkAccelerated = true;
+  }
+};
+
+/**
+ * Look up the device vendor, model and form factor in the device database
+ */
+const testDevice = (agent: AgentInfo): void => {
+  const { isSmartTV, isTablet, isMobile, isDesktop } = agent;
+  const inferred = isSmartTV
+    ? 'smarttv'
+    : isTablet
+      ? 'tablet'
+      : isMobile
+        ? 'mobile'
+        : isDesktop
+          ? 'desktop'
+          : 'unknown';
+  const device = detectDevice(agent.source);
+
+  agent.device = {
+    vendor: device?.vendor ?? 'unknown',
+    model: device?.model ?? 'unknown',
+    type: device && device.type !== 'unknown' ? device.type : inferred,
+  };
+};
+
+/**
+ * Test for Kindle Fire device
+ */
+const testKindleFire = (agent: AgentInfo): void => {
+  const { vendor, type } = agent.device;
+  if (vendor === 'Amazon' && type === 'tablet') {
+    agent.isKindleFire = true;
+  }
+};
+
+/**
+ * Test for Captive Network Assistant
+ */
+const testCaptiveNetwork = (agent: AgentInfo): void => {
+  if (/CaptiveNetwork/i.test(agent.source)) {
+    agent.isCaptive = true;
+    agent.isMac = true;
+    agent.platform = 'Apple Mac';
+  }
+};
+
+/**
+ * Test for in-app browsers (webviews)
+ */
+const testWebView = (agent: AgentInfo): void => {
+  for (const [appName, pattern] of WEBVIEWS) {
+    if (pattern.test(agent.source)) {
+      agent.isWebView = true;
+      agent.appName = appName;
+      return;
+    }
+  }
+};
+
+/**
+ * Parse a user agent string and run all user agent based tests, without memoization
+ * @param source - User agent string
+ * @param rules - Compiled detection rules (default: built-in rules)
+ * @returns New AgentInfo with user agent derived fields; device properties keep their defaults
+ */
+export const parseUserAgent = (source: string, rules: RuleSet = getRuleSet()): AgentInfo => {
+  const agent: AgentInfo = { ...DEFAULT_AGENT, hashInt, hashMD5 };
+  agent.source = source.trim();
+
+  const os = applyRule(agent, rules, 'os');
+  agent.os = os?.rule.name ?? 'unknown';
+  agent.osVersion = parseVersion(
+    (os && extractVersion(os.rule, agent.source)) || getOSVersion(agent.source)
+  );
+  agent.platform = applyRule(agent, rules, 'platform')?.rule.name ?? 'unknown';
+  detectBrowser(agent, rules);
+  agent.browserVersion = parseVersion(agent.version);
+
+  testBot(agent);
+  testSmartTV(agent);
+  testMobile(agent);
+  testAndroidTablet(agent);
+  testTablet(agent);
+  testCompatibilityMode(agent);
+  testSilk(agent);
+  testDevice(agent);
+  testKindleFire(agent);
+  testCaptiveNetwork(agent);
+  testWebView(agent);
+
+  return agent;
+};
+
+/**
+ * Parse a user agent string, memoizing results in a bounded LRU cache per rule set
+ * Each call returns a shallow copy, so callers may reassign fields of the result; nested
+ * objects (device, versions, bot) are shared with the cache and must not be mutated
+ * @param source - User agent string
+ * @param rules - Compiled detection rules (default: built-in rules)
+ * @returns New AgentInfo with user agent derived fields
+ */
+export const parseUserAgentCached = (source: string, rules: RuleSet = getRuleSet()): AgentInfo => {
+  let cache = caches.get(rules);
+  const botsRevision = getBotsRevision();
+  if (!cache || cache.botsRevision !== botsRevision) {
+    // Registered bots change detection results, so start over when they change
+    cache = { botsRevision, results: new LRUCache(PARSE_CACHE_SIZE) };
+    caches.set(rules, cache);
+  }
+
+  let agent = cache.results.get(source);
+  if (!agent) {
+    agent = parseUserAgent(source, rules);
+    cache.results.set(source, agent);
+  }
+  return { ...agent };
+};
@@ -3,6 +3,12 @@
  * Generates unique fingerprint based on audio processing differences
  */
 
+import type {
+  AudioContextRawValue,
+  AudioRawValue,
+  OfflineAudioRawValue,
+  RawFingerprint,
+} from '../types';
 import { hashMD5 } from '../utils/md5';
 import { isBrowser, getWindow } from '../utils/environment';
 import { withTimeout } from '../utils/fingerprint';
@@ -50,9 +56,11 @@ const getOfflineAudioContextConstructor = (): typeof OfflineAudioContext | null
 /**
  * Generate fingerprint using OfflineAudioContext (more deterministic)
  * @param timeout - Timeout in milliseconds
- * @returns Promise resolving to fingerprint hash or null
+ * @returns Promise resolving to fingerprint hash and raw data, or null
  */
-const generateOfflineFingerprint = async (timeout: number): Promise<string | null> => {
+const generateOfflineFingerprint = async (
+  timeout: number
+): Promise<RawFingerprint<OfflineAudioRawValue> | null> => {
   const OfflineCtx = getOfflineAudioContextConstructor();
   if (!OfflineCtx) return null;
 
@@ -115,15 +123,19 @@ const generateOfflineFingerprint = async (timeout: number): Promise<string | nul
               if (val < min) min = val;
             }
 
+            const sampleRate = renderedBuffer.sampleRate;
             const fingerprint = [
               ...samples.map((s) => s.toString()),
               `sum:${sum}`,
               `max:${max}`,
               `min:${min}`,
-              `sampleRate:${renderedBuffer.sampleRate}`,
+              `sampleRate:${sampleRate}`,
             ].join('|');
 
-            resolve(hashMD5(fingerprint));
+            resolve({
+              hash: hashMD5(fingerprint),
+              raw: { source: 'offline', samples, sum, max, min, sampleRate },
+            });
           } catch {
             resolve(null);
           }
@@ -141,45 +153,51 @@ const generateOfflineFingerprint = async (timeout: number): Promise<string | nul
 
 /**
  * Generate fallback fingerprint using AudioContext properties
- * @returns Fingerprint hash or null
+ * @returns Fingerprint hash and raw data, or null
  */
-const generateFallbackFingerprint = (): string | null => {
+const generateFallbackFingerprint = (): RawFingerprint<AudioContextRawValue> | null => {
   const AudioCtx = getAudioContextConstructor();
   if (!AudioCtx) return null;
 
   try {
     const context = new AudioCtx();
-    const parts: string[] = [];
-
-    // Collect basic properties
-    parts.push(`sampleRate:${context.sampleRate}`);
-    parts.push(`state:${context.state}`);
-    parts.push(`baseLatency:${context.baseLatency || 'unknown'}`);
-
-    // Get destination properties
-    parts.push(`maxChannels:${context.destination.maxChannelCount}`);
-    parts.push(`channelCount:${context.destination.channelCount}`);
-    parts.push(`channelInterpretation:${context.destination.channelInterpretation}`);
+    const raw: AudioContextRawValue = {
+      source: 'context',
+      sampleRate: context.sampleRate,
+      state: context.state,
+      baseLatency: context.baseLatency || null,
+      maxChannels: context.destination.maxChannelCount,
+      channelCount: context.destination.channelCount,
+      channelInterpretation: context.destination.channelInterpretation,
+    };
 
     // Close context
     context.close().catch(() => {
       // Ignore close errors
     });
 
-    return hashMD5(parts.join('|'));
+    const parts = [
+      `sampleRate:${raw.sampleRate}`,
+      `state:${raw.state}`,
+      `baseLatency:${raw.baseLatency ?? 'unknown'}`,
+      `maxChannels:${raw.maxChannels}`,
+      `channelCount:${raw.channelCount}`,
+      `channelInterpretation:${raw.channelInterpretation}`,
+    ];
+    return { hash: hashMD5(parts.join('|')), raw };
   } catch {
     return null;
   }
 };
 
 /**
- * Generate audio fingerprint
+ * Generate audio fingerprint with the audio data it was computed from
  * @param options - Fingerprint options
- * @returns Promise resolving to fingerprint hash or null
+ * @returns Promise resolving to fingerprint hash and raw data, or null
  */
-export const getAudioFingerprint = async (
+export const getAudioFingerprintRaw = async (
   options?: AudioFingerprintOptions
-): Promise<string | null> => {
+): Promise<RawFingerprint<AudioRawValue> | null> => {
   const timeout = options?.timeout ?? 1000;
 
   if (!isBrowser()) return null;
@@ -193,6 +211,18 @@ export const getAudioFingerprint = async (
   return generateFallbackFingerprint();
 };
 
+/**
+ * Generate audio fingerprint
+ * @param options - Fingerprint options
+ * @returns Promise resolving to fingerprint hash or null
+ */
+export const getAudioFingerprint = async (
+  options?: AudioFingerprintOptions
+): Promise<string | null> => {
+  const result = await getAudioFingerprintRaw(options);
+  return result?.hash ?? null;
+};
+
 /**
  * Check if AudioContext is supported
  * @returns Whether AudioContext is available
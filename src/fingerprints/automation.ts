@@ -0,0 +1,105 @@
+/**
+ * Automation Detection Module
+ * Detects headless browsers and automation frameworks (Puppeteer, Playwright, Selenium)
+ * whose user agents look like regular browsers
+ */
+
+import type { AutomationResult, AutomationSignal } from '../types';
+import { getNavigator, getUserAgent, getWindow, isBrowser } from '../utils/environment';
+import { getWebGLRenderer } from './webgl';
+
+/**
+ * Weight of each signal in the automation score
+ * Framework artifacts are conclusive, environment quirks only add suspicion
+ */
+export const AUTOMATION_SIGNAL_WEIGHTS: Readonly<Record<AutomationSignal, number>> = {
+  webdriver: 1,
+  cdpArtifacts: 1,
+  headlessUserAgent: 1,
+  inconsistentChrome: 0.4,
+  softwareRenderer: 0.4,
+  missingPlugins: 0.2,
+  missingMimeTypes: 0.2,
+} as const;
+
+/**
+ * Score from which a browser is considered automated
+ */
+const AUTOMATION_THRESHOLD = 0.5;
+
+/**
+ * Global properties injected by ChromeDriver (cdc_), Playwright, Puppeteer, Selenium and others
+ */
+const ARTIFACT_PATTERN =
+  /^(?:\$?cdc_|\$wdc_|__playwright|__pw[A-Z_]|__puppeteer|__selenium|__webdriver|__driver|__fxdriver|__nightmare|_Selenium_IDE|_phantom|callPhantom|domAutomation)/;
+
+/**
+ * Attributes set on the root element by Selenium drivers
+ */
+const ARTIFACT_ATTRIBUTES = ['webdriver', 'selenium', 'driver'] as const;
+
+/**
+ * Software WebGL renderers used by headless and virtualized browsers
+ */
+const SOFTWARE_RENDERER_PATTERN = /swiftshader|llvmpipe|softpipe|software rasterizer/i;
+
+/**
+ * Check for automation framework globals on window and document
+ */
+const hasCdpArtifacts = (win: Window): boolean => {
+  try {
+    const names = [...Object.getOwnPropertyNames(win), ...Object.getOwnPropertyNames(win.document)];
+    if (names.some((name) => ARTIFACT_PATTERN.test(name))) return true;
+
+    const root = win.document.documentElement;
+    return ARTIFACT_ATTRIBUTES.some((attribute) => root?.hasAttribute(attribute));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Detect headless browser and automation signals
+ * @returns Verdict with the weighted score and the signals that fired
+ */
+export const detectAutomation = (): AutomationResult => {
+  const signals: AutomationSignal[] = [];
+  const win = getWindow();
+  const nav = getNavigator();
+
+  if (isBrowser() && win && nav) {
+    const ua = getUserAgent();
+    // Desktop Chromium always exposes the built-in PDF viewer plugins and a window.chrome object
+    const claimsChromium = /Chrom(?:e|ium)\//.test(ua);
+    const claimsDesktopChromium = claimsChromium && !/Mobile|Android/i.test(ua);
+
+    if (nav.webdriver === true) signals.push('webdriver');
+    if (hasCdpArtifacts(win)) signals.push('cdpArtifacts');
+    if (/HeadlessChrome/.test(ua)) signals.push('headlessUserAgent');
+
+    if (claimsDesktopChromium && nav.plugins?.length === 0) signals.push('missingPlugins');
+    if (claimsDesktopChromium && nav.mimeTypes?.length === 0) signals.push('missingMimeTypes');
+
+    // Android WebViews report a Chrome token without exposing window.chrome
+    const hasChromeObject = !!(win as Window & { chrome?: unknown }).chrome;
+    if (claimsChromium !== hasChromeObject && !/; wv\)/.test(ua)) {
+      signals.push('inconsistentChrome');
+    }
+
+    const gpu = getWebGLRenderer();
+    if (gpu && SOFTWARE_RENDERER_PATTERN.test(gpu.renderer)) signals.push('softwareRenderer');
+  }
+
+  const total = signals.reduce((sum, signal) => sum + AUTOMATION_SIGNAL_WEIGHTS[signal], 0);
+  const score = Math.min(1, Math.round(total * 100) / 100);
+
+  return { isAutomated: score >= AUTOMATION_THRESHOLD, score, signals };
+};
+
+/**
+ * Check if automation detection is available
+ * @returns Whether browser globals can be inspected
+ */
+export const isAutomationDetectionSupported = (): boolean => {
+  return isBrowser() && !!getNavigator();
+};
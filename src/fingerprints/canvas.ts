@@ -3,6 +3,7 @@
  * Generates unique fingerprint based on canvas rendering differences
  */
 
+import type { CanvasRawValue, RawFingerprint } from '../types';
 import { hashMD5 } from '../utils/md5';
 import { isBrowser } from '../utils/environment';
 import { withTimeout } from '../utils/fingerprint';
@@ -113,6 +114,38 @@ const renderEmoji = (ctx: CanvasRenderingContext2D): void => {
   ctx.fillText('🔥💧🌿⚡🎭', 10, 180);
 };
 
+/**
+ * Render the full test scene
+ * @param ctx - Canvas 2D context
+ * @param width - Canvas width
+ * @param height - Canvas height
+ */
+const renderScene = (ctx: CanvasRenderingContext2D, width: number, height: number): void => {
+  // Clear and set background
+  ctx.fillStyle = '#f0f0f0';
+  ctx.fillRect(0, 0, width, height);
+
+  // Render various elements
+  renderText(ctx);
+  renderShapes(ctx, width, height);
+  renderEmoji(ctx);
+};
+
+/**
+ * Render the test scene on a second canvas
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns PNG data URL or null if the canvas is unavailable
+ */
+const renderSceneCopy = (width: number, height: number): string | null => {
+  const canvas = createOffscreenCanvas(width, height);
+  const ctx = canvas?.getContext('2d');
+  if (!canvas || !ctx) return null;
+
+  renderScene(ctx, width, height);
+  return canvas.toDataURL('image/png');
+};
+
 /**
  * Check if canvas is blocked or returns noise
  * @param canvas - Canvas element
@@ -139,16 +172,17 @@ const isCanvasBlocked = (canvas: HTMLCanvasElement): boolean => {
 };
 
 /**
- * Generate canvas fingerprint
+ * Generate canvas fingerprint with the rendered image it was computed from
+ * The scene is rendered twice to detect per-read randomization (`randomized`)
  * @param options - Fingerprint options
- * @returns Promise resolving to fingerprint hash or null
+ * @returns Promise resolving to fingerprint hash and raw data, or null
  */
-export const getCanvasFingerprint = async (
+export const getCanvasFingerprintRaw = async (
   options?: CanvasFingerprintOptions
-): Promise<string | null> => {
+): Promise<RawFingerprint<CanvasRawValue> | null> => {
   const timeout = options?.timeout ?? 1000;
 
-  const generateFingerprint = async (): Promise<string | null> => {
+  const generateFingerprint = async (): Promise<RawFingerprint<CanvasRawValue> | null> => {
     if (!isBrowser()) return null;
 
     try {
@@ -166,20 +200,19 @@ export const getCanvasFingerprint = async (
         return null;
       }
 
-      // Clear and set background
-      ctx.fillStyle = '#f0f0f0';
-      ctx.fillRect(0, 0, width, height);
-
-      // Render various elements
-      renderText(ctx);
-      renderShapes(ctx, width, height);
-      renderEmoji(ctx);
+      renderScene(ctx, width, height);
 
       // Extract data
       const dataUrl = canvas.toDataURL('image/png');
 
+      // Noise such as Brave farbling or Firefox resistFingerprinting changes every read,
+      // so read the canvas twice and compare it with the same scene on another canvas
+      const copy = renderSceneCopy(width, height);
+      const randomized =
+        canvas.toDataURL('image/png') !== dataUrl || (copy !== null && copy !== dataUrl);
+
       // Hash the data URL
-      return hashMD5(dataUrl);
+      return { hash: hashMD5(dataUrl), raw: { width, height, dataUrl }, randomized };
     } catch {
       return null;
     }
@@ -188,6 +221,18 @@ export const getCanvasFingerprint = async (
   return withTimeout(generateFingerprint(), timeout, null);
 };
 
+/**
+ * Generate canvas fingerprint
+ * @param options - Fingerprint options
+ * @returns Promise resolving to fingerprint hash or null
+ */
+export const getCanvasFingerprint = async (
+  options?: CanvasFingerprintOptions
+): Promise<string | null> => {
+  const result = await getCanvasFingerprintRaw(options);
+  return result?.hash ?? null;
+};
+
 /**
  * Check if Canvas 2D is supported
  * @returns Whether Canvas 2D is available
@@ -0,0 +1,143 @@
+/**
+ * Consistency Checks Module
+ * Cross-checks the parsed user agent against live runtime signals to detect spoofed user agents
+ */
+
+import type { AgentInfo, ConsistencyResult, Inconsistency, InconsistencyName } from '../types';
+import { getNavigator, getWindow, isBrowser } from '../utils/environment';
+import { getWebGLRenderer } from './webgl';
+
+/**
+ * Weight of each mismatch in the lie score
+ */
+export const INCONSISTENCY_WEIGHTS: Readonly<Record<InconsistencyName, number>> = {
+  clientHintsPlatform: 0.6,
+  gpuPlatform: 0.5,
+  browserEngine: 0.5,
+  touchSupport: 0.4,
+  navigatorPlatform: 0.4,
+} as const;
+
+/**
+ * Operating system family, using Client Hints platform names
+ */
+type PlatformFamily = 'Windows' | 'macOS' | 'iOS' | 'Android' | 'Chrome OS' | 'Linux';
+
+/**
+ * Get the operating system family claimed by a user agent string
+ * iOS and Android are checked first because their user agents mention macOS and Linux
+ */
+const getUAPlatform = (source: string): PlatformFamily | null => {
+  if (/windows (?:nt|phone)/i.test(source)) return 'Windows';
+  if (/android/i.test(source)) return 'Android';
+  if (/iphone|ipad|ipod/i.test(source)) return 'iOS';
+  if (/mac os x|macintosh/i.test(source)) return 'macOS';
+  if (/cros/i.test(source)) return 'Chrome OS';
+  if (/linux|x11/i.test(source)) return 'Linux';
+  return null;
+};
+
+/**
+ * Get the operating system family reported by Client Hints (Sec-CH-UA-Platform)
+ */
+const getHintsPlatform = (platform: string): PlatformFamily | null => {
+  switch (platform) {
+    case 'Windows':
+    case 'macOS':
+    case 'iOS':
+    case 'Android':
+    case 'Linux':
+      return platform;
+    case 'Chrome OS':
+    case 'Chromium OS':
+      return 'Chrome OS';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Check whether a Client Hints platform is compatible with the user agent platform
+ * Chrome on Android sends a Linux user agent in "request desktop site" mode but keeps
+ * reporting Android in Client Hints
+ */
+const isHintsPlatformCompatible = (claimed: PlatformFamily, hinted: PlatformFamily): boolean =>
+  claimed === hinted || (claimed === 'Linux' && hinted === 'Android');
+
+/**
+ * Get the operating system families compatible with navigator.platform
+ * Android and Chrome OS report Linux platforms
+ */
+const getNavigatorPlatforms = (platform: string): PlatformFamily[] | null => {
+  if (/^win/i.test(platform)) return ['Windows'];
+  if (/^mac/i.test(platform)) return ['macOS', 'iOS'];
+  if (/^ip(?:hone|ad|od)/i.test(platform)) return ['iOS'];
+  if (/linux|x11|cros|android/i.test(platform)) return ['Linux', 'Android', 'Chrome OS'];
+  return null;
+};
+
+/**
+ * Get the operating system families compatible with a WebGL renderer
+ * Direct3D only exists on Windows and Metal/Apple GPUs only on Apple platforms
+ */
+const getRendererPlatforms = (renderer: string): PlatformFamily[] | null => {
+  if (/direct3d|d3d(?:9|11|12)/i.test(renderer)) return ['Windows'];
+  if (/metal|apple (?:m\d|gpu)/i.test(renderer)) return ['macOS', 'iOS'];
+  return null;
+};
+
+/**
+ * Cross-check a parsed user agent against live runtime signals
+ * Browser signals (WebGL renderer, touch points, window.chrome, navigator.platform) are only
+ * checked in the browser; the Client Hints check also works server-side with fromHeaders()
+ * @param agent - Parsed agent info (use parseAsync() to include Client Hints)
+ * @returns Detected mismatches and the resulting lie score
+ * @example
+ * const { inconsistencies, lieScore } = detectInconsistencies(await device.parseAsync());
+ */
+export const detectInconsistencies = (agent: AgentInfo): ConsistencyResult => {
+  const inconsistencies: Inconsistency[] = [];
+  const claimed = getUAPlatform(agent.source);
+
+  const report = (name: InconsistencyName, expected: string, actual: string): void => {
+    inconsistencies.push({ name, expected, actual });
+  };
+
+  // Client Hints platform vs user agent platform
+  const hinted = getHintsPlatform(agent.clientHints?.platform ?? '');
+  if (claimed && hinted && !isHintsPlatformCompatible(claimed, hinted)) {
+    report('clientHintsPlatform', claimed, hinted);
+  }
+
+  const win = getWindow();
+  const nav = getNavigator();
+
+  if (isBrowser() && win && nav) {
+    // navigator.platform is rarely patched by user agent switchers
+    const platforms = getNavigatorPlatforms(nav.platform ?? '');
+    if (claimed && platforms && !platforms.includes(claimed)) {
+      report('navigatorPlatform', claimed, nav.platform);
+    }
+
+    // Phones and tablets always report touch points
+    if ((claimed === 'iOS' || claimed === 'Android') && nav.maxTouchPoints === 0) {
+      report('touchSupport', 'touch', 'maxTouchPoints 0');
+    }
+
+    // window.chrome is only exposed by Chromium-based browsers
+    const hasChromeObject = !!(win as Window & { chrome?: unknown }).chrome;
+    if ((agent.browser === 'Firefox' || agent.browser === 'Safari') && hasChromeObject) {
+      report('browserEngine', agent.browser, 'window.chrome');
+    }
+
+    const gpu = getWebGLRenderer();
+    const gpuPlatforms = gpu ? getRendererPlatforms(gpu.renderer) : null;
+    if (gpu && claimed && gpuPlatforms && !gpuPlatforms.includes(claimed)) {
+      report('gpuPlatform', claimed, gpu.renderer);
+    }
+  }
+
+  const total = inconsistencies.reduce((sum, { name }) => sum + INCONSISTENCY_WEIGHTS[name], 0);
+
+  return { inconsistencies, lieScore: Math.min(1, Math.round(total * 100) / 100) };
+};
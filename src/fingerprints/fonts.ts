@@ -3,6 +3,7 @@
  * Generates unique fingerprint based on installed fonts
  */
 
+import type { FontsRawValue, RawFingerprint } from '../types';
 import { hashMD5 } from '../utils/md5';
 import { isBrowser } from '../utils/environment';
 import { withTimeout } from '../utils/fingerprint';
@@ -243,17 +244,17 @@ const detectFontsCanvas = (fonts: readonly string[]): string[] => {
 };
 
 /**
- * Generate font fingerprint
+ * Generate font fingerprint with the detected font list it was computed from
  * @param options - Fingerprint options
- * @returns Promise resolving to fingerprint hash or null
+ * @returns Promise resolving to fingerprint hash and raw data, or null
  */
-export const getFontFingerprint = async (
+export const getFontFingerprintRaw = async (
   options?: FontFingerprintOptions
-): Promise<string | null> => {
+): Promise<RawFingerprint<FontsRawValue> | null> => {
   const timeout = options?.timeout ?? 2000;
   const fonts = options?.fonts ?? DEFAULT_FONTS;
 
-  const generateFingerprint = async (): Promise<string | null> => {
+  const generateFingerprint = async (): Promise<RawFingerprint<FontsRawValue> | null> => {
     if (!isBrowser()) return null;
 
     try {
@@ -270,7 +271,7 @@ export const getFontFingerprint = async (
       // Sort for consistency
       detected.sort();
 
-      return hashMD5(detected.join(','));
+      return { hash: hashMD5(detected.join(',')), raw: { fonts: detected } };
     } catch {
       return null;
     }
@@ -279,6 +280,18 @@ export const getFontFingerprint = async (
   return withTimeout(generateFingerprint(), timeout, null);
 };
 
+/**
+ * Generate font fingerprint
+ * @param options - Fingerprint options
+ * @returns Promise resolving to fingerprint hash or null
+ */
+export const getFontFingerprint = async (
+  options?: FontFingerprintOptions
+): Promise<string | null> => {
+  const result = await getFontFingerprintRaw(options);
+  return result?.hash ?? null;
+};
+
 /**
  * Get list of detected fonts (for debugging/info)
  * @param fonts - List of fonts to check
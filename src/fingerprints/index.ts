@@ -3,14 +3,34 @@
  * Exports all fingerprinting methods
  */
 
-export { getCanvasFingerprint, isCanvasSupported } from './canvas';
-export { getWebGLFingerprint, isWebGLSupported, isDebugInfoSupported } from './webgl';
-export { getAudioFingerprint, isAudioSupported, isOfflineAudioSupported } from './audio';
+export { getCanvasFingerprint, getCanvasFingerprintRaw, isCanvasSupported } from './canvas';
+export {
+  getWebGLFingerprint,
+  getWebGLFingerprintRaw,
+  getWebGLRenderer,
+  isWebGLSupported,
+  isDebugInfoSupported,
+} from './webgl';
+export { getWebGPUFingerprint, getWebGPUFingerprintRaw, isWebGPUSupported } from './webgpu';
+export {
+  getAudioFingerprint,
+  getAudioFingerprintRaw,
+  isAudioSupported,
+  isOfflineAudioSupported,
+} from './audio';
 export {
   getFontFingerprint,
+  getFontFingerprintRaw,
   getFontFingerprintAsync,
   getDetectedFonts,
   getDetectedFontsAsync,
   getDefaultFontList,
   isFontDetectionSupported,
 } from './fonts';
+export { getVoicesFingerprint, getVoicesFingerprintRaw, isVoicesSupported } from './voices';
+export {
+  AUTOMATION_SIGNAL_WEIGHTS,
+  detectAutomation,
+  isAutomationDetectionSupported,
+} from './automation';
+export { INCONSISTENCY_WEIGHTS, detectInconsistencies } from './consistency';
@@ -0,0 +1,115 @@
+/**
+ * Speech Synthesis Voices Fingerprinting Module
+ * Generates unique fingerprint based on the installed text-to-speech voices
+ */
+
+import type { RawFingerprint, SpeechVoice, VoicesRawValue } from '../types';
+import { hashMD5 } from '../utils/md5';
+import { isBrowser, getWindow } from '../utils/environment';
+import { withTimeout } from '../utils/fingerprint';
+
+/**
+ * Voices fingerprint options
+ */
+interface VoicesFingerprintOptions {
+  /** Timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Get the speech synthesis controller
+ * @returns window.speechSynthesis or null
+ */
+const getSpeechSynthesis = (): SpeechSynthesis | null => {
+  const win = getWindow() as (Window & { speechSynthesis?: SpeechSynthesis }) | undefined;
+  return win?.speechSynthesis ?? null;
+};
+
+/**
+ * Get the voice list, waiting for `voiceschanged` while the browser loads it
+ * Chrome and Edge return an empty list until voices are loaded asynchronously
+ * @param synth - Speech synthesis controller
+ * @param timeout - Maximum time to wait in milliseconds
+ * @returns Voices, or an empty list if none were loaded in time
+ */
+const loadVoices = (synth: SpeechSynthesis, timeout: number): Promise<SpeechSynthesisVoice[]> => {
+  const voices = synth.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise((resolve) => {
+    const done = (): void => {
+      clearTimeout(timer);
+      synth.removeEventListener('voiceschanged', done);
+      resolve(synth.getVoices());
+    };
+    const timer = setTimeout(done, timeout);
+    synth.addEventListener('voiceschanged', done);
+  });
+};
+
+/**
+ * Serialize raw voice data into the hashed fingerprint string
+ * @param raw - Raw voice data
+ * @returns Fingerprint source string
+ */
+const serializeVoices = (raw: VoicesRawValue): string =>
+  raw.voices
+    .map(({ name, lang, localService }) => `${name}:${lang}:${localService ? 1 : 0}`)
+    .join('|');
+
+/**
+ * Generate speech synthesis voices fingerprint with the voice list it was computed from
+ * @param options - Fingerprint options
+ * @returns Promise resolving to fingerprint hash and raw data, or null
+ */
+export const getVoicesFingerprintRaw = async (
+  options?: VoicesFingerprintOptions
+): Promise<RawFingerprint<VoicesRawValue> | null> => {
+  const timeout = options?.timeout ?? 1000;
+
+  const generateFingerprint = async (): Promise<RawFingerprint<VoicesRawValue> | null> => {
+    const synth = getSpeechSynthesis();
+    if (!isBrowser() || !synth) return null;
+
+    try {
+      const voices = await loadVoices(synth, timeout);
+      if (voices.length === 0) return null;
+
+      // Sort for a stable order across page loads
+      const raw: VoicesRawValue = {
+        voices: voices
+          .map(({ name, lang, localService }): SpeechVoice => ({ name, lang, localService }))
+          .sort((a, b) => a.name.localeCompare(b.name) || a.lang.localeCompare(b.lang)),
+      };
+
+      return { hash: hashMD5(serializeVoices(raw)), raw };
+    } catch {
+      return null;
+    }
+  };
+
+  return withTimeout(generateFingerprint(), timeout, null);
+};
+
+/**
+ * Generate speech synthesis voices fingerprint
+ * @param options - Fingerprint options
+ * @returns Promise resolving to fingerprint hash or null
+ */
+export const getVoicesFingerprint = async (
+  options?: VoicesFingerprintOptions
+): Promise<string | null> => {
+  const result = await getVoicesFingerprintRaw(options);
+  return result?.hash ?? null;
+};
+
+/**
+ * Check if speech synthesis voices are available
+ * @returns Whether speechSynthesis.getVoices() is available
+ */
+export const isVoicesSupported = (): boolean => {
+  if (!isBrowser()) return false;
+
+  const synth = getSpeechSynthesis();
+  return !!synth && typeof synth.getVoices === 'function';
+};
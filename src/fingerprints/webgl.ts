@@ -3,6 +3,14 @@
  * Generates unique fingerprint based on WebGL parameters and GPU info
  */
 
+import type {
+  RawFingerprint,
+  ShaderPrecision,
+  ShaderPrecisionType,
+  WebGLFingerprintConfig,
+  WebGLRawValue,
+  WebGLShaderPrecision,
+} from '../types';
 import { hashMD5 } from '../utils/md5';
 import { isBrowser } from '../utils/environment';
 import { withTimeout } from '../utils/fingerprint';
@@ -10,7 +18,7 @@ import { withTimeout } from '../utils/fingerprint';
 /**
  * WebGL fingerprint options
  */
-interface WebGLFingerprintOptions {
+interface WebGLFingerprintOptions extends WebGLFingerprintConfig {
   /** Timeout in milliseconds */
   timeout?: number;
 }
@@ -44,6 +52,62 @@ const WEBGL_PARAMS = [
  */
 const WEBGL_RANGE_PARAMS = ['ALIASED_LINE_WIDTH_RANGE', 'ALIASED_POINT_SIZE_RANGE'] as const;
 
+/**
+ * Shader precision types reported by getShaderPrecisionFormat
+ */
+const PRECISION_TYPES: readonly ShaderPrecisionType[] = [
+  'LOW_FLOAT',
+  'MEDIUM_FLOAT',
+  'HIGH_FLOAT',
+  'LOW_INT',
+  'MEDIUM_INT',
+  'HIGH_INT',
+] as const;
+
+/**
+ * Width and height of the rendered test scene in pixels
+ */
+const RENDER_SIZE = 64;
+
+/**
+ * Vertex shader passing through positions and per-vertex colors
+ */
+const VERTEX_SHADER = `
+attribute vec2 position;
+attribute vec4 color;
+varying vec4 vColor;
+varying vec2 vPosition;
+void main() {
+  vColor = color;
+  vPosition = position;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+/**
+ * Fragment shader with precision-sensitive trigonometry and hashing noise
+ */
+const FRAGMENT_SHADER = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+varying vec4 vColor;
+varying vec2 vPosition;
+void main() {
+  float wave = sin(vPosition.x * 37.3 + 1.7) * cos(vPosition.y * 53.1);
+  float grain = fract(sin(dot(vPosition, vec2(12.9898, 78.233))) * 43758.5453);
+  gl_FragColor = vec4(vColor.rgb * (0.75 + 0.25 * wave) + grain * 0.05, vColor.a);
+}`;
+
+/**
+ * Two overlapping gradient triangles (x, y, r, g, b, a per vertex)
+ */
+const SCENE_VERTICES = [
+  -0.9, -0.9, 1.0, 0.2, 0.1, 1.0, 0.9, -0.7, 0.1, 1.0, 0.3, 1.0, -0.2, 0.9, 0.2, 0.3, 1.0, 1.0,
+  -0.8, 0.6, 0.9, 0.9, 0.1, 0.6, 0.8, 0.8, 0.8, 0.1, 0.9, 0.4, 0.3, -0.9, 0.1, 0.9, 0.9, 0.7,
+];
+
 /**
  * Create WebGL context with fallbacks
  * @param canvas - Canvas element
@@ -113,18 +177,19 @@ const getGPUInfo = (
 /**
  * Collect WebGL parameters
  * @param gl - WebGL context
- * @returns Array of parameter values
+ * @returns Parameter values by name
  */
-const collectParameters = (gl: WebGLRenderingContext | WebGL2RenderingContext): string[] => {
-  const params: string[] = [];
+const collectParameters = (
+  gl: WebGLRenderingContext | WebGL2RenderingContext
+): Record<string, string> => {
+  const params: Record<string, string> = {};
 
   // Collect scalar parameters
   for (const param of WEBGL_PARAMS) {
     try {
       const glParam = gl[param as keyof WebGLRenderingContext] as number | undefined;
       if (glParam !== undefined) {
-        const value = gl.getParameter(glParam);
-        params.push(`${param}:${value}`);
+        params[param] = `${gl.getParameter(glParam)}`;
       }
     } catch {
       // Parameter not available
@@ -138,7 +203,7 @@ const collectParameters = (gl: WebGLRenderingContext | WebGL2RenderingContext):
       if (glParam !== undefined) {
         const range = gl.getParameter(glParam) as Float32Array | null;
         if (range) {
-          params.push(`${param}:${range[0]}-${range[1]}`);
+          params[param] = `${range[0]}-${range[1]}`;
         }
       }
     } catch {
@@ -166,10 +231,10 @@ const getExtensions = (gl: WebGLRenderingContext | WebGL2RenderingContext): stri
 /**
  * Get WebGL2 specific parameters
  * @param gl - WebGL2 context
- * @returns Array of WebGL2-specific parameter values
+ * @returns WebGL2-specific parameter values by name
  */
-const collectWebGL2Parameters = (gl: WebGL2RenderingContext): string[] => {
-  const params: string[] = [];
+const collectWebGL2Parameters = (gl: WebGL2RenderingContext): Record<string, string> => {
+  const params: Record<string, string> = {};
 
   const webgl2Params = [
     'MAX_3D_TEXTURE_SIZE',
@@ -183,8 +248,7 @@ const collectWebGL2Parameters = (gl: WebGL2RenderingContext): string[] => {
     try {
       const glParam = gl[param as keyof WebGL2RenderingContext] as number | undefined;
       if (glParam !== undefined) {
-        const value = gl.getParameter(glParam);
-        params.push(`${param}:${value}`);
+        params[param] = `${gl.getParameter(glParam)}`;
       }
     } catch {
       // Parameter not available
@@ -195,52 +259,172 @@ const collectWebGL2Parameters = (gl: WebGL2RenderingContext): string[] => {
 };
 
 /**
- * Generate WebGL fingerprint
+ * Get shader precision formats of the vertex and fragment shaders
+ * @param gl - WebGL context
+ * @returns Precision formats by shader and precision type
+ */
+const getShaderPrecision = (
+  gl: WebGLRenderingContext | WebGL2RenderingContext
+): WebGLShaderPrecision => {
+  const collect = (shaderType: number): Partial<Record<ShaderPrecisionType, ShaderPrecision>> => {
+    const formats: Partial<Record<ShaderPrecisionType, ShaderPrecision>> = {};
+    for (const type of PRECISION_TYPES) {
+      try {
+        const format = gl.getShaderPrecisionFormat(shaderType, gl[type]);
+        if (format) {
+          const { rangeMin, rangeMax, precision } = format;
+          formats[type] = { rangeMin, rangeMax, precision };
+        }
+      } catch {
+        // Precision format not available
+      }
+    }
+    return formats;
+  };
+
+  return { vertex: collect(gl.VERTEX_SHADER), fragment: collect(gl.FRAGMENT_SHADER) };
+};
+
+/**
+ * Compile a shader
+ * @param gl - WebGL context
+ * @param type - Shader type (VERTEX_SHADER or FRAGMENT_SHADER)
+ * @param source - GLSL source
+ * @returns Compiled shader or null if compilation failed
+ */
+const compileShader = (
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  type: number,
+  source: string
+): WebGLShader | null => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  return gl.getShaderParameter(shader, gl.COMPILE_STATUS) ? shader : null;
+};
+
+/**
+ * Draw the blended gradient test scene and hash the pixels
+ * @param gl - WebGL context of a RENDER_SIZE x RENDER_SIZE canvas
+ * @returns MD5 of the rendered pixels or null if drawing failed
+ */
+const renderScene = (gl: WebGLRenderingContext | WebGL2RenderingContext): string | null => {
+  try {
+    const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    const program = gl.createProgram();
+    if (!vertexShader || !fragmentShader || !program) return null;
+
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) return null;
+    gl.useProgram(program);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(SCENE_VERTICES), gl.STATIC_DRAW);
+
+    // 6 floats per vertex: position (2) and color (4)
+    const stride = 6 * Float32Array.BYTES_PER_ELEMENT;
+    const position = gl.getAttribLocation(program, 'position');
+    const color = gl.getAttribLocation(program, 'color');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, stride, 0);
+    gl.enableVertexAttribArray(color);
+    gl.vertexAttribPointer(color, 4, gl.FLOAT, false, stride, 2 * Float32Array.BYTES_PER_ELEMENT);
+
+    gl.viewport(0, 0, RENDER_SIZE, RENDER_SIZE);
+    gl.clearColor(0.1, 0.15, 0.2, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    gl.drawArrays(gl.TRIANGLES, 0, SCENE_VERTICES.length / 6);
+
+    const pixels = new Uint8Array(RENDER_SIZE * RENDER_SIZE * 4);
+    gl.readPixels(0, 0, RENDER_SIZE, RENDER_SIZE, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+    return hashMD5(Array.prototype.join.call(pixels, ','));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Serialize raw WebGL data into the hashed fingerprint string
+ * @param raw - Raw WebGL data
+ * @returns Fingerprint source string
+ */
+const serializeWebGL = (raw: WebGLRawValue): string => {
+  const parts: string[] = [];
+
+  if (raw.vendor !== null && raw.renderer !== null) {
+    parts.push(`vendor:${raw.vendor}`);
+    parts.push(`renderer:${raw.renderer}`);
+  }
+  for (const [name, value] of Object.entries(raw.parameters)) {
+    parts.push(`${name}:${value}`);
+  }
+  parts.push(`webgl2:${raw.webgl2}`);
+
+  // Extensions are shortened to avoid excessive data
+  parts.push(`extensions:${raw.extensions.length}`);
+  parts.push(`ext_hash:${hashMD5(raw.extensions.join(','))}`);
+
+  // Rendering mode
+  if (raw.shaderPrecision) {
+    for (const [shader, formats] of Object.entries(raw.shaderPrecision)) {
+      for (const [type, format] of Object.entries(formats) as [string, ShaderPrecision][]) {
+        parts.push(`${shader}_${type}:${format.rangeMin},${format.rangeMax},${format.precision}`);
+      }
+    }
+  }
+  if (raw.renderHash !== undefined) {
+    parts.push(`render:${raw.renderHash ?? 'unavailable'}`);
+  }
+
+  return parts.join('|');
+};
+
+/**
+ * Generate WebGL fingerprint with the GPU data it was computed from
+ * With `rendering` the fingerprint also covers a drawn test scene and shader precision formats
  * @param options - Fingerprint options
- * @returns Promise resolving to fingerprint hash or null
+ * @returns Promise resolving to fingerprint hash and raw data, or null
  */
-export const getWebGLFingerprint = async (
+export const getWebGLFingerprintRaw = async (
   options?: WebGLFingerprintOptions
-): Promise<string | null> => {
+): Promise<RawFingerprint<WebGLRawValue> | null> => {
   const timeout = options?.timeout ?? 1000;
 
-  const generateFingerprint = async (): Promise<string | null> => {
+  const generateFingerprint = async (): Promise<RawFingerprint<WebGLRawValue> | null> => {
     if (!isBrowser()) return null;
 
     try {
       const canvas = document.createElement('canvas');
-      canvas.width = 1;
-      canvas.height = 1;
+      canvas.width = options?.rendering ? RENDER_SIZE : 1;
+      canvas.height = options?.rendering ? RENDER_SIZE : 1;
 
       const gl = createWebGLContext(canvas);
       if (!gl) return null;
 
-      const parts: string[] = [];
-
-      // Get GPU info
       const gpuInfo = getGPUInfo(gl);
-      if (gpuInfo) {
-        parts.push(`vendor:${gpuInfo.vendor}`);
-        parts.push(`renderer:${gpuInfo.renderer}`);
-      }
-
-      // Collect parameters
-      const params = collectParameters(gl);
-      parts.push(...params);
-
-      // Collect WebGL2-specific parameters if available
-      if ('MAX_3D_TEXTURE_SIZE' in gl) {
-        const webgl2Params = collectWebGL2Parameters(gl as WebGL2RenderingContext);
-        parts.push(...webgl2Params);
-        parts.push('webgl2:true');
-      } else {
-        parts.push('webgl2:false');
-      }
-
-      // Get extensions (shortened to avoid excessive data)
-      const extensions = getExtensions(gl);
-      parts.push(`extensions:${extensions.length}`);
-      parts.push(`ext_hash:${hashMD5(extensions.join(','))}`);
+      const webgl2 = 'MAX_3D_TEXTURE_SIZE' in gl;
+      const raw: WebGLRawValue = {
+        vendor: gpuInfo?.vendor ?? null,
+        renderer: gpuInfo?.renderer ?? null,
+        webgl2,
+        parameters: {
+          ...collectParameters(gl),
+          // Collect WebGL2-specific parameters if available
+          ...(webgl2 && collectWebGL2Parameters(gl as WebGL2RenderingContext)),
+        },
+        extensions: getExtensions(gl),
+        ...(options?.rendering && {
+          shaderPrecision: getShaderPrecision(gl),
+          renderHash: renderScene(gl),
+        }),
+      };
 
       // Clean up
       const loseContext = gl.getExtension('WEBGL_lose_context');
@@ -249,7 +433,7 @@ export const getWebGLFingerprint = async (
       }
 
       // Return hash of all collected data
-      return hashMD5(parts.join('|'));
+      return { hash: hashMD5(serializeWebGL(raw)), raw };
     } catch {
       return null;
     }
@@ -258,6 +442,38 @@ export const getWebGLFingerprint = async (
   return withTimeout(generateFingerprint(), timeout, null);
 };
 
+/**
+ * Generate WebGL fingerprint
+ * @param options - Fingerprint options
+ * @returns Promise resolving to fingerprint hash or null
+ */
+export const getWebGLFingerprint = async (
+  options?: WebGLFingerprintOptions
+): Promise<string | null> => {
+  const result = await getWebGLFingerprintRaw(options);
+  return result?.hash ?? null;
+};
+
+/**
+ * Get the unmasked GPU vendor and renderer
+ * @returns Object with vendor and renderer, or null if WebGL or the debug extension is unavailable
+ */
+export const getWebGLRenderer = (): { vendor: string; renderer: string } | null => {
+  if (!isBrowser()) return null;
+
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = createWebGLContext(canvas);
+    if (!gl) return null;
+
+    const gpuInfo = getGPUInfo(gl);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return gpuInfo;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Check if WebGL is supported
  * @returns Whether WebGL is available
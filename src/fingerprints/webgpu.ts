@@ -0,0 +1,213 @@
+/**
+ * WebGPU Fingerprinting Module
+ * Generates unique fingerprint based on WebGPU adapter info, features and limits
+ */
+
+import type { RawFingerprint, WebGPURawValue } from '../types';
+import { hashMD5 } from '../utils/md5';
+import { isBrowser, getNavigator } from '../utils/environment';
+import { withTimeout } from '../utils/fingerprint';
+
+/**
+ * WebGPU fingerprint options
+ */
+interface WebGPUFingerprintOptions {
+  /** Timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * WebGPU adapter info (GPUAdapterInfo)
+ */
+interface GPUAdapterInfo {
+  vendor?: string;
+  architecture?: string;
+  device?: string;
+  description?: string;
+  isFallbackAdapter?: boolean;
+}
+
+/**
+ * WebGPU adapter (GPUAdapter) - not part of the TypeScript DOM library yet
+ */
+interface GPUAdapter {
+  features: Iterable<string>;
+  limits: Record<string, number>;
+  /** Adapter info (Chrome 127+, Firefox 141+, Safari 26+) */
+  info?: GPUAdapterInfo;
+  /** Deprecated adapter info accessor of earlier implementations */
+  requestAdapterInfo?: () => Promise<GPUAdapterInfo>;
+  /** Deprecated, moved to GPUAdapterInfo */
+  isFallbackAdapter?: boolean;
+}
+
+/**
+ * Navigator with the WebGPU entry point
+ */
+interface WebGPUNavigator extends Navigator {
+  gpu?: {
+    requestAdapter: (options?: { powerPreference?: string }) => Promise<GPUAdapter | null>;
+  };
+}
+
+/**
+ * Adapter limits to collect for fingerprinting
+ * GPUSupportedLimits exposes limits as prototype getters, so they are read by name
+ */
+const WEBGPU_LIMITS = [
+  'maxTextureDimension1D',
+  'maxTextureDimension2D',
+  'maxTextureDimension3D',
+  'maxTextureArrayLayers',
+  'maxBindGroups',
+  'maxBindingsPerBindGroup',
+  'maxDynamicUniformBuffersPerPipelineLayout',
+  'maxDynamicStorageBuffersPerPipelineLayout',
+  'maxSampledTexturesPerShaderStage',
+  'maxSamplersPerShaderStage',
+  'maxStorageBuffersPerShaderStage',
+  'maxStorageTexturesPerShaderStage',
+  'maxUniformBuffersPerShaderStage',
+  'maxUniformBufferBindingSize',
+  'maxStorageBufferBindingSize',
+  'minUniformBufferOffsetAlignment',
+  'minStorageBufferOffsetAlignment',
+  'maxVertexBuffers',
+  'maxBufferSize',
+  'maxVertexAttributes',
+  'maxVertexBufferArrayStride',
+  'maxInterStageShaderVariables',
+  'maxColorAttachments',
+  'maxColorAttachmentBytesPerSample',
+  'maxComputeWorkgroupStorageSize',
+  'maxComputeInvocationsPerWorkgroup',
+  'maxComputeWorkgroupSizeX',
+  'maxComputeWorkgroupSizeY',
+  'maxComputeWorkgroupSizeZ',
+  'maxComputeWorkgroupsPerDimension',
+] as const;
+
+/**
+ * Get the WebGPU entry point
+ * @returns navigator.gpu or undefined
+ */
+const getGPU = (): WebGPUNavigator['gpu'] => (getNavigator() as WebGPUNavigator | undefined)?.gpu;
+
+/**
+ * Get adapter info from the info attribute or the deprecated requestAdapterInfo()
+ * @param adapter - WebGPU adapter
+ * @returns Adapter info (empty if unavailable)
+ */
+const getAdapterInfo = async (adapter: GPUAdapter): Promise<GPUAdapterInfo> => {
+  if (adapter.info) return adapter.info;
+
+  try {
+    return (await adapter.requestAdapterInfo?.()) ?? {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Collect adapter limits
+ * @param adapter - WebGPU adapter
+ * @returns Limit values by name
+ */
+const collectLimits = (adapter: GPUAdapter): Record<string, number> => {
+  const limits: Record<string, number> = {};
+
+  for (const name of WEBGPU_LIMITS) {
+    const value = adapter.limits[name];
+    if (typeof value === 'number') {
+      limits[name] = value;
+    }
+  }
+
+  return limits;
+};
+
+/**
+ * Serialize raw WebGPU data into the hashed fingerprint string
+ * @param raw - Raw WebGPU data
+ * @returns Fingerprint source string
+ */
+const serializeWebGPU = (raw: WebGPURawValue): string => {
+  const parts = [
+    `vendor:${raw.vendor}`,
+    `architecture:${raw.architecture}`,
+    `device:${raw.device}`,
+    `description:${raw.description}`,
+    `fallback:${raw.isFallbackAdapter}`,
+  ];
+  for (const [name, value] of Object.entries(raw.limits)) {
+    parts.push(`${name}:${value}`);
+  }
+
+  // Features are shortened like WebGL extensions
+  parts.push(`features:${raw.features.length}`);
+  parts.push(`feature_hash:${hashMD5(raw.features.join(','))}`);
+
+  return parts.join('|');
+};
+
+/**
+ * Generate WebGPU fingerprint with the adapter data it was computed from
+ * @param options - Fingerprint options
+ * @returns Promise resolving to fingerprint hash and raw data, or null
+ */
+export const getWebGPUFingerprintRaw = async (
+  options?: WebGPUFingerprintOptions
+): Promise<RawFingerprint<WebGPURawValue> | null> => {
+  const timeout = options?.timeout ?? 1000;
+
+  const generateFingerprint = async (): Promise<RawFingerprint<WebGPURawValue> | null> => {
+    const gpu = getGPU();
+    if (!isBrowser() || !gpu) return null;
+
+    try {
+      const adapter = await gpu.requestAdapter();
+      if (!adapter) return null;
+
+      const info = await getAdapterInfo(adapter);
+      const raw: WebGPURawValue = {
+        vendor: info.vendor ?? '',
+        architecture: info.architecture ?? '',
+        device: info.device ?? '',
+        description: info.description ?? '',
+        isFallbackAdapter: info.isFallbackAdapter ?? adapter.isFallbackAdapter ?? false,
+        features: [...adapter.features].sort(),
+        limits: collectLimits(adapter),
+      };
+
+      return { hash: hashMD5(serializeWebGPU(raw)), raw };
+    } catch {
+      return null;
+    }
+  };
+
+  return withTimeout(generateFingerprint(), timeout, null);
+};
+
+/**
+ * Generate WebGPU fingerprint
+ * @param options - Fingerprint options
+ * @returns Promise resolving to fingerprint hash or null
+ */
+export const getWebGPUFingerprint = async (
+  options?: WebGPUFingerprintOptions
+): Promise<string | null> => {
+  const result = await getWebGPUFingerprintRaw(options);
+  return result?.hash ?? null;
+};
+
+/**
+ * Check if WebGPU is supported
+ * Only checks for the API; requestAdapter() may still resolve to null (e.g. blocklisted GPUs)
+ * @returns Whether navigator.gpu is available
+ */
+export const isWebGPUSupported = (): boolean => {
+  if (!isBrowser()) return false;
+
+  const gpu = getGPU();
+  return !!gpu && typeof gpu.requestAdapter === 'function';
+};
@@ -16,27 +16,167 @@ export type {
   FingerprintOptions,
   FingerprintDetails,
   FingerprintComponent,
+  FingerprintComponentName,
+  RawFingerprint,
+  CanvasRawValue,
+  WebGLRawValue,
+  WebGLFingerprintConfig,
+  WebGLShaderPrecision,
+  ShaderPrecision,
+  ShaderPrecisionType,
+  WebGPURawValue,
+  AudioRawValue,
+  OfflineAudioRawValue,
+  AudioContextRawValue,
+  FontsRawValue,
+  VoicesRawValue,
+  SpeechVoice,
+  MediaDevicesRawValue,
+  NetworkInfoRawValue,
+  TimezoneRawValue,
+  IncognitoRawValue,
+  FingerprintComparison,
+  FingerprintWeights,
+  HashAlgorithm,
+  UuidFormat,
+  UuidOptions,
+  IdentityStorageType,
+  IdentityStoreOptions,
+  IdentityResult,
+  StoredIdentity,
   FingerprintFeature,
   FingerprintPreset,
+  ClientHints,
+  ClientHintsBrand,
+  HeadersLike,
+  HeadersRecord,
+  RequestDevice,
+  DeviceMiddlewareOptions,
+  GeoIpInfo,
+  GeoResolver,
+  TimezoneMismatch,
+  BotCategory,
+  BotDefinition,
+  BotInfo,
+  DeviceType,
+  DeviceDefinition,
+  DeviceInfo,
+  DetectionRuleKind,
+  DetectionRule,
+  ParsedVersion,
+  VersionRequirements,
+  SupportPolicy,
+  SupportReason,
+  SupportResult,
+  AutomationSignal,
+  AutomationResult,
+  InconsistencyName,
+  Inconsistency,
+  ConsistencyResult,
+  EntropyPlatform,
+  ComponentEntropy,
+  EntropyTable,
+  EntropyTableOverrides,
 } from './types';
 
 // Export constants for advanced users
 export {
   BOTS,
+  BOT_DEFINITIONS,
+  DEVICE_DEFINITIONS,
   VERSION_PATTERNS,
   BROWSER_PATTERNS,
+  WEBVIEW_PATTERNS,
   OS_PATTERNS,
+  OS_VERSION_PATTERNS,
   PLATFORM_PATTERNS,
+  DETECTION_RULES,
   DEFAULT_OPTIONS,
+  CONFIG_OPTIONS,
 } from './constants';
 
 // Export hash utilities
 export { hashMD5, hashInt } from './utils/md5';
+export {
+  hashSHA256,
+  hashSHA256Sync,
+  hashMurmur3,
+  hashXX64,
+  hmacSHA256,
+  hmacSHA256Sync,
+  getDigest,
+  getDigestAsync,
+} from './utils/hash';
+
+// Export UUID formatting utilities
+export {
+  DEFAULT_NAMESPACE,
+  formatUuid,
+  uuidV5,
+  generateUuid,
+  generateUuidAsync,
+} from './utils/uuid';
+
+// Export Client Hints utilities
+export {
+  CLIENT_HINTS_HEADERS,
+  HIGH_ENTROPY_HINTS,
+  getHighEntropyValues,
+  parseClientHintsHeaders,
+  applyClientHints,
+  isClientHintsSupported,
+} from './utils/client-hints';
+
+// Export request header utilities
+export { getHeader, parseAcceptLanguage, getHeaderDeviceInfo } from './utils/headers';
+export type { HeaderDeviceInfo } from './utils/headers';
+
+// Export GeoIP utilities
+export { detectTimezoneMismatch, getTimezoneOffset } from './utils/geoip';
+
+// Export bot detection
+export { registerBots, resetBots, detectBot } from './utils/bots';
+export type { BotMatch } from './utils/bots';
+
+// Export device detection
+export { detectDevice } from './utils/devices';
+
+// Export version utilities
+export {
+  parseVersion,
+  getOSVersion,
+  compareVersions,
+  satisfiesVersion,
+  satisfies,
+} from './utils/version';
+
+// Export browser support policy
+export { createSupportChecker, checkSupport } from './utils/support';
+export type { SupportChecker } from './utils/support';
+
+// Export identity persistence
+export { createIdentityStore, DEFAULT_IDENTITY_STORAGES } from './utils/identity-store';
+export type { IdentityStore } from './utils/identity-store';
+
+// Export entropy estimates
+export {
+  DEFAULT_ENTROPY_TABLE,
+  resolveEntropyTable,
+  getEntropyPlatform,
+  getComponentEntropy,
+  estimateConfidence,
+} from './utils/entropy';
+
+// Export cache utility
+export { LRUCache } from './utils/lru-cache';
 
 // Export fingerprint utilities
 export {
   DEFAULT_FINGERPRINT_OPTIONS,
   FINGERPRINT_PRESETS,
+  STABLE_COMPONENTS,
+  COMPONENT_WEIGHTS,
+  compareFingerprints,
   mergeOptions,
   getPresetOptions,
   isFeatureSupported,
@@ -49,19 +189,35 @@ export {
 // Export individual fingerprint methods for advanced use
 export {
   getCanvasFingerprint,
+  getCanvasFingerprintRaw,
   isCanvasSupported,
   getWebGLFingerprint,
+  getWebGLFingerprintRaw,
   isWebGLSupported,
+  getWebGPUFingerprint,
+  getWebGPUFingerprintRaw,
+  isWebGPUSupported,
   getAudioFingerprint,
+  getAudioFingerprintRaw,
   isAudioSupported,
   getFontFingerprint,
+  getFontFingerprintRaw,
   getFontFingerprintAsync,
   getDetectedFonts,
   getDetectedFontsAsync,
   getDefaultFontList,
   isFontDetectionSupported,
+  getVoicesFingerprint,
+  getVoicesFingerprintRaw,
+  isVoicesSupported,
   isOfflineAudioSupported,
   isDebugInfoSupported,
+  getWebGLRenderer,
+  AUTOMATION_SIGNAL_WEIGHTS,
+  detectAutomation,
+  isAutomationDetectionSupported,
+  INCONSISTENCY_WEIGHTS,
+  detectInconsistencies,
 } from './fingerprints';
 
 // Default export for convenience
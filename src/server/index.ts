@@ -0,0 +1,26 @@
+/**
+ * Server entry point for device-uuid library (`device-uuid/server`)
+ * Middleware factories that attach parsed device information to requests
+ */
+
+export { createDeviceResolver, DEVICE_HEADERS } from './resolver';
+export type { DeviceResolver } from './resolver';
+export { createExpressMiddleware, createFastifyHook, createKoaMiddleware } from './middleware';
+export type { ExpressDeviceMiddleware, FastifyDeviceHook, KoaDeviceMiddleware } from './middleware';
+export { MMDBReader, openMMDB, createMMDBGeoResolver, parseIp } from './mmdb';
+export type { MMDBValue, MMDBMetadata, MMDBGeoResolverOptions } from './mmdb';
+
+export type {
+  GeoIpInfo,
+  GeoResolver,
+  DeviceMiddlewareOptions,
+  RequestDevice,
+  AgentInfo,
+  HeadersLike,
+  SupportPolicy,
+  SupportResult,
+} from '../types';
+export { DeviceUUID } from '../core/DeviceUUID';
+export { LRUCache } from '../utils/lru-cache';
+export { registerBots, resetBots } from '../utils/bots';
+export { createSupportChecker } from '../utils/support';
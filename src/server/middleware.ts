@@ -0,0 +1,118 @@
+/**
+ * Server middleware factories
+ * Attach parsed device information to Express, Fastify and Koa requests
+ */
+
+import type { DeviceMiddlewareOptions, HeadersRecord, RequestDevice } from '../types';
+import { createDeviceResolver } from './resolver';
+
+/**
+ * Minimal request shape shared by Node.js based frameworks
+ */
+interface DeviceRequest {
+  headers: HeadersRecord;
+  ip?: string;
+  socket?: { remoteAddress?: string };
+  device?: RequestDevice;
+}
+
+/**
+ * Get the client IP address of a request
+ * Prefers the framework-resolved `ip` (which honours proxy settings) over the socket address
+ * @param req - Incoming request
+ * @returns IP address or undefined
+ */
+const getClientIp = (req: DeviceRequest): string | undefined => {
+  return req.ip || req.socket?.remoteAddress || undefined;
+};
+
+/**
+ * Express/Connect middleware signature
+ */
+export type ExpressDeviceMiddleware = (
+  req: DeviceRequest,
+  res: unknown,
+  next: (error?: unknown) => void
+) => void;
+
+/**
+ * Fastify onRequest hook signature
+ */
+export type FastifyDeviceHook = (
+  request: DeviceRequest,
+  reply: unknown,
+  done: (error?: Error) => void
+) => void;
+
+/**
+ * Koa middleware signature
+ */
+export type KoaDeviceMiddleware = (
+  ctx: { req: DeviceRequest; state: Record<string, unknown>; ip?: string },
+  next: () => Promise<unknown>
+) => Promise<void>;
+
+/**
+ * Create an Express/Connect middleware that populates `req.device`
+ * @param options - Middleware options
+ * @returns Express middleware
+ * @example
+ * app.use(createExpressMiddleware());
+ * app.get('/', (req, res) => res.json(req.device));
+ */
+export const createExpressMiddleware = (
+  options?: DeviceMiddlewareOptions
+): ExpressDeviceMiddleware => {
+  const resolve = createDeviceResolver(options);
+
+  return (req, _res, next) => {
+    try {
+      req.device = resolve(req.headers, getClientIp(req));
+    } catch (error) {
+      next(error);
+      return;
+    }
+    next();
+  };
+};
+
+/**
+ * Create a Fastify onRequest hook that populates `request.device`
+ * @param options - Middleware options
+ * @returns Fastify hook
+ * @example
+ * fastify.decorateRequest('device', null);
+ * fastify.addHook('onRequest', createFastifyHook());
+ */
+export const createFastifyHook = (options?: DeviceMiddlewareOptions): FastifyDeviceHook => {
+  const resolve = createDeviceResolver(options);
+
+  return (request, _reply, done) => {
+    try {
+      request.device = resolve(request.headers, getClientIp(request));
+    } catch (error) {
+      done(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    done();
+  };
+};
+
+/**
+ * Create a Koa middleware that populates `ctx.req.device` and `ctx.state.device`
+ * @param options - Middleware options
+ * @returns Koa middleware
+ * @example
+ * app.use(createKoaMiddleware());
+ * app.use((ctx) => { ctx.body = ctx.state.device; });
+ */
+export const createKoaMiddleware = (options?: DeviceMiddlewareOptions): KoaDeviceMiddleware => {
+  const resolve = createDeviceResolver(options);
+
+  return async (ctx, next) => {
+    const device = resolve(ctx.req.headers, ctx.ip || getClientIp(ctx.req));
+    ctx.req.device = device;
+    ctx.state.device = device;
+    await next();
+  };
+};
@@ -0,0 +1,450 @@
+/**
+ * MaxMind DB (MMDB) Reader
+ * Pure TypeScript reader for MaxMind DB format files such as GeoLite2-City and GeoLite2-ASN
+ * @see https://maxmind.github.io/MaxMind-DB/
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { GeoIpInfo, GeoResolver } from '../types';
+
+/**
+ * Decoded MMDB data value
+ */
+export type MMDBValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Uint8Array
+  | MMDBValue[]
+  | { [key: string]: MMDBValue };
+
+/**
+ * Database metadata stored at the end of every MMDB file
+ */
+export interface MMDBMetadata {
+  nodeCount: number;
+  recordSize: number;
+  ipVersion: number;
+  databaseType: string;
+  languages: string[];
+  buildEpoch: number;
+}
+
+/**
+ * Marker preceding the metadata section
+ */
+const METADATA_MARKER = [0xab, 0xcd, 0xef, ...Array.from('MaxMind.com', (c) => c.charCodeAt(0))];
+
+/**
+ * Size of the zero-filled separator between the search tree and the data section
+ */
+const DATA_SECTION_SEPARATOR = 16;
+
+/**
+ * Data section field types
+ */
+const enum FieldType {
+  Extended = 0,
+  Pointer = 1,
+  String = 2,
+  Double = 3,
+  Bytes = 4,
+  Uint16 = 5,
+  Uint32 = 6,
+  Map = 7,
+  Int32 = 8,
+  Uint64 = 9,
+  Uint128 = 10,
+  Array = 11,
+  Container = 12,
+  EndMarker = 13,
+  Boolean = 14,
+  Float = 15,
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into bytes
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are returned as IPv4
+ * @param ip - IP address string
+ * @returns 4 or 16 address bytes, or null if the address is invalid
+ */
+export const parseIp = (ip: string): number[] | null => {
+  const address = ip
+    .trim()
+    .replace(/^\[|\]$/g, '')
+    .split('%')[0];
+
+  const parseV4 = (value: string): number[] | null => {
+    const parts = value.split('.');
+    if (parts.length !== 4) return null;
+    const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+    return bytes.every((b) => b >= 0 && b <= 255) ? bytes : null;
+  };
+
+  if (!address.includes(':')) return parseV4(address);
+
+  // Split off an embedded IPv4 tail (e.g. ::ffff:1.2.3.4)
+  let tail: number[] = [];
+  let head = address;
+  const lastColon = address.lastIndexOf(':');
+  if (address.slice(lastColon + 1).includes('.')) {
+    const v4 = parseV4(address.slice(lastColon + 1));
+    if (!v4) return null;
+    tail = v4;
+    head = address.slice(0, lastColon + 1) + '0:0';
+  }
+
+  const halves = head.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string): number[] | null => {
+    if (part === '') return [];
+    const groups = part.split(':').map((g) => (/^[0-9a-f]{1,4}$/i.test(g) ? parseInt(g, 16) : NaN));
+    return groups.some(isNaN) ? null : groups;
+  };
+
+  const left = toGroups(halves[0]);
+  const right = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!left || !right) return null;
+
+  const missing = 8 - left.length - right.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return null;
+
+  const groups = [...left, ...new Array<number>(missing).fill(0), ...right];
+  const bytes = groups.flatMap((g) => [g >> 8, g & 0xff]);
+
+  if (tail.length > 0) {
+    bytes.splice(12, 4, ...tail);
+  }
+
+  // IPv4-mapped address
+  if (bytes.slice(0, 10).every((b) => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return bytes.slice(12);
+  }
+
+  return bytes;
+};
+
+/**
+ * Reader for MaxMind DB format files
+ */
+export class MMDBReader {
+  /** Database metadata */
+  public readonly metadata: MMDBMetadata;
+
+  private readonly buffer: Uint8Array;
+  private readonly view: DataView;
+  private readonly treeSize: number;
+  private readonly dataOffset: number;
+  private readonly utf8 = new TextDecoder('utf-8');
+  private ipv4Start = -1;
+
+  /**
+   * Create a reader from raw database bytes
+   * @param buffer - Contents of an .mmdb file
+   * @throws Error if the buffer is not a valid MaxMind DB
+   */
+  constructor(buffer: Uint8Array) {
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+    const metadataStart = this.findMetadataStart();
+    if (metadataStart < 0) {
+      throw new Error('Invalid MaxMind DB: metadata marker not found');
+    }
+
+    const raw = this.decode(metadataStart, metadataStart).value as Record<string, MMDBValue>;
+    this.metadata = {
+      nodeCount: Number(raw.node_count),
+      recordSize: Number(raw.record_size),
+      ipVersion: Number(raw.ip_version),
+      databaseType: String(raw.database_type ?? ''),
+      languages: Array.isArray(raw.languages) ? raw.languages.map(String) : [],
+      buildEpoch: Number(raw.build_epoch ?? 0),
+    };
+
+    if (![24, 28, 32].includes(this.metadata.recordSize)) {
+      throw new Error(`Invalid MaxMind DB: unsupported record size ${this.metadata.recordSize}`);
+    }
+
+    this.treeSize = (this.metadata.recordSize * 2 * this.metadata.nodeCount) / 8;
+    this.dataOffset = this.treeSize + DATA_SECTION_SEPARATOR;
+  }
+
+  /**
+   * Look up the record for an IP address
+   * @param ip - IPv4 or IPv6 address
+   * @returns Decoded record or null if the address is not in the database
+   */
+  get(ip: string): MMDBValue | null {
+    const bytes = parseIp(ip);
+    if (!bytes) return null;
+    if (bytes.length === 16 && this.metadata.ipVersion === 4) return null;
+
+    const { nodeCount } = this.metadata;
+    let node = bytes.length === 4 ? this.getIPv4Start() : 0;
+    const bitCount = bytes.length * 8;
+
+    for (let i = 0; i < bitCount && node < nodeCount; i++) {
+      const bit = (bytes[i >> 3] >> (7 - (i & 7))) & 1;
+      node = this.readRecord(node, bit);
+    }
+
+    if (node <= nodeCount) return null;
+
+    const offset = this.dataOffset + (node - nodeCount - DATA_SECTION_SEPARATOR);
+    return this.decode(offset, this.dataOffset).value;
+  }
+
+  /**
+   * Find the search tree node for the IPv4 subtree (::/96) in IPv6 databases
+   */
+  private getIPv4Start(): number {
+    if (this.ipv4Start >= 0) return this.ipv4Start;
+
+    let node = 0;
+    if (this.metadata.ipVersion === 6) {
+      for (let i = 0; i < 96 && node < this.metadata.nodeCount; i++) {
+        node = this.readRecord(node, 0);
+      }
+    }
+
+    this.ipv4Start = node;
+    return node;
+  }
+
+  /**
+   * Read the left (0) or right (1) record of a search tree node
+   */
+  private readRecord(node: number, bit: number): number {
+    const { recordSize } = this.metadata;
+    const base = (node * recordSize * 2) / 8;
+    const b = this.buffer;
+
+    if (recordSize === 24) {
+      const offset = base + bit * 3;
+      return (b[offset] << 16) | (b[offset + 1] << 8) | b[offset + 2];
+    }
+
+    if (recordSize === 28) {
+      if (bit === 0) {
+        return ((b[base + 3] & 0xf0) << 20) | (b[base] << 16) | (b[base + 1] << 8) | b[base + 2];
+      }
+      return ((b[base + 3] & 0x0f) << 24) | (b[base + 4] << 16) | (b[base + 5] << 8) | b[base + 6];
+    }
+
+    return this.view.getUint32(base + bit * 4);
+  }
+
+  /**
+   * Locate the start of the metadata section (searching from the end of the file)
+   */
+  private findMetadataStart(): number {
+    const b = this.buffer;
+    for (let i = b.length - METADATA_MARKER.length; i >= 0; i--) {
+      let match = true;
+      for (let j = 0; j < METADATA_MARKER.length; j++) {
+        if (b[i + j] !== METADATA_MARKER[j]) {
+          match = false;
+          break;
+        }
+      }
+      if (match) return i + METADATA_MARKER.length;
+    }
+    return -1;
+  }
+
+  /**
+   * Read an unsigned big-endian integer of up to 6 bytes
+   */
+  private readUint(offset: number, size: number): number {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value = value * 256 + this.buffer[offset + i];
+    }
+    return value;
+  }
+
+  /**
+   * Decode a data field
+   * @param offset - Absolute offset of the field control byte
+   * @param base - Absolute offset that pointers are relative to
+   * @returns Decoded value and the offset following the field
+   */
+  private decode(offset: number, base: number): { value: MMDBValue; next: number } {
+    const control = this.buffer[offset++];
+    let type = control >> 5;
+
+    if (type === FieldType.Pointer) {
+      const sizeBits = (control >> 3) & 0x3;
+      const low = control & 0x7;
+      let pointer: number;
+
+      if (sizeBits === 0) {
+        pointer = (low << 8) | this.buffer[offset];
+      } else if (sizeBits === 1) {
+        pointer = ((low << 16) | this.readUint(offset, 2)) + 2048;
+      } else if (sizeBits === 2) {
+        pointer = low * 0x1000000 + this.readUint(offset, 3) + 526336;
+      } else {
+        pointer = this.readUint(offset, 4);
+      }
+
+      return { value: this.decode(base + pointer, base).value, next: offset + sizeBits + 1 };
+    }
+
+    if (type === FieldType.Extended) {
+      type = 7 + this.buffer[offset++];
+    }
+
+    let size = control & 0x1f;
+    if (size === 29) {
+      size = 29 + this.buffer[offset++];
+    } else if (size === 30) {
+      size = 285 + this.readUint(offset, 2);
+      offset += 2;
+    } else if (size === 31) {
+      size = 65821 + this.readUint(offset, 3);
+      offset += 3;
+    }
+
+    switch (type) {
+      case FieldType.String:
+        return {
+          value: this.utf8.decode(this.buffer.subarray(offset, offset + size)),
+          next: offset + size,
+        };
+
+      case FieldType.Double:
+        return { value: this.view.getFloat64(offset), next: offset + 8 };
+
+      case FieldType.Float:
+        return { value: this.view.getFloat32(offset), next: offset + 4 };
+
+      case FieldType.Bytes:
+        return { value: this.buffer.slice(offset, offset + size), next: offset + size };
+
+      case FieldType.Uint16:
+      case FieldType.Uint32:
+        return { value: this.readUint(offset, size), next: offset + size };
+
+      case FieldType.Int32: {
+        const unsigned = this.readUint(offset, size);
+        const value = size === 4 ? unsigned | 0 : unsigned;
+        return { value, next: offset + size };
+      }
+
+      case FieldType.Uint64:
+      case FieldType.Uint128: {
+        let value = BigInt(0);
+        for (let i = 0; i < size; i++) {
+          value = (value << BigInt(8)) | BigInt(this.buffer[offset + i]);
+        }
+        return { value, next: offset + size };
+      }
+
+      case FieldType.Boolean:
+        return { value: size !== 0, next: offset };
+
+      case FieldType.Map: {
+        const map: { [key: string]: MMDBValue } = {};
+        let cursor = offset;
+        for (let i = 0; i < size; i++) {
+          const key = this.decode(cursor, base);
+          const value = this.decode(key.next, base);
+          map[String(key.value)] = value.value;
+          cursor = value.next;
+        }
+        return { value: map, next: cursor };
+      }
+
+      case FieldType.Array: {
+        const array: MMDBValue[] = [];
+        let cursor = offset;
+        for (let i = 0; i < size; i++) {
+          const item = this.decode(cursor, base);
+          array.push(item.value);
+          cursor = item.next;
+        }
+        return { value: array, next: cursor };
+      }
+
+      default:
+        throw new Error(`Invalid MaxMind DB: unsupported data type ${type}`);
+    }
+  }
+}
+
+/**
+ * Load a MaxMind DB file from disk
+ * @param path - Path to the .mmdb file
+ * @returns Promise resolving to a reader
+ */
+export const openMMDB = async (path: string): Promise<MMDBReader> => {
+  const buffer = await readFile(path);
+  return new MMDBReader(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength));
+};
+
+/**
+ * Readers used by the MMDB geo resolver
+ */
+export interface MMDBGeoResolverOptions {
+  /** GeoIP2/GeoLite2 City or Country database */
+  city?: MMDBReader;
+  /** GeoIP2/GeoLite2 ASN database */
+  asn?: MMDBReader;
+  /** Preferred language for localized names (default: 'en') */
+  language?: string;
+}
+
+/**
+ * Safely walk a decoded record
+ */
+const pick = (record: MMDBValue | null | undefined, ...path: (string | number)[]): MMDBValue => {
+  let current: unknown = record;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return '';
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return (current ?? '') as MMDBValue;
+};
+
+/**
+ * Create a geo resolver backed by MaxMind DB readers
+ * @param options - City and/or ASN database readers
+ * @returns Geo resolver for DeviceUUID.setGeoResolver
+ * @example
+ * const city = await openMMDB('./GeoLite2-City.mmdb');
+ * const asn = await openMMDB('./GeoLite2-ASN.mmdb');
+ * DeviceUUID.setGeoResolver(createMMDBGeoResolver({ city, asn }));
+ */
+export const createMMDBGeoResolver = (options: MMDBGeoResolverOptions): GeoResolver => {
+  const language = options.language ?? 'en';
+
+  return {
+    lookup(ip: string): GeoIpInfo | null {
+      const city = options.city?.get(ip) ?? null;
+      const asn = options.asn?.get(ip) ?? null;
+      if (city === null && asn === null) return null;
+
+      const info: GeoIpInfo = {};
+
+      const country = pick(city, 'country', 'iso_code');
+      const region = pick(city, 'subdivisions', 0, 'iso_code');
+      const cityName = pick(city, 'city', 'names', language);
+      const timezone = pick(city, 'location', 'time_zone');
+      const asNumber = pick(asn, 'autonomous_system_number');
+      const asOrg = pick(asn, 'autonomous_system_organization');
+
+      if (country) info.country = String(country);
+      if (region) info.region = String(region);
+      if (cityName) info.city = String(cityName);
+      if (timezone) info.timezone = String(timezone);
+      if (asNumber !== '') info.asn = Number(asNumber);
+      if (asOrg) info.asnOrganization = String(asOrg);
+
+      return info;
+    },
+  };
+};
@@ -0,0 +1,112 @@
+/**
+ * Server-side device resolver
+ * Parses request headers into device information with an LRU cache of parse results
+ */
+
+import type {
+  AgentInfo,
+  DeviceMiddlewareOptions,
+  DeviceUUIDOptions,
+  HeadersLike,
+  RequestDevice,
+  UuidOptions,
+} from '../types';
+import { CONFIG_OPTIONS, DEFAULT_OPTIONS } from '../constants';
+import { DeviceUUID } from '../core/DeviceUUID';
+import { generateUuid } from '../utils/uuid';
+import { getBotsRevision } from '../utils/bots';
+import { CLIENT_HINTS_HEADERS } from '../utils/client-hints';
+import { getHeader } from '../utils/headers';
+import { LRUCache } from '../utils/lru-cache';
+import { createSupportChecker } from '../utils/support';
+
+/**
+ * Function resolving request headers into device information
+ */
+export type DeviceResolver = (headers: HeadersLike, ip?: string) => RequestDevice;
+
+/**
+ * Request headers that affect the parse result and therefore the cache key
+ */
+export const DEVICE_HEADERS: readonly string[] = [
+  'User-Agent',
+  'Accept-Language',
+  ...CLIENT_HINTS_HEADERS,
+  'Sec-CH-Viewport-Width',
+  'Viewport-Width',
+  'Sec-CH-Viewport-Height',
+  'Sec-CH-DPR',
+  'DPR',
+  'Sec-CH-Device-Memory',
+  'Device-Memory',
+  'Save-Data',
+] as const;
+
+/**
+ * Default maximum number of cached parse results
+ */
+const DEFAULT_CACHE_SIZE = 1000;
+
+/**
+ * Build a cache key from the user agent and other device-related headers
+ * @param headers - Request headers
+ * @returns Cache key
+ */
+const getCacheKey = (headers: HeadersLike): string => {
+  return DEVICE_HEADERS.map((name) => getHeader(headers, name) ?? '').join('\n');
+};
+
+/**
+ * Generate the server-side UUID from the enabled option fields
+ * Unlike DeviceUUID.get, only options set to true feed the hash
+ * @param agent - Parsed agent information
+ * @param fields - Enabled AgentInfo fields
+ * @param options - Hash algorithm, output format and namespace
+ * @returns Formatted identifier
+ */
+const getServerUuid = (
+  agent: AgentInfo,
+  fields: (keyof AgentInfo)[],
+  options: UuidOptions
+): string => {
+  return generateUuid(fields.map((field) => agent[field]).join(':'), options);
+};
+
+/**
+ * Create a resolver that turns request headers into device information
+ * Parse results are cached by user agent (plus the other device headers) and dropped when bots
+ * are registered; geoIp is resolved per request from the client IP and does not affect the UUID
+ * @param options - Middleware options
+ * @returns Device resolver function
+ */
+export const createDeviceResolver = (options: DeviceMiddlewareOptions = {}): DeviceResolver => {
+  const uuidOptions: DeviceUUIDOptions = { ...DEFAULT_OPTIONS, ...options.uuidOptions };
+  const fields = (Object.keys(uuidOptions) as (keyof DeviceUUIDOptions)[]).filter(
+    (key) => uuidOptions[key] && !CONFIG_OPTIONS.includes(key)
+  ) as (keyof AgentInfo)[];
+  const cache = new LRUCache<string, RequestDevice>(options.cacheSize ?? DEFAULT_CACHE_SIZE);
+  const checkSupport = options.supportPolicy ? createSupportChecker(options.supportPolicy) : null;
+  let botsRevision = getBotsRevision();
+
+  return (headers: HeadersLike, ip?: string): RequestDevice => {
+    const key = getCacheKey(headers);
+    if (botsRevision !== getBotsRevision()) {
+      // Registered bots change detection results
+      cache.clear();
+      botsRevision = getBotsRevision();
+    }
+
+    let result = cache.get(key);
+    if (!result) {
+      const agent = DeviceUUID.fromHeaders(headers, undefined, uuidOptions.rules);
+      result = { ...agent, uuid: getServerUuid(agent, fields, uuidOptions) };
+      if (checkSupport) {
+        result.support = checkSupport(agent);
+      }
+      cache.set(key, result);
+    }
+
+    // Return a copy so request handlers cannot mutate the cached entry
+    return { ...result, geoIp: ip ? DeviceUUID.lookupGeoIp(ip) : {} };
+  };
+};
@@ -46,6 +46,193 @@ export interface DeviceUUIDOptions {
   isEpiphany?: boolean;
   source?: boolean;
   cpuCores?: boolean;
+  /** Hash algorithm used for the UUID (default: 'md5'); not a hashed field */
+  hashAlgorithm?: HashAlgorithm;
+  /** Identifier output format (default: 'legacy'); not a hashed field */
+  outputFormat?: UuidFormat;
+  /** Namespace UUID for the 'v5' output format; not a hashed field */
+  namespace?: string;
+  /** Tenant salt mixed into every identifier; not a hashed field */
+  salt?: string;
+  /** Secret key enabling HMAC-SHA256 keyed identifiers; not a hashed field */
+  secretKey?: string;
+  /** Custom detection rules checked alongside the built-in rules; not a hashed field */
+  rules?: readonly DetectionRule[];
+}
+
+/**
+ * Hash algorithms available for identifier generation
+ */
+export type HashAlgorithm = 'md5' | 'sha256' | 'murmur3' | 'xx64';
+
+/**
+ * Identifier output formats
+ * - legacy: historical v4-looking layout (default, keeps existing UUIDs stable)
+ * - v4: RFC 9562 version 4 layout with correct variant bits
+ * - v5: RFC 9562 name-based UUID (SHA-1 over a namespace)
+ * - v8: RFC 9562 custom UUID carrying the selected hash
+ * - hex: 32 character hex digest
+ * - base64url: 22 character unpadded base64url digest
+ * - ulid: 26 character Crockford base32 digest
+ */
+export type UuidFormat = 'legacy' | 'v4' | 'v5' | 'v8' | 'hex' | 'base64url' | 'ulid';
+
+/**
+ * Options controlling how identifier data is hashed, keyed and encoded
+ */
+export type UuidOptions = Pick<
+  DeviceUUIDOptions,
+  'hashAlgorithm' | 'outputFormat' | 'namespace' | 'salt' | 'secretKey'
+>;
+
+/**
+ * Bot categories of the bot catalogue
+ */
+export type BotCategory =
+  | 'search-engine'
+  | 'ai-crawler'
+  | 'social'
+  | 'seo'
+  | 'monitoring'
+  | 'headless'
+  | 'http-library'
+  | 'feed-reader'
+  | 'other';
+
+/**
+ * Bot catalogue entry
+ */
+export interface BotDefinition {
+  /** Case-insensitive regular expression source or RegExp matched against the user agent */
+  pattern: string | RegExp;
+  /** Display name, e.g. "GPTBot" */
+  name: string;
+  /** Bot category */
+  category: BotCategory;
+  /** Company or project operating the bot */
+  vendor: string;
+}
+
+/**
+ * Detected bot information
+ */
+export type BotInfo = Pick<BotDefinition, 'name' | 'category' | 'vendor'>;
+
+/**
+ * Device form factors
+ */
+export type DeviceType =
+  | 'mobile'
+  | 'tablet'
+  | 'desktop'
+  | 'smarttv'
+  | 'wearable'
+  | 'ereader'
+  | 'unknown';
+
+/**
+ * Device database entry
+ */
+export interface DeviceDefinition {
+  /** Case-insensitive regular expression source or RegExp matched against the user agent */
+  pattern: string | RegExp;
+  /** Manufacturer, e.g. "Samsung" */
+  vendor: string;
+  /** Model name; $1 is replaced with the first capture group of the pattern */
+  model: string;
+  /** Form factor (inferred from the user agent when omitted) */
+  type?: DeviceType;
+}
+
+/**
+ * Structured browser or operating system version
+ */
+export interface ParsedVersion {
+  /** Major version, 0 when unknown */
+  major: number;
+  /** Minor version, 0 when absent */
+  minor: number;
+  /** Patch version, 0 when absent */
+  patch: number;
+  /** Version string as reported, e.g. "120.0.6099.129", or 'unknown' */
+  raw: string;
+}
+
+/**
+ * Version ranges by browser name, e.g. `{ Chrome: '>=110', Safari: '>=16.4' }`
+ */
+export type VersionRequirements = Readonly<Record<string, string>>;
+
+/**
+ * Browser support policy: a browserslist-style query (string or list of queries), or minimum
+ * versions by browser name, e.g. `{ Chrome: 110, Safari: '16.4' }`
+ */
+export type SupportPolicy = string | readonly string[] | Readonly<Record<string, string | number>>;
+
+/**
+ * Why a browser is or is not supported
+ * - supported: the version satisfies a policy entry for the browser
+ * - outdated: the version is below every policy entry for the browser
+ * - excluded: a `not` query matches the browser
+ * - unlisted: the policy has no entry for the browser
+ * - unknown-version: the policy lists the browser but its version could not be detected
+ */
+export type SupportReason = 'supported' | 'outdated' | 'excluded' | 'unlisted' | 'unknown-version';
+
+/**
+ * Result of checking a parsed agent against a support policy
+ */
+export interface SupportResult {
+  /** Whether the browser is supported */
+  supported: boolean;
+  /** Machine-readable reason */
+  reason: SupportReason;
+  /** Human-readable explanation, e.g. 'Chrome 109.0 does not satisfy "chrome >= 110"' */
+  message: string;
+  /** Detected browser name */
+  browser: string;
+  /** Detected browser version, e.g. "120.0.6099.129" */
+  version: string;
+  /** Policy query that decided the result, or null for unlisted browsers */
+  query: string | null;
+}
+
+/**
+ * Agent property a detection rule resolves
+ */
+export type DetectionRuleKind = 'browser' | 'os' | 'platform';
+
+/**
+ * Browser, operating system or platform detection rule
+ */
+export interface DetectionRule {
+  /** Agent property the rule resolves */
+  kind: DetectionRuleKind;
+  /** Value assigned to the agent property on match, e.g. "Chrome" */
+  name: string;
+  /** Case-insensitive regular expression source or RegExp matched against the user agent */
+  pattern: string | RegExp;
+  /** Rules with a higher priority are checked first (default: 0); custom rules win ties */
+  priority?: number;
+  /** Additional agent fields set on match, e.g. `{ isChrome: true }` */
+  fields?: Partial<AgentInfo>;
+  /**
+   * Version extractor: a RegExp whose first non-empty capture group is the version, or a
+   * function returning the version; browser rules fill `version`, OS rules `osVersion`
+   */
+  version?: RegExp | ((source: string) => string | null);
+}
+
+/**
+ * Detected device information
+ */
+export interface DeviceInfo {
+  /** Manufacturer, or 'unknown' */
+  vendor: string;
+  /** Model name, or 'unknown' */
+  model: string;
+  /** Form factor */
+  type: DeviceType;
 }
 
 /**
@@ -114,15 +301,37 @@ export interface AgentInfo {
   resolution: [number, number];
   cpuCores: number;
   language: string;
+  languages: string[];
+  devicePixelRatio: number;
+  deviceMemory: number;
+  saveData: boolean;
 
   // Identification
   browser: string;
   version: string;
   os: string;
   platform: string;
+  browserVersion: ParsedVersion;
+  osVersion: ParsedVersion;
+
+  // Client Hints data
+  architecture: string;
+  bitness: string;
+  model: string;
+  clientHints: ClientHints | null;
+
+  // Bot catalogue match
+  bot: BotInfo | null;
+
+  // Device database match
+  device: DeviceInfo;
+
+  // In-app browser
+  isWebView: boolean;
+  appName: string;
 
   // GeoIP data
-  geoIp: Record<string, unknown>;
+  geoIp: GeoIpInfo;
 
   // User agent string
   source: string;
@@ -132,6 +341,86 @@ export interface AgentInfo {
   hashMD5: (str: string) => string;
 }
 
+/**
+ * Brand and version pair reported by User-Agent Client Hints
+ */
+export interface ClientHintsBrand {
+  brand: string;
+  version: string;
+}
+
+/**
+ * User-Agent Client Hints collected from navigator.userAgentData or Sec-CH-UA-* headers
+ */
+export interface ClientHints {
+  /** Brands with significant versions (Sec-CH-UA) */
+  brands: ClientHintsBrand[];
+  /** Brands with full versions (Sec-CH-UA-Full-Version-List) */
+  fullVersionList: ClientHintsBrand[];
+  /** Whether the browser prefers a mobile experience (Sec-CH-UA-Mobile) */
+  mobile: boolean;
+  /** Platform brand, e.g. "Windows" or "macOS" (Sec-CH-UA-Platform) */
+  platform: string;
+  /** Platform version, e.g. "15.0.0" (Sec-CH-UA-Platform-Version) */
+  platformVersion: string;
+  /** Device model (Sec-CH-UA-Model) */
+  model: string;
+  /** CPU architecture, e.g. "x86" or "arm" (Sec-CH-UA-Arch) */
+  architecture: string;
+  /** CPU bitness, e.g. "64" (Sec-CH-UA-Bitness) */
+  bitness: string;
+}
+
+/**
+ * HTTP request headers as a plain object (Node.js IncomingHttpHeaders-like)
+ */
+export type HeadersRecord = Record<string, string | string[] | undefined>;
+
+/**
+ * Request headers accepted by server-side parsing: a plain record or a Fetch API Headers object
+ */
+export type HeadersLike = HeadersRecord | { get(name: string): string | null };
+
+/**
+ * Geolocation data resolved from the client IP address
+ */
+export interface GeoIpInfo {
+  /** ISO 3166-1 alpha-2 country code */
+  country?: string;
+  /** Region/subdivision ISO code or name */
+  region?: string;
+  /** City name */
+  city?: string;
+  /** Autonomous system number */
+  asn?: number;
+  /** Autonomous system organization */
+  asnOrganization?: string;
+  /** IANA timezone, e.g. "Europe/Riga" */
+  timezone?: string;
+}
+
+/**
+ * Pluggable resolver mapping an IP address to geolocation data
+ */
+export interface GeoResolver {
+  /** Look up an IPv4 or IPv6 address, returning null when unknown */
+  lookup(ip: string): GeoIpInfo | null;
+}
+
+/**
+ * Result of comparing the IP timezone with the client-reported timezone
+ */
+export interface TimezoneMismatch {
+  /** Whether the UTC offsets of both timezones differ */
+  mismatch: boolean;
+  /** Timezone resolved from the IP address */
+  ipTimezone: string;
+  /** Timezone reported by the client (Intl) */
+  clientTimezone: string;
+  /** Difference between the client and IP UTC offsets in minutes */
+  offsetDifference: number;
+}
+
 /**
  * Regex patterns for browser detection
  */
@@ -166,12 +455,15 @@ export interface PlatformPatterns {
 export type FingerprintFeature =
   | 'canvas'
   | 'webgl'
+  | 'webgpu'
   | 'audio'
   | 'fonts'
+  | 'voices'
   | 'mediaDevices'
   | 'networkInfo'
   | 'timezone'
-  | 'incognitoDetection';
+  | 'incognitoDetection'
+  | 'automation';
 
 /**
  * Extended options for async fingerprint generation
@@ -180,12 +472,16 @@ export type FingerprintFeature =
 export interface FingerprintOptions {
   /** Enable Canvas fingerprinting (default: false) */
   canvas?: boolean;
-  /** Enable WebGL fingerprinting (default: false) */
-  webgl?: boolean;
+  /** Enable WebGL fingerprinting - boolean or config for the rendering sub-mode (default: false) */
+  webgl?: boolean | WebGLFingerprintConfig;
+  /** Enable WebGPU adapter fingerprinting (default: false) */
+  webgpu?: boolean;
   /** Enable AudioContext fingerprinting (default: false) */
   audio?: boolean;
   /** Enable font detection - boolean or custom font list (default: false) */
   fonts?: boolean | string[];
+  /** Enable speech synthesis voices collection (default: false) */
+  voices?: boolean;
   /** Enable media devices enumeration (default: false) */
   mediaDevices?: boolean;
   /** Enable network information collection (default: false) */
@@ -194,28 +490,358 @@ export interface FingerprintOptions {
   timezone?: boolean;
   /** Enable incognito/private mode detection (default: false) */
   incognitoDetection?: boolean;
+  /** Enable headless browser and automation detection (default: false) */
+  automation?: boolean;
+  /** Cross-check the user agent against runtime signals and lower confidence on mismatches (default: false) */
+  consistency?: boolean;
+  /** Population statistics overriding the default entropy table used for confidence */
+  entropyTable?: EntropyTableOverrides;
   /** Global timeout in milliseconds (default: 5000) */
   timeout?: number;
   /** Per-method timeout in milliseconds (default: 1000) */
   methodTimeout?: number;
   /** Preset name to use as base configuration (optional) */
   preset?: FingerprintPreset;
+  /** Derive the UUID only from components that survive browser upgrades (default: false) */
+  fuzzy?: boolean;
+  /** Hash algorithm used to combine components (defaults to the DeviceUUIDOptions algorithm) */
+  hashAlgorithm?: HashAlgorithm;
+  /** Identifier output format (defaults to the DeviceUUIDOptions format) */
+  outputFormat?: UuidFormat;
+  /** Namespace UUID for the 'v5' output format (defaults to the DeviceUUIDOptions namespace) */
+  namespace?: string;
+  /** Return the data behind each component hash in `FingerprintComponent.raw` (default: false) */
+  includeRawValues?: boolean;
+  /** Leave components whose value changes between reads out of the UUID (default: false) */
+  excludeRandomized?: boolean;
+}
+
+/**
+ * Signals that indicate a headless or automated browser
+ */
+export type AutomationSignal =
+  | 'webdriver'
+  | 'cdpArtifacts'
+  | 'headlessUserAgent'
+  | 'missingPlugins'
+  | 'missingMimeTypes'
+  | 'inconsistentChrome'
+  | 'softwareRenderer';
+
+/**
+ * Headless browser and automation detection verdict
+ */
+export interface AutomationResult {
+  /** Whether the browser is likely driven by automation (score >= 0.5) */
+  isAutomated: boolean;
+  /** Weighted sum of the fired signals (0-1) */
+  score: number;
+  /** Signals that fired */
+  signals: AutomationSignal[];
+}
+
+/**
+ * Named mismatches between the user agent and the runtime environment
+ */
+export type InconsistencyName =
+  | 'gpuPlatform'
+  | 'touchSupport'
+  | 'browserEngine'
+  | 'clientHintsPlatform'
+  | 'navigatorPlatform';
+
+/**
+ * Mismatch between a user agent claim and a live signal
+ */
+export interface Inconsistency {
+  /** Mismatch name */
+  name: InconsistencyName;
+  /** Value implied by the user agent */
+  expected: string;
+  /** Value reported by the runtime environment */
+  actual: string;
+}
+
+/**
+ * Result of cross-checking the user agent against the runtime environment
+ */
+export interface ConsistencyResult {
+  /** Detected mismatches */
+  inconsistencies: Inconsistency[];
+  /** Weighted likelihood that the user agent is spoofed (0-1) */
+  lieScore: number;
+}
+
+/**
+ * Platforms with their own basic component entropy
+ * Common, homogeneous devices (e.g. iPhones) carry less entropy than desktop computers
+ */
+export type EntropyPlatform =
+  | 'iPhone'
+  | 'iPad'
+  | 'Android'
+  | 'Windows'
+  | 'macOS'
+  | 'Linux'
+  | 'ChromeOS'
+  | 'other';
+
+/**
+ * Entropy estimate of a fingerprint component
+ */
+export interface ComponentEntropy {
+  /** Estimated entropy in bits */
+  entropy: number;
+  /** Likelihood (0-1) that the value stays the same across visits and browser updates */
+  stability: number;
+}
+
+/**
+ * Population statistics used to estimate fingerprint confidence
+ */
+export interface EntropyTable {
+  /** Entropy and stability per component */
+  components: Record<FingerprintComponentName, ComponentEntropy>;
+  /** Entropy of the basic component per platform (replaces components.basic.entropy) */
+  platforms: Record<EntropyPlatform, number>;
+  /** Bits needed to single out one device in the population */
+  targetBits: number;
+}
+
+/**
+ * Partial entropy table merged over the defaults
+ */
+export interface EntropyTableOverrides {
+  components?: Partial<Record<FingerprintComponentName, Partial<ComponentEntropy>>>;
+  platforms?: Partial<Record<EntropyPlatform, number>>;
+  targetBits?: number;
+}
+
+/**
+ * Raw canvas rendering data
+ */
+export interface CanvasRawValue {
+  /** Canvas width in pixels */
+  width: number;
+  /** Canvas height in pixels */
+  height: number;
+  /** PNG data URL of the rendered test image */
+  dataUrl: string;
+}
+
+/**
+ * WebGL fingerprint configuration
+ */
+export interface WebGLFingerprintConfig {
+  /** Draw a shaded test scene and hash its pixels, plus shader precision formats (default: false) */
+  rendering?: boolean;
+}
+
+/**
+ * Result of getShaderPrecisionFormat for one precision type
+ */
+export interface ShaderPrecision {
+  rangeMin: number;
+  rangeMax: number;
+  precision: number;
+}
+
+/**
+ * Shader precision type names
+ */
+export type ShaderPrecisionType =
+  | 'LOW_FLOAT'
+  | 'MEDIUM_FLOAT'
+  | 'HIGH_FLOAT'
+  | 'LOW_INT'
+  | 'MEDIUM_INT'
+  | 'HIGH_INT';
+
+/**
+ * Shader precision formats of the vertex and fragment shaders
+ */
+export interface WebGLShaderPrecision {
+  vertex: Partial<Record<ShaderPrecisionType, ShaderPrecision>>;
+  fragment: Partial<Record<ShaderPrecisionType, ShaderPrecision>>;
+}
+
+/**
+ * Raw WebGL context data
+ */
+export interface WebGLRawValue {
+  /** Unmasked GPU vendor or null if WEBGL_debug_renderer_info is unavailable */
+  vendor: string | null;
+  /** Unmasked GPU renderer or null if WEBGL_debug_renderer_info is unavailable */
+  renderer: string | null;
+  /** Whether a WebGL2 context was created */
+  webgl2: boolean;
+  /** Parameter values by name (ranges formatted as "min-max") */
+  parameters: Record<string, string>;
+  /** Sorted supported extensions */
+  extensions: string[];
+  /** MD5 of the rendered test scene pixels, null if drawing failed (rendering mode only) */
+  renderHash?: string | null;
+  /** Shader precision formats (rendering mode only) */
+  shaderPrecision?: WebGLShaderPrecision;
+}
+
+/**
+ * Raw WebGPU adapter data
+ */
+export interface WebGPURawValue {
+  /** Adapter vendor (empty if not exposed) */
+  vendor: string;
+  /** Adapter architecture, e.g. "rdna-3" (empty if not exposed) */
+  architecture: string;
+  /** Adapter device (empty if not exposed) */
+  device: string;
+  /** Adapter description (empty if not exposed) */
+  description: string;
+  /** Whether the adapter is a software fallback */
+  isFallbackAdapter: boolean;
+  /** Sorted supported features */
+  features: string[];
+  /** Adapter limits by name */
+  limits: Record<string, number>;
+}
+
+/**
+ * Raw audio data from an OfflineAudioContext rendering
+ */
+export interface OfflineAudioRawValue {
+  source: 'offline';
+  /** Samples at fixed indices of the rendered buffer */
+  samples: number[];
+  /** Sum of all rendered samples */
+  sum: number;
+  /** Largest rendered sample */
+  max: number;
+  /** Smallest rendered sample */
+  min: number;
+  /** Rendered buffer sample rate */
+  sampleRate: number;
+}
+
+/**
+ * Raw audio data from AudioContext properties (fallback without OfflineAudioContext)
+ */
+export interface AudioContextRawValue {
+  source: 'context';
+  sampleRate: number;
+  state: string;
+  /** Base latency in seconds or null if unsupported */
+  baseLatency: number | null;
+  maxChannels: number;
+  channelCount: number;
+  channelInterpretation: string;
+}
+
+/**
+ * Raw audio data
+ */
+export type AudioRawValue = OfflineAudioRawValue | AudioContextRawValue;
+
+/**
+ * Raw font detection data
+ */
+export interface FontsRawValue {
+  /** Sorted detected fonts */
+  fonts: string[];
+}
+
+/**
+ * Speech synthesis voice
+ */
+export interface SpeechVoice {
+  /** Voice name, e.g. "Samantha" or "Google US English" */
+  name: string;
+  /** BCP 47 language tag */
+  lang: string;
+  /** Whether the voice is synthesized locally rather than by a remote service */
+  localService: boolean;
+}
+
+/**
+ * Raw speech synthesis voice data
+ */
+export interface VoicesRawValue {
+  /** Voices sorted by name and language */
+  voices: SpeechVoice[];
+}
+
+/**
+ * Raw media device counts by kind
+ */
+export interface MediaDevicesRawValue {
+  audioinput: number;
+  audiooutput: number;
+  videoinput: number;
+}
+
+/**
+ * Raw Network Information API data
+ */
+export interface NetworkInfoRawValue {
+  effectiveType: string | null;
+  /** Downlink bandwidth in Mbps */
+  downlink: number | null;
+  /** Round-trip time in milliseconds */
+  rtt: number | null;
+}
+
+/**
+ * Raw timezone and locale data
+ */
+export interface TimezoneRawValue {
+  /** Timezone offset in minutes */
+  offset: number;
+  /** IANA timezone or null if Intl is unavailable */
+  timeZone: string | null;
+  /** Resolved locale or null if Intl is unavailable */
+  locale: string | null;
+  /** Preferred languages or null if unavailable */
+  languages: string[] | null;
+}
+
+/**
+ * Raw private browsing indicators (e.g. "quota:low", "idb:available")
+ */
+export interface IncognitoRawValue {
+  indicators: string[];
+}
+
+/**
+ * Fingerprint hash with the raw data it was computed from
+ */
+export interface RawFingerprint<T> {
+  hash: string;
+  raw: T;
+  /** Whether repeated reads returned different values (anti-fingerprinting noise) */
+  randomized?: boolean;
 }
 
 /**
  * Individual fingerprint component result
  */
-export interface FingerprintComponent {
+export interface FingerprintComponent<T = unknown> {
   /** Component name */
   name: string;
   /** Hash value or null if unavailable */
   value: string | null;
+  /** Data behind the hash (only with the includeRawValues option) */
+  raw?: T;
+  /** Whether the value changed between reads, e.g. Brave farbling (canvas only) */
+  randomized?: boolean;
   /** Whether collection succeeded */
   success: boolean;
   /** Error message if collection failed */
   error?: string;
   /** Time taken to collect in milliseconds */
   duration?: number;
+  /** Estimated entropy in bits (0 when collection failed) */
+  entropy?: number;
+  /** Likelihood (0-1) that the value stays the same across visits and browser updates */
+  stability?: number;
 }
 
 /**
@@ -227,16 +853,25 @@ export interface FingerprintDetails {
   /** Individual component results */
   components: {
     basic: FingerprintComponent;
-    canvas?: FingerprintComponent;
-    webgl?: FingerprintComponent;
-    audio?: FingerprintComponent;
-    fonts?: FingerprintComponent;
-    mediaDevices?: FingerprintComponent;
-    networkInfo?: FingerprintComponent;
-    timezone?: FingerprintComponent;
-    incognito?: FingerprintComponent;
+    canvas?: FingerprintComponent<CanvasRawValue>;
+    webgl?: FingerprintComponent<WebGLRawValue>;
+    webgpu?: FingerprintComponent<WebGPURawValue>;
+    audio?: FingerprintComponent<AudioRawValue>;
+    fonts?: FingerprintComponent<FontsRawValue>;
+    voices?: FingerprintComponent<VoicesRawValue>;
+    mediaDevices?: FingerprintComponent<MediaDevicesRawValue>;
+    networkInfo?: FingerprintComponent<NetworkInfoRawValue>;
+    timezone?: FingerprintComponent<TimezoneRawValue>;
+    incognito?: FingerprintComponent<IncognitoRawValue>;
+    automation?: FingerprintComponent;
   };
-  /** Confidence score (0-1) based on available data points */
+  /** Automation verdict (only when automation detection is enabled) */
+  automation?: AutomationResult;
+  /** User agent consistency checks (only when consistency checks are enabled) */
+  consistency?: ConsistencyResult;
+  /** Estimated entropy in bits of the components that feed the UUID */
+  entropy?: number;
+  /** Confidence score (0-1) based on component entropy and stability, lowered by the lie score */
   confidence: number;
   /** Total fingerprinting duration in milliseconds */
   duration: number;
@@ -244,7 +879,105 @@ export interface FingerprintDetails {
   timestamp: number;
 }
 
+/**
+ * Name of a fingerprint component
+ */
+export type FingerprintComponentName = keyof FingerprintDetails['components'];
+
+/**
+ * Relative weights of fingerprint components used for similarity scoring
+ */
+export type FingerprintWeights = Partial<Record<FingerprintComponentName, number>>;
+
+/**
+ * Result of comparing two fingerprints
+ */
+export interface FingerprintComparison {
+  /** Weighted similarity score (0-1) over the components available in either fingerprint */
+  score: number;
+  /** Components with equal values */
+  matching: FingerprintComponentName[];
+  /** Components whose values differ or that are only available in one fingerprint */
+  differing: FingerprintComponentName[];
+}
+
+/**
+ * Storage mechanisms used by the identity store, in cascade order
+ */
+export type IdentityStorageType = 'localStorage' | 'indexedDB' | 'cookie';
+
+/**
+ * Identity persisted by the identity store
+ */
+export interface StoredIdentity {
+  /** Stable device ID returned on later visits */
+  id: string;
+  /** Most recent fingerprint reconciled with this ID */
+  details: FingerprintDetails;
+  /** Timestamp when the ID was first stored */
+  createdAt: number;
+  /** Timestamp of the last reconciliation */
+  updatedAt: number;
+}
+
+/**
+ * Identity store configuration
+ */
+export interface IdentityStoreOptions {
+  /** Storage key, IndexedDB database name and cookie name (default: 'device-uuid') */
+  key?: string;
+  /** Storage mechanisms to try in order (default: localStorage, indexedDB, cookie) */
+  storages?: IdentityStorageType[];
+  /** Minimum compareFingerprints score to keep the stored ID (default: 0.75) */
+  threshold?: number;
+  /** Cookie lifetime in days (default: 365) */
+  cookieDays?: number;
+  /** Timeout for IndexedDB operations in milliseconds (default: 1000) */
+  timeout?: number;
+}
+
+/**
+ * Result of reconciling a fresh fingerprint with the stored identity
+ * - created: nothing was stored, the fresh UUID became the ID
+ * - matched: the fingerprint is similar enough, the stored ID is kept
+ * - replaced: the fingerprint differs too much, the fresh UUID replaced the stored ID
+ */
+export interface IdentityResult {
+  /** Device ID to use */
+  id: string;
+  /** Reconciliation outcome */
+  status: 'created' | 'matched' | 'replaced';
+  /** Comparison with the stored fingerprint (null when nothing was stored) */
+  comparison: FingerprintComparison | null;
+  /** Storage the identity was saved to (null when all storage is blocked) */
+  storage: IdentityStorageType | null;
+  /** Freshly computed fingerprint */
+  details: FingerprintDetails;
+}
+
 /**
  * Preset configuration names for fingerprint options
  */
 export type FingerprintPreset = 'minimal' | 'standard' | 'comprehensive';
+
+/**
+ * Device information attached to server requests by the middleware
+ */
+export interface RequestDevice extends AgentInfo {
+  /** Server-side UUID derived from the request headers */
+  uuid: string;
+  /** Support policy result, present when the middleware has a supportPolicy */
+  support?: SupportResult;
+}
+
+/**
+ * Options for the server middleware factories
+ */
+export interface DeviceMiddlewareOptions {
+  /** DeviceUUID options selecting which AgentInfo fields feed the UUID hash */
+  uuidOptions?: Partial<DeviceUUIDOptions>;
+  /** Maximum number of cached parse results (default: 1000, 0 disables caching) */
+  cacheSize?: number;
+  /** Browser support policy evaluated for every request (fills `req.device.support`) */
+  supportPolicy?: SupportPolicy;
+}
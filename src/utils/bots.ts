@@ -0,0 +1,84 @@
+/**
+ * Bot Detection
+ * Matches user agents against the built-in bot catalogue and user-registered bots
+ */
+
+import type { BotDefinition, BotInfo } from '../types';
+import { BOT_DEFINITIONS } from '../constants';
+
+/**
+ * Catalogue entry with its compiled pattern
+ */
+interface CompiledBot {
+  regexp: RegExp;
+  info: BotInfo;
+}
+
+/**
+ * Result of matching a user agent against the catalogue
+ */
+export interface BotMatch {
+  /** Matched user agent substring (lowercase) */
+  match: string;
+  /** Catalogue entry that matched */
+  info: BotInfo;
+}
+
+/**
+ * Compile a catalogue entry
+ */
+const compileBot = ({ pattern, name, category, vendor }: BotDefinition): CompiledBot => ({
+  regexp: typeof pattern === 'string' ? new RegExp(pattern, 'i') : pattern,
+  info: { name, category, vendor },
+});
+
+const builtInBots: readonly CompiledBot[] = BOT_DEFINITIONS.map(compileBot);
+
+let registeredBots: CompiledBot[] = [];
+let revision = 0;
+
+/**
+ * Register additional bots
+ * Registered bots are tested before the built-in catalogue, so they can also
+ * recategorize built-in entries
+ * @param definitions - Bot catalogue entries
+ * @throws Error if a string pattern is not a valid regular expression
+ * @example
+ * registerBots([{ pattern: 'acme-crawler', name: 'Acme Crawler', category: 'other', vendor: 'Acme' }]);
+ */
+export const registerBots = (definitions: readonly BotDefinition[]): void => {
+  registeredBots = [...definitions.map(compileBot), ...registeredBots];
+  revision++;
+};
+
+/**
+ * Remove all bots added with registerBots()
+ */
+export const resetBots = (): void => {
+  registeredBots = [];
+  revision++;
+};
+
+/**
+ * Get a counter that changes whenever the registered bots change
+ * Used to invalidate memoized parse results
+ * @returns Registry revision
+ */
+export const getBotsRevision = (): number => revision;
+
+/**
+ * Match a user agent against registered and built-in bots
+ * @param source - User agent string
+ * @returns First matching entry, or null for unknown user agents
+ */
+export const detectBot = (source: string): BotMatch | null => {
+  if (!source) return null;
+
+  for (const bot of registeredBots.length ? [...registeredBots, ...builtInBots] : builtInBots) {
+    const match = bot.regexp.exec(source);
+    if (match) {
+      return { match: match[0].toLowerCase(), info: bot.info };
+    }
+  }
+  return null;
+};
@@ -179,62 +179,80 @@ export const BROWSER_FEATURE_SUPPORT = {
   safari: {
     canvas: 'partial',
     webgl: 'partial',
+    webgpu: 'partial',
     audio: 'partial',
     fonts: 'full',
+    voices: 'full',
     mediaDevices: 'full',
     networkInfo: 'full',
     timezone: 'full',
     incognitoDetection: 'limited',
+    automation: 'partial',
   },
   firefox: {
     canvas: 'partial',
     webgl: 'partial',
+    webgpu: 'partial',
     audio: 'partial',
     fonts: 'full',
+    voices: 'partial',
     mediaDevices: 'full',
     networkInfo: 'full',
     timezone: 'full',
     incognitoDetection: 'limited',
+    automation: 'partial',
   },
   chrome: {
     canvas: 'full',
     webgl: 'full',
+    webgpu: 'full',
     audio: 'partial',
     fonts: 'full',
+    voices: 'full',
     mediaDevices: 'full',
     networkInfo: 'full',
     timezone: 'full',
     incognitoDetection: 'limited',
+    automation: 'partial',
   },
   edge: {
     canvas: 'full',
     webgl: 'full',
+    webgpu: 'full',
     audio: 'partial',
     fonts: 'full',
+    voices: 'full',
     mediaDevices: 'full',
     networkInfo: 'full',
     timezone: 'full',
     incognitoDetection: 'limited',
+    automation: 'partial',
   },
   brave: {
     canvas: 'limited',
     webgl: 'limited',
+    webgpu: 'limited',
     audio: 'limited',
     fonts: 'full',
+    voices: 'partial',
     mediaDevices: 'full',
     networkInfo: 'full',
     timezone: 'full',
     incognitoDetection: 'limited',
+    automation: 'partial',
   },
   tor: {
     canvas: 'blocked',
     webgl: 'blocked',
+    webgpu: 'blocked',
     audio: 'blocked',
     fonts: 'limited',
+    voices: 'blocked',
     mediaDevices: 'limited',
     networkInfo: 'limited',
     timezone: 'full',
     incognitoDetection: 'blocked',
+    automation: 'partial',
   },
 } as const;
 
@@ -326,6 +344,15 @@ export const getCompatibilityInfo = (
       workarounds.push('Use 2D canvas as alternative');
       break;
 
+    case 'webgpu':
+      // WebGPU is shipping gradually and adapters are blocklisted on some GPUs
+      limitations.push('Not available in older browsers or on blocklisted GPUs');
+      limitations.push('Requires a secure context (HTTPS)');
+      limitations.push('Adapter info may be reduced or empty for privacy');
+      workarounds.push('Fall back to WebGL fingerprinting');
+      supportLevel = 'partial';
+      break;
+
     case 'audio':
       // AudioContext requires user interaction in modern browsers
       limitations.push('Autoplay policy requires user gesture');
@@ -342,6 +369,15 @@ export const getCompatibilityInfo = (
       workarounds.push('Use both DOM and canvas-based detection');
       break;
 
+    case 'voices':
+      // Voice lists depend on the OS and installed language packs
+      limitations.push('Chrome and Edge load voices asynchronously after page load');
+      limitations.push('Firefox on Linux lists no voices without speech-dispatcher');
+      limitations.push('Tor browser disables speech synthesis');
+      workarounds.push('Allow enough methodTimeout for the voiceschanged event');
+      supportLevel = 'partial';
+      break;
+
     case 'mediaDevices':
       // Media devices require permissions
       limitations.push('Requires user permission');
@@ -368,6 +404,14 @@ export const getCompatibilityInfo = (
       limitations.push('Users can workaround detection');
       supportLevel = 'limited';
       break;
+
+    case 'automation':
+      // Automation detection relies on framework artifacts that can be patched away
+      limitations.push('Stealth plugins can hide automation artifacts');
+      limitations.push('Software WebGL renderers also occur in virtual machines');
+      workarounds.push('Combine the verdict with server-side rate limiting');
+      supportLevel = 'partial';
+      break;
   }
 
   return { feature, supportLevel, limitations, workarounds };
@@ -379,9 +423,12 @@ export const getCompatibilityInfo = (
 type FingerprintFeature =
   | 'canvas'
   | 'webgl'
+  | 'webgpu'
   | 'audio'
   | 'fonts'
+  | 'voices'
   | 'mediaDevices'
   | 'networkInfo'
   | 'timezone'
-  | 'incognitoDetection';
+  | 'incognitoDetection'
+  | 'automation';
@@ -0,0 +1,273 @@
+/**
+ * User-Agent Client Hints utilities
+ * Reads high-entropy hints from navigator.userAgentData or Sec-CH-UA-* request headers
+ * and merges them into parsed agent information
+ */
+
+import type { AgentInfo, ClientHints, ClientHintsBrand, HeadersLike } from '../types';
+import { getNavigator } from './environment';
+import { getHeader } from './headers';
+import { withTimeout } from './fingerprint';
+import { detectDevice } from './devices';
+import { parseVersion } from './version';
+
+/**
+ * NavigatorUAData interface (not yet part of the TypeScript DOM library)
+ */
+interface NavigatorUAData {
+  brands?: ClientHintsBrand[];
+  mobile?: boolean;
+  platform?: string;
+  getHighEntropyValues?: (hints: string[]) => Promise<Partial<ClientHints>>;
+}
+
+/**
+ * Navigator with User-Agent Client Hints support
+ */
+interface ClientHintsNavigator extends Navigator {
+  userAgentData?: NavigatorUAData;
+}
+
+/**
+ * High-entropy hints requested from navigator.userAgentData
+ */
+export const HIGH_ENTROPY_HINTS: readonly string[] = [
+  'architecture',
+  'bitness',
+  'model',
+  'platformVersion',
+  'fullVersionList',
+] as const;
+
+/**
+ * Client Hints request headers, used for Accept-CH responses
+ */
+export const CLIENT_HINTS_HEADERS: readonly string[] = [
+  'Sec-CH-UA',
+  'Sec-CH-UA-Mobile',
+  'Sec-CH-UA-Platform',
+  'Sec-CH-UA-Platform-Version',
+  'Sec-CH-UA-Full-Version-List',
+  'Sec-CH-UA-Model',
+  'Sec-CH-UA-Arch',
+  'Sec-CH-UA-Bitness',
+] as const;
+
+/**
+ * Client Hints brand names for browsers detected from the user agent string
+ */
+const BROWSER_BRANDS: Readonly<Record<string, string>> = {
+  Chrome: 'Google Chrome',
+  Chromium: 'Chromium',
+  Edge: 'Microsoft Edge',
+  Opera: 'Opera',
+  'Opera GX': 'Opera GX',
+  'Samsung Internet': 'Samsung Internet',
+  Yandex: 'YaBrowser',
+  Whale: 'Whale',
+  Brave: 'Brave',
+};
+
+/**
+ * macOS display names by major platform version
+ */
+const MACOS_NAMES: Readonly<Record<number, string>> = {
+  11: 'macOS Big Sur',
+  12: 'macOS Monterey',
+  13: 'macOS Ventura',
+  14: 'macOS Sonoma',
+  15: 'macOS Sequoia',
+};
+
+/**
+ * GREASE brands are randomised placeholders and carry no information
+ */
+const GREASE_BRAND = /not.?a.?brand/i;
+
+/**
+ * Unquote a structured header string value
+ */
+const unquote = (value: string | undefined): string => {
+  if (!value) return '';
+  return value.trim().replace(/^"(.*)"$/, '$1');
+};
+
+/**
+ * Parse a structured header brand list, e.g. `"Chromium";v="120", "Google Chrome";v="120"`
+ * @param value - Header value
+ * @returns List of brands
+ */
+const parseBrandList = (value: string | undefined): ClientHintsBrand[] => {
+  if (!value) return [];
+
+  const brands: ClientHintsBrand[] = [];
+  const pattern = /"([^"]*)"\s*;\s*v\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    brands.push({ brand: match[1], version: match[2] });
+  }
+  return brands;
+};
+
+/**
+ * Build a complete ClientHints object from partial values
+ */
+const normalizeHints = (values: Partial<ClientHints>): ClientHints => ({
+  brands: values.brands ?? [],
+  fullVersionList: values.fullVersionList ?? [],
+  mobile: values.mobile ?? false,
+  platform: values.platform ?? '',
+  platformVersion: values.platformVersion ?? '',
+  model: values.model ?? '',
+  architecture: values.architecture ?? '',
+  bitness: values.bitness ?? '',
+});
+
+/**
+ * Parse Client Hints from Sec-CH-UA-* request headers
+ * @param headers - Request headers
+ * @returns Client Hints or null if the client sent none
+ */
+export const parseClientHintsHeaders = (headers: HeadersLike): ClientHints | null => {
+  const brands = getHeader(headers, 'Sec-CH-UA');
+  const platform = getHeader(headers, 'Sec-CH-UA-Platform');
+  if (brands === undefined && platform === undefined) return null;
+
+  return normalizeHints({
+    brands: parseBrandList(brands),
+    fullVersionList: parseBrandList(getHeader(headers, 'Sec-CH-UA-Full-Version-List')),
+    mobile: getHeader(headers, 'Sec-CH-UA-Mobile')?.trim() === '?1',
+    platform: unquote(platform),
+    platformVersion: unquote(getHeader(headers, 'Sec-CH-UA-Platform-Version')),
+    model: unquote(getHeader(headers, 'Sec-CH-UA-Model')),
+    architecture: unquote(getHeader(headers, 'Sec-CH-UA-Arch')),
+    bitness: unquote(getHeader(headers, 'Sec-CH-UA-Bitness')),
+  });
+};
+
+/**
+ * Get high-entropy Client Hints from navigator.userAgentData
+ * @param timeout - Timeout in milliseconds
+ * @returns Promise resolving to Client Hints or null if unsupported
+ */
+export const getHighEntropyValues = async (timeout = 1000): Promise<ClientHints | null> => {
+  const nav = getNavigator() as ClientHintsNavigator | undefined;
+  const uaData = nav?.userAgentData;
+  if (!uaData) return null;
+
+  const lowEntropy: Partial<ClientHints> = {
+    brands: uaData.brands,
+    mobile: uaData.mobile,
+    platform: uaData.platform,
+  };
+
+  if (typeof uaData.getHighEntropyValues !== 'function') {
+    return normalizeHints(lowEntropy);
+  }
+
+  try {
+    const values = await withTimeout(
+      uaData.getHighEntropyValues([...HIGH_ENTROPY_HINTS]),
+      timeout,
+      {}
+    );
+    return normalizeHints({ ...lowEntropy, ...values });
+  } catch {
+    return normalizeHints(lowEntropy);
+  }
+};
+
+/**
+ * Check if User-Agent Client Hints are available in the current environment
+ * @returns Whether navigator.userAgentData is present
+ */
+export const isClientHintsSupported = (): boolean => {
+  const nav = getNavigator() as ClientHintsNavigator | undefined;
+  return !!nav?.userAgentData;
+};
+
+/**
+ * Find the full version for the detected browser in a Client Hints brand list
+ */
+const findBrandVersion = (hints: ClientHints, browser: string): string | undefined => {
+  const brand = BROWSER_BRANDS[browser];
+  if (!brand) return undefined;
+
+  const list = hints.fullVersionList.length > 0 ? hints.fullVersionList : hints.brands;
+  return list.find((entry) => entry.brand === brand && !GREASE_BRAND.test(entry.brand))?.version;
+};
+
+/**
+ * Resolve the operating system name from the Client Hints platform and version
+ */
+const resolveOS = (hints: ClientHints): string | undefined => {
+  const major = parseInt(hints.platformVersion, 10);
+  if (isNaN(major)) return undefined;
+
+  if (hints.platform === 'Windows') {
+    // Platform versions 1-10 are Windows 10, 13 and above are Windows 11;
+    // 0 covers Windows 7, 8 and 8.1 which the user agent already distinguishes
+    if (major >= 13) return 'Windows 11';
+    if (major > 0) return 'Windows 10.0';
+    return undefined;
+  }
+
+  if (hints.platform === 'macOS') {
+    return MACOS_NAMES[major];
+  }
+
+  return undefined;
+};
+
+/**
+ * Merge Client Hints into parsed agent information
+ * Client Hints take precedence over the frozen user agent string
+ * @param agent - Parsed agent information (modified in place)
+ * @param hints - Client Hints to merge
+ * @returns The updated agent information
+ */
+export const applyClientHints = (agent: AgentInfo, hints: ClientHints): AgentInfo => {
+  agent.clientHints = hints;
+
+  const os = resolveOS(hints);
+  if (os) {
+    agent.os = os;
+    agent.isWindows = agent.isWindows || hints.platform === 'Windows';
+    agent.isMac = agent.isMac || hints.platform === 'macOS';
+  }
+  // Windows reports a platform version rather than the NT version of the user agent
+  if (hints.platformVersion && hints.platform !== 'Windows') {
+    agent.osVersion = parseVersion(hints.platformVersion);
+  }
+
+  // Brave reports a plain Chrome user agent but its own brand
+  if (agent.browser === 'Chrome' && hints.brands.some(({ brand }) => brand === 'Brave')) {
+    agent.browser = 'Brave';
+  }
+
+  const version = findBrandVersion(hints, agent.browser);
+  if (version) {
+    agent.version = version;
+    agent.browserVersion = parseVersion(version);
+  }
+
+  if (hints.model) {
+    agent.model = hints.model;
+    // Reduced user agents hide the model, Sec-CH-UA-Model still reports it
+    const device = detectDevice(hints.model);
+    agent.device = {
+      vendor: device?.vendor ?? agent.device.vendor,
+      model: device?.model ?? hints.model,
+      type: device && device.type !== 'unknown' ? device.type : agent.device.type,
+    };
+  }
+  if (hints.architecture) agent.architecture = hints.architecture;
+  if (hints.bitness) agent.bitness = hints.bitness;
+
+  if (hints.mobile && !agent.isTablet) {
+    agent.isMobile = true;
+    agent.isDesktop = false;
+  }
+
+  return agent;
+};
@@ -0,0 +1,49 @@
+/**
+ * Device Detection
+ * Matches user agents and Client Hints models against the device database
+ */
+
+import type { DeviceDefinition, DeviceInfo } from '../types';
+import { DEVICE_DEFINITIONS } from '../constants';
+
+/**
+ * Database entry with its compiled pattern
+ */
+interface CompiledDevice {
+  regexp: RegExp;
+  definition: DeviceDefinition;
+}
+
+const devices: readonly CompiledDevice[] = DEVICE_DEFINITIONS.map((definition) => ({
+  regexp:
+    typeof definition.pattern === 'string'
+      ? new RegExp(definition.pattern, 'i')
+      : definition.pattern,
+  definition,
+}));
+
+/**
+ * Match a user agent or Sec-CH-UA-Model value against the device database
+ * @param source - User agent string or device model
+ * @returns Vendor, model and type of the first matching entry, or null for unknown devices;
+ * type is 'unknown' when the entry leaves the form factor to the user agent flags
+ * @example
+ * detectDevice('Mozilla/5.0 (Linux; Android 14; SM-S918B) ...');
+ * // { vendor: 'Samsung', model: 'Galaxy S23 Ultra', type: 'unknown' }
+ */
+export const detectDevice = (source: string): DeviceInfo | null => {
+  if (!source) return null;
+
+  for (const { regexp, definition } of devices) {
+    const match = regexp.exec(source);
+    if (match) {
+      const captured = (match[1] ?? '').replace(/_/g, ' ').trim();
+      return {
+        vendor: definition.vendor,
+        model: definition.model.replace('$1', captured),
+        type: definition.type ?? 'unknown',
+      };
+    }
+  }
+  return null;
+};
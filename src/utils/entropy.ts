@@ -0,0 +1,122 @@
+/**
+ * Entropy Estimates
+ * Per-component entropy and stability tables and the confidence model built on them
+ */
+
+import type {
+  AgentInfo,
+  ComponentEntropy,
+  EntropyPlatform,
+  EntropyTable,
+  EntropyTableOverrides,
+  FingerprintComponent,
+  FingerprintComponentName,
+} from '../types';
+
+/**
+ * Default entropy table
+ * Estimates based on published browser fingerprinting studies (Panopticlick, AmIUnique)
+ * adjusted for user agent reduction; override them with your own population statistics
+ */
+export const DEFAULT_ENTROPY_TABLE: Readonly<EntropyTable> = {
+  components: {
+    basic: { entropy: 8, stability: 0.8 },
+    canvas: { entropy: 8, stability: 0.85 },
+    webgl: { entropy: 7, stability: 0.9 },
+    webgpu: { entropy: 6, stability: 0.9 },
+    audio: { entropy: 5, stability: 0.85 },
+    fonts: { entropy: 7, stability: 0.95 },
+    voices: { entropy: 5, stability: 0.9 },
+    mediaDevices: { entropy: 3, stability: 0.7 },
+    networkInfo: { entropy: 2, stability: 0.3 },
+    timezone: { entropy: 3, stability: 0.98 },
+    incognito: { entropy: 1, stability: 0.5 },
+    // Automation verdicts are not part of the UUID
+    automation: { entropy: 0, stability: 1 },
+  },
+  platforms: {
+    iPhone: 5,
+    iPad: 6,
+    Android: 9,
+    Windows: 9,
+    macOS: 8,
+    Linux: 11,
+    ChromeOS: 8,
+    other: 8,
+  },
+  // log2 of roughly 8 billion devices
+  targetBits: 33,
+};
+
+/**
+ * Merge entropy table overrides over the defaults
+ * @param overrides - Partial entropy table
+ * @returns Complete entropy table
+ */
+export const resolveEntropyTable = (overrides?: EntropyTableOverrides): EntropyTable => {
+  const components = { ...DEFAULT_ENTROPY_TABLE.components };
+  for (const [name, value] of Object.entries(overrides?.components ?? {})) {
+    const key = name as FingerprintComponentName;
+    components[key] = { ...components[key], ...value };
+  }
+
+  return {
+    components,
+    platforms: { ...DEFAULT_ENTROPY_TABLE.platforms, ...overrides?.platforms },
+    targetBits: overrides?.targetBits ?? DEFAULT_ENTROPY_TABLE.targetBits,
+  };
+};
+
+/**
+ * Get the entropy platform of a parsed user agent
+ * @param agent - Parsed agent info
+ * @returns Entropy platform
+ */
+export const getEntropyPlatform = (agent: AgentInfo): EntropyPlatform => {
+  if (agent.isiPhone || agent.isiPod) return 'iPhone';
+  if (agent.isiPad) return 'iPad';
+  if (agent.isAndroid) return 'Android';
+  if (agent.isWindows) return 'Windows';
+  if (agent.isMac) return 'macOS';
+  if (agent.isChromeOS) return 'ChromeOS';
+  if (agent.isLinux) return 'Linux';
+  return 'other';
+};
+
+/**
+ * Get the entropy estimate of a component
+ * @param name - Component name
+ * @param platform - Entropy platform (only affects the basic component)
+ * @param table - Entropy table (default: DEFAULT_ENTROPY_TABLE)
+ * @returns Entropy and stability estimate
+ */
+export const getComponentEntropy = (
+  name: FingerprintComponentName,
+  platform: EntropyPlatform,
+  table: EntropyTable = DEFAULT_ENTROPY_TABLE
+): ComponentEntropy => {
+  const estimate = table.components[name];
+  return name === 'basic' ? { ...estimate, entropy: table.platforms[platform] } : estimate;
+};
+
+/**
+ * Estimate fingerprint confidence from component entropy and stability
+ * Each successful component contributes its entropy discounted by its stability;
+ * the sum is compared with the bits needed to single out one device
+ * @param components - Components that feed the UUID
+ * @param targetBits - Bits needed to single out one device (default: 33)
+ * @returns Confidence score between 0 and 1
+ */
+export const estimateConfidence = (
+  components: readonly FingerprintComponent[],
+  targetBits: number = DEFAULT_ENTROPY_TABLE.targetBits
+): number => {
+  if (targetBits <= 0) return 0;
+
+  const effectiveBits = components.reduce(
+    (sum, { success, entropy = 0, stability = 1 }) => (success ? sum + entropy * stability : sum),
+    0
+  );
+
+  return Math.min(1, effectiveBits / targetBits);
+};
@@ -12,6 +12,9 @@ interface ExtendedNavigator extends Navigator {
   systemLanguage?: string;
   msMaxTouchPoints?: number;
   deviceMemory?: number;
+  connection?: {
+    saveData?: boolean;
+  };
 }
 
 /**
@@ -147,6 +150,38 @@ export const getDeviceMemory = (): number => {
   return nav?.deviceMemory ?? -1;
 };
 
+/**
+ * Get preferred languages safely
+ * Returns an empty list if not supported
+ */
+export const getLanguages = (): string[] => {
+  const nav = getNavigator();
+  if (nav?.languages && nav.languages.length > 0) {
+    return [...nav.languages];
+  }
+
+  const language = getLanguage();
+  return language === 'unknown' ? [] : [language];
+};
+
+/**
+ * Get device pixel ratio safely
+ * Returns -1 if not supported
+ */
+export const getDevicePixelRatio = (): number => {
+  const win = getWindow();
+  return win?.devicePixelRatio ?? -1;
+};
+
+/**
+ * Get Save-Data (reduced data usage) preference safely
+ * Returns false if not supported
+ */
+export const getSaveData = (): boolean => {
+  const nav = getNavigator() as ExtendedNavigator | undefined;
+  return nav?.connection?.saveData === true;
+};
+
 /**
  * Get max touch points safely
  * Returns number of simultaneous touch points supported
@@ -195,3 +230,35 @@ export const getPdfViewerEnabled = (): boolean | null => {
   // Return directly as it's always present in modern Navigator
   return nav.pdfViewerEnabled;
 };
+
+/**
+ * Check for the Brave browser via navigator.brave.isBrave()
+ * Brave reports a plain Chrome user agent
+ */
+export const isBrave = async (): Promise<boolean> => {
+  const nav = getNavigator() as
+    | (Navigator & { brave?: { isBrave?: () => Promise<boolean> } })
+    | undefined;
+
+  try {
+    return (await nav?.brave?.isBrave?.()) === true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check for the Arc browser via the theme CSS variables it injects
+ * Arc reports a plain Chrome user agent; the variables only exist once the page has loaded
+ */
+export const isArc = (): boolean => {
+  const win = getWindow();
+  if (!win?.getComputedStyle) return false;
+
+  try {
+    const style = win.getComputedStyle(win.document.documentElement);
+    return style.getPropertyValue('--arc-palette-title') !== '';
+  } catch {
+    return false;
+  }
+};
@@ -3,7 +3,15 @@
  * Common operations for hash combining, error handling, and feature detection
  */
 
-import type { FingerprintFeature, FingerprintOptions, FingerprintPreset } from '../types';
+import type {
+  FingerprintComparison,
+  FingerprintComponentName,
+  FingerprintDetails,
+  FingerprintFeature,
+  FingerprintOptions,
+  FingerprintPreset,
+  FingerprintWeights,
+} from '../types';
 import { isBrowser, getNavigator, getWindow } from './environment';
 
 /**
@@ -12,14 +20,52 @@ import { isBrowser, getNavigator, getWindow } from './environment';
 export const DEFAULT_FINGERPRINT_OPTIONS: Readonly<FingerprintOptions> = {
   canvas: false,
   webgl: false,
+  webgpu: false,
   audio: false,
   fonts: false,
+  voices: false,
   mediaDevices: false,
   networkInfo: false,
   timezone: false,
   incognitoDetection: false,
+  automation: false,
+  consistency: false,
   timeout: 5000,
   methodTimeout: 1000,
+  fuzzy: false,
+  includeRawValues: false,
+  excludeRandomized: false,
+} as const;
+
+/**
+ * Components that stay stable across browser upgrades and feed the fuzzy UUID
+ * Canvas, audio and WebGL output changes with rendering engine updates, while media devices,
+ * network info and incognito state change between sessions
+ */
+export const STABLE_COMPONENTS: readonly FingerprintComponentName[] = [
+  'basic',
+  'fonts',
+  'timezone',
+] as const;
+
+/**
+ * Default component weights for fingerprint comparison
+ * Highly identifying, stable components weigh more than volatile ones
+ */
+export const COMPONENT_WEIGHTS: Readonly<Record<FingerprintComponentName, number>> = {
+  basic: 3,
+  canvas: 2,
+  webgl: 3,
+  webgpu: 3,
+  audio: 2,
+  fonts: 3,
+  voices: 2,
+  mediaDevices: 1,
+  networkInfo: 0.5,
+  timezone: 1,
+  incognito: 0.5,
+  // Automation verdicts describe the session, not the device
+  automation: 0,
 } as const;
 
 /**
@@ -30,12 +76,16 @@ export const FINGERPRINT_PRESETS: Readonly<Record<FingerprintPreset, Fingerprint
   minimal: {
     canvas: false,
     webgl: false,
+    webgpu: false,
     audio: false,
     fonts: false,
+    voices: false,
     mediaDevices: false,
     networkInfo: false,
     timezone: false,
     incognitoDetection: false,
+    automation: false,
+    consistency: false,
     timeout: 5000,
     methodTimeout: 1000,
   },
@@ -43,12 +93,16 @@ export const FINGERPRINT_PRESETS: Readonly<Record<FingerprintPreset, Fingerprint
   standard: {
     canvas: true,
     webgl: true,
+    webgpu: false,
     audio: false,
     fonts: false,
+    voices: false,
     mediaDevices: false,
     networkInfo: false,
     timezone: true,
     incognitoDetection: false,
+    automation: false,
+    consistency: false,
     timeout: 5000,
     methodTimeout: 1000,
   },
@@ -56,12 +110,16 @@ export const FINGERPRINT_PRESETS: Readonly<Record<FingerprintPreset, Fingerprint
   comprehensive: {
     canvas: true,
     webgl: true,
+    webgpu: true,
     audio: true,
     fonts: true,
+    voices: true,
     mediaDevices: true,
     networkInfo: true,
     timezone: true,
     incognitoDetection: true,
+    automation: true,
+    consistency: true,
     timeout: 10000,
     methodTimeout: 2000,
   },
@@ -120,6 +178,10 @@ export const isFeatureSupported = (feature: FingerprintFeature): boolean => {
       }
     }
 
+    case 'webgpu': {
+      return !!(nav && 'gpu' in nav);
+    }
+
     case 'audio': {
       return !!(
         win &&
@@ -134,6 +196,10 @@ export const isFeatureSupported = (feature: FingerprintFeature): boolean => {
       return isBrowser() && !!document.createElement;
     }
 
+    case 'voices': {
+      return !!(win && 'speechSynthesis' in win);
+    }
+
     case 'mediaDevices': {
       return !!(nav && nav.mediaDevices && typeof nav.mediaDevices.enumerateDevices === 'function');
     }
@@ -150,6 +216,10 @@ export const isFeatureSupported = (feature: FingerprintFeature): boolean => {
       return !!(nav && 'storage' in nav && typeof nav.storage?.estimate === 'function');
     }
 
+    case 'automation': {
+      return !!nav;
+    }
+
     default:
       return false;
   }
@@ -195,8 +265,52 @@ export const combineHashes = (hashes: (string | null)[], separator = ':'): strin
   return hashes.filter((h): h is string => h !== null && h !== '').join(separator);
 };
 
+/**
+ * Compare two fingerprints component by component
+ * Components missing from both fingerprints are ignored; a component available in only one
+ * of them counts as differing
+ * @param a - First fingerprint
+ * @param b - Second fingerprint
+ * @param weights - Optional weight overrides per component
+ * @returns Weighted similarity score with matching and differing components
+ */
+export const compareFingerprints = (
+  a: FingerprintDetails,
+  b: FingerprintDetails,
+  weights?: FingerprintWeights
+): FingerprintComparison => {
+  const matching: FingerprintComponentName[] = [];
+  const differing: FingerprintComponentName[] = [];
+  let totalWeight = 0;
+  let matchingWeight = 0;
+
+  for (const name of Object.keys(COMPONENT_WEIGHTS) as FingerprintComponentName[]) {
+    const valueA = a.components[name]?.value ?? null;
+    const valueB = b.components[name]?.value ?? null;
+    if (valueA === null && valueB === null) continue;
+
+    // Explicit undefined overrides fall back to the default weight
+    const weight = weights?.[name] ?? COMPONENT_WEIGHTS[name];
+    totalWeight += weight;
+
+    if (valueA === valueB) {
+      matching.push(name);
+      matchingWeight += weight;
+    } else {
+      differing.push(name);
+    }
+  }
+
+  return {
+    score: totalWeight > 0 ? matchingWeight / totalWeight : 0,
+    matching,
+    differing,
+  };
+};
+
 /**
  * Calculate confidence score based on available components
+ * Only counts successful components; getDetailedAsync() uses estimateConfidence() instead
  * @param totalComponents - Total number of components attempted
  * @param successfulComponents - Number of successful components
  * @param weights - Optional weights for different component categories
@@ -0,0 +1,85 @@
+/**
+ * GeoIP utilities
+ * Compares IP-derived geolocation with client-reported signals
+ */
+
+import type { GeoIpInfo, TimezoneMismatch } from '../types';
+
+/**
+ * Get the UTC offset of an IANA timezone at a given moment
+ * @param timeZone - IANA timezone name
+ * @param date - Moment to evaluate (offsets change with daylight saving time)
+ * @returns Offset in minutes east of UTC, or null for unknown timezones
+ */
+export const getTimezoneOffset = (timeZone: string, date: Date = new Date()): number | null => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(date);
+
+    const get = (type: string): number => Number(parts.find((p) => p.type === type)?.value);
+    const asUTC = Date.UTC(
+      get('year'),
+      get('month') - 1,
+      get('day'),
+      get('hour'),
+      get('minute'),
+      get('second')
+    );
+    const seconds = Math.floor(date.getTime() / 1000) * 1000;
+
+    return Math.round((asUTC - seconds) / 60000);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Get the client timezone reported by Intl
+ * @returns IANA timezone name or null
+ */
+const getClientTimezone = (): string | null => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Compare the timezone resolved from the IP address with the client timezone
+ * Timezones are compared by UTC offset so neighbouring zones (e.g. Europe/Riga and
+ * Europe/Vilnius) do not count as a mismatch. A mismatch is a common fraud signal
+ * (VPNs, proxies, remote desktops).
+ * @param geoIp - Geolocation data resolved from the IP address
+ * @param clientTimezone - Client timezone (defaults to the Intl timezone of this environment)
+ * @param date - Moment to compare offsets at
+ * @returns Comparison result, or null if either timezone is unknown
+ */
+export const detectTimezoneMismatch = (
+  geoIp: GeoIpInfo,
+  clientTimezone?: string,
+  date: Date = new Date()
+): TimezoneMismatch | null => {
+  const ipTimezone = geoIp.timezone;
+  const client = clientTimezone ?? getClientTimezone();
+  if (!ipTimezone || !client) return null;
+
+  const ipOffset = getTimezoneOffset(ipTimezone, date);
+  const clientOffset = getTimezoneOffset(client, date);
+  if (ipOffset === null || clientOffset === null) return null;
+
+  return {
+    mismatch: ipOffset !== clientOffset,
+    ipTimezone,
+    clientTimezone: client,
+    offsetDifference: clientOffset - ipOffset,
+  };
+};
@@ -0,0 +1,526 @@
+/**
+ * Hash Algorithms
+ * SHA-256, MurmurHash3 and xxHash64 implementations alongside MD5 for identifier generation
+ */
+
+import type { HashAlgorithm } from '../types';
+import { hashMD5 } from './md5';
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+const toBytes = (str: string): Uint8Array<ArrayBuffer> => new TextEncoder().encode(str);
+
+/**
+ * Convert a 32-bit unsigned integer to an 8 character hex string
+ */
+const toHex32 = (value: number): string => (value >>> 0).toString(16).padStart(8, '0');
+
+/**
+ * SHA-256 round constants
+ */
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Calculate the SHA-256 hash of a string or byte array (pure TypeScript, synchronous)
+ * @param input - Input string (UTF-8 encoded) or bytes
+ * @returns 64 character hex hash string
+ */
+export const hashSHA256Sync = (input: string | Uint8Array): string => {
+  const bytes = typeof input === 'string' ? toBytes(input) : input;
+  const bitLength = bytes.length * 8;
+
+  // Pad message: 0x80, zeros, 64-bit big-endian length
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number): number => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + SHA256_K[i] + w[i]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  return Array.from(hash, toHex32).join('');
+};
+
+/**
+ * Calculate the SHA-1 hash of a string or byte array (pure TypeScript)
+ * Only used for name-based UUIDv5, which RFC 9562 defines over SHA-1
+ * @param input - Input string (UTF-8 encoded) or bytes
+ * @returns 40 character hex hash string
+ */
+export const hashSHA1 = (input: string | Uint8Array): string => {
+  const bytes = typeof input === 'string' ? toBytes(input) : input;
+  const bitLength = bytes.length * 8;
+
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  const w = new Uint32Array(80);
+  const rotl = (x: number, n: number): number => (x << n) | (x >>> (32 - n));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    }
+
+    let [a, b, c, d, e] = hash;
+
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const temp = (rotl(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = temp;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+  }
+
+  return Array.from(hash, toHex32).join('');
+};
+
+/**
+ * Get the SubtleCrypto implementation if available (secure contexts and Node.js 15+)
+ */
+const getSubtle = (): SubtleCrypto | null => {
+  try {
+    return typeof crypto !== 'undefined' && crypto.subtle ? crypto.subtle : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Calculate the SHA-256 hash of a string
+ * Uses SubtleCrypto where available and falls back to the pure TypeScript implementation
+ * @param str - Input string to hash
+ * @returns Promise resolving to a 64 character hex hash string
+ */
+export const hashSHA256 = async (str: string): Promise<string> => {
+  const subtle = getSubtle();
+  if (subtle) {
+    try {
+      const digest = await subtle.digest('SHA-256', toBytes(str));
+      return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+    } catch {
+      // Fall through to the pure implementation
+    }
+  }
+  return hashSHA256Sync(str);
+};
+
+/**
+ * SHA-256 block size in bytes
+ */
+const SHA256_BLOCK_SIZE = 64;
+
+/**
+ * Convert a hex string to bytes
+ */
+const hexToBytes = (hex: string): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * Calculate the raw SHA-256 digest of a byte array
+ */
+const sha256Bytes = (bytes: Uint8Array): Uint8Array<ArrayBuffer> => {
+  return hexToBytes(hashSHA256Sync(bytes));
+};
+
+/**
+ * Calculate the HMAC-SHA256 of a message (pure TypeScript, synchronous)
+ * @param key - Secret key
+ * @param message - Message to authenticate
+ * @returns 64 character hex HMAC string
+ */
+export const hmacSHA256Sync = (key: string, message: string): string => {
+  let keyBytes: Uint8Array = toBytes(key);
+  if (keyBytes.length > SHA256_BLOCK_SIZE) {
+    keyBytes = sha256Bytes(keyBytes);
+  }
+
+  const inner = new Uint8Array(SHA256_BLOCK_SIZE);
+  const outer = new Uint8Array(SHA256_BLOCK_SIZE);
+  for (let i = 0; i < SHA256_BLOCK_SIZE; i++) {
+    const byte = keyBytes[i] ?? 0;
+    inner[i] = byte ^ 0x36;
+    outer[i] = byte ^ 0x5c;
+  }
+
+  const messageBytes = toBytes(message);
+  const innerData = new Uint8Array(SHA256_BLOCK_SIZE + messageBytes.length);
+  innerData.set(inner);
+  innerData.set(messageBytes, SHA256_BLOCK_SIZE);
+
+  const innerHash = sha256Bytes(innerData);
+  const outerData = new Uint8Array(SHA256_BLOCK_SIZE + innerHash.length);
+  outerData.set(outer);
+  outerData.set(innerHash, SHA256_BLOCK_SIZE);
+
+  return hashSHA256Sync(outerData);
+};
+
+/**
+ * Calculate the HMAC-SHA256 of a message
+ * Uses SubtleCrypto where available and falls back to the pure TypeScript implementation
+ * @param key - Secret key
+ * @param message - Message to authenticate
+ * @returns Promise resolving to a 64 character hex HMAC string
+ */
+export const hmacSHA256 = async (key: string, message: string): Promise<string> => {
+  const subtle = getSubtle();
+  if (subtle) {
+    try {
+      const cryptoKey = await subtle.importKey(
+        'raw',
+        toBytes(key),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+      const signature = await subtle.sign('HMAC', cryptoKey, toBytes(message));
+      return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+    } catch {
+      // Fall through to the pure implementation
+    }
+  }
+  return hmacSHA256Sync(key, message);
+};
+
+/**
+ * MurmurHash3 32-bit finalization mix
+ */
+const fmix32 = (h: number): number => {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h;
+};
+
+/**
+ * Rotate a 32-bit integer left
+ */
+const rotl32 = (x: number, r: number): number => (x << r) | (x >>> (32 - r));
+
+/**
+ * Calculate the MurmurHash3 (x86, 128-bit) hash of a string
+ * Fast non-cryptographic hash, suitable when collision resistance against attackers is not needed
+ * @param str - Input string to hash
+ * @param seed - Optional 32-bit seed
+ * @returns 32 character hex hash string
+ */
+export const hashMurmur3 = (str: string, seed = 0): string => {
+  const bytes = toBytes(str);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const length = bytes.length;
+  const blocks = length - (length % 16);
+
+  const c1 = 0x239b961b;
+  const c2 = 0xab0e9789;
+  const c3 = 0x38b34ae5;
+  const c4 = 0xa1e38b93;
+
+  let h1 = seed >>> 0;
+  let h2 = h1;
+  let h3 = h1;
+  let h4 = h1;
+
+  for (let i = 0; i < blocks; i += 16) {
+    let k1 = view.getUint32(i, true);
+    let k2 = view.getUint32(i + 4, true);
+    let k3 = view.getUint32(i + 8, true);
+    let k4 = view.getUint32(i + 12, true);
+
+    k1 = Math.imul(rotl32(Math.imul(k1, c1), 15), c2);
+    h1 ^= k1;
+    h1 = rotl32(h1, 19) + h2;
+    h1 = (Math.imul(h1, 5) + 0x561ccd1b) | 0;
+
+    k2 = Math.imul(rotl32(Math.imul(k2, c2), 16), c3);
+    h2 ^= k2;
+    h2 = rotl32(h2, 17) + h3;
+    h2 = (Math.imul(h2, 5) + 0x0bcaa747) | 0;
+
+    k3 = Math.imul(rotl32(Math.imul(k3, c3), 17), c4);
+    h3 ^= k3;
+    h3 = rotl32(h3, 15) + h4;
+    h3 = (Math.imul(h3, 5) + 0x96cd1c35) | 0;
+
+    k4 = Math.imul(rotl32(Math.imul(k4, c4), 18), c1);
+    h4 ^= k4;
+    h4 = rotl32(h4, 13) + h1;
+    h4 = (Math.imul(h4, 5) + 0x32ac3b17) | 0;
+  }
+
+  // Tail: fold the remaining 1-15 bytes into k1..k4
+  const tail = [0, 0, 0, 0];
+  for (let i = length - 1; i >= blocks; i--) {
+    const index = i - blocks;
+    tail[index >> 2] ^= bytes[i] << ((index & 3) * 8);
+  }
+  const [t1, t2, t3, t4] = tail;
+  const remaining = length - blocks;
+
+  if (remaining > 12) {
+    h4 ^= Math.imul(rotl32(Math.imul(t4, c4), 18), c1);
+  }
+  if (remaining > 8) {
+    h3 ^= Math.imul(rotl32(Math.imul(t3, c3), 17), c4);
+  }
+  if (remaining > 4) {
+    h2 ^= Math.imul(rotl32(Math.imul(t2, c2), 16), c3);
+  }
+  if (remaining > 0) {
+    h1 ^= Math.imul(rotl32(Math.imul(t1, c1), 15), c2);
+  }
+
+  h1 ^= length;
+  h2 ^= length;
+  h3 ^= length;
+  h4 ^= length;
+
+  h1 = (h1 + h2 + h3 + h4) | 0;
+  h2 = (h2 + h1) | 0;
+  h3 = (h3 + h1) | 0;
+  h4 = (h4 + h1) | 0;
+
+  h1 = fmix32(h1);
+  h2 = fmix32(h2);
+  h3 = fmix32(h3);
+  h4 = fmix32(h4);
+
+  h1 = (h1 + h2 + h3 + h4) | 0;
+  h2 = (h2 + h1) | 0;
+  h3 = (h3 + h1) | 0;
+  h4 = (h4 + h1) | 0;
+
+  return toHex32(h1) + toHex32(h2) + toHex32(h3) + toHex32(h4);
+};
+
+/**
+ * xxHash64 constants
+ */
+const MASK_64 = BigInt('0xffffffffffffffff');
+const XXH_PRIME64_1 = BigInt('11400714785074694791');
+const XXH_PRIME64_2 = BigInt('14029467366897019727');
+const XXH_PRIME64_3 = BigInt('1609587929392839161');
+const XXH_PRIME64_4 = BigInt('9650029242287828579');
+const XXH_PRIME64_5 = BigInt('2870177450012600261');
+
+/**
+ * Rotate a 64-bit integer left
+ */
+const rotl64 = (x: bigint, r: number): bigint => {
+  const shift = BigInt(r);
+  return ((x << shift) | (x >> (BigInt(64) - shift))) & MASK_64;
+};
+
+/**
+ * xxHash64 accumulator round
+ */
+const xxhRound = (acc: bigint, lane: bigint): bigint => {
+  acc = (acc + lane * XXH_PRIME64_2) & MASK_64;
+  acc = rotl64(acc, 31);
+  return (acc * XXH_PRIME64_1) & MASK_64;
+};
+
+/**
+ * xxHash64 accumulator merge
+ */
+const xxhMergeRound = (acc: bigint, value: bigint): bigint => {
+  acc ^= xxhRound(BigInt(0), value);
+  return (acc * XXH_PRIME64_1 + XXH_PRIME64_4) & MASK_64;
+};
+
+/**
+ * Calculate the xxHash64 hash of a string
+ * Fast non-cryptographic hash, suitable when collision resistance against attackers is not needed
+ * @param str - Input string to hash
+ * @param seed - Optional seed
+ * @returns 16 character hex hash string
+ */
+export const hashXX64 = (str: string, seed = 0): string => {
+  const bytes = toBytes(str);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const length = bytes.length;
+  const seedBig = BigInt(seed) & MASK_64;
+  let offset = 0;
+  let h: bigint;
+
+  if (length >= 32) {
+    let v1 = (seedBig + XXH_PRIME64_1 + XXH_PRIME64_2) & MASK_64;
+    let v2 = (seedBig + XXH_PRIME64_2) & MASK_64;
+    let v3 = seedBig;
+    let v4 = (seedBig - XXH_PRIME64_1) & MASK_64;
+
+    for (; offset <= length - 32; offset += 32) {
+      v1 = xxhRound(v1, view.getBigUint64(offset, true));
+      v2 = xxhRound(v2, view.getBigUint64(offset + 8, true));
+      v3 = xxhRound(v3, view.getBigUint64(offset + 16, true));
+      v4 = xxhRound(v4, view.getBigUint64(offset + 24, true));
+    }
+
+    h = (rotl64(v1, 1) + rotl64(v2, 7) + rotl64(v3, 12) + rotl64(v4, 18)) & MASK_64;
+    h = xxhMergeRound(h, v1);
+    h = xxhMergeRound(h, v2);
+    h = xxhMergeRound(h, v3);
+    h = xxhMergeRound(h, v4);
+  } else {
+    h = (seedBig + XXH_PRIME64_5) & MASK_64;
+  }
+
+  h = (h + BigInt(length)) & MASK_64;
+
+  for (; offset + 8 <= length; offset += 8) {
+    h ^= xxhRound(BigInt(0), view.getBigUint64(offset, true));
+    h = (rotl64(h, 27) * XXH_PRIME64_1 + XXH_PRIME64_4) & MASK_64;
+  }
+
+  if (offset + 4 <= length) {
+    h ^= (BigInt(view.getUint32(offset, true)) * XXH_PRIME64_1) & MASK_64;
+    h = (rotl64(h, 23) * XXH_PRIME64_2 + XXH_PRIME64_3) & MASK_64;
+    offset += 4;
+  }
+
+  for (; offset < length; offset++) {
+    h ^= (BigInt(bytes[offset]) * XXH_PRIME64_5) & MASK_64;
+    h = (rotl64(h, 11) * XXH_PRIME64_1) & MASK_64;
+  }
+
+  h ^= h >> BigInt(33);
+  h = (h * XXH_PRIME64_2) & MASK_64;
+  h ^= h >> BigInt(29);
+  h = (h * XXH_PRIME64_3) & MASK_64;
+  h ^= h >> BigInt(32);
+
+  return h.toString(16).padStart(16, '0');
+};
+
+/**
+ * Calculate a 128-bit digest for identifier generation
+ * MD5 and MurmurHash3 produce 128 bits natively, SHA-256 is truncated to 128 bits and
+ * xxHash64 is run with seeds 0 and 1
+ * @param str - Input string to hash
+ * @param algorithm - Hash algorithm (default: 'md5')
+ * @returns 32 character hex digest
+ */
+export const getDigest = (str: string, algorithm: HashAlgorithm = 'md5'): string => {
+  switch (algorithm) {
+    case 'sha256':
+      return hashSHA256Sync(str).slice(0, 32);
+    case 'murmur3':
+      return hashMurmur3(str);
+    case 'xx64':
+      return hashXX64(str, 0) + hashXX64(str, 1);
+    default:
+      return hashMD5(str);
+  }
+};
+
+/**
+ * Calculate a 128-bit digest for identifier generation, using SubtleCrypto for SHA-256
+ * @param str - Input string to hash
+ * @param algorithm - Hash algorithm (default: 'md5')
+ * @returns Promise resolving to a 32 character hex digest (same value as getDigest)
+ */
+export const getDigestAsync = async (
+  str: string,
+  algorithm: HashAlgorithm = 'md5'
+): Promise<string> => {
+  if (algorithm === 'sha256') {
+    return (await hashSHA256(str)).slice(0, 32);
+  }
+  return getDigest(str, algorithm);
+};
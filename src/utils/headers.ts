@@ -0,0 +1,112 @@
+/**
+ * HTTP request header utilities
+ * Reads device information from request headers for server-side parsing
+ */
+
+import type { HeadersLike } from '../types';
+
+/**
+ * Device information derived from request headers
+ */
+export interface HeaderDeviceInfo {
+  /** User agent string */
+  userAgent: string;
+  /** Preferred languages ordered by quality value */
+  languages: string[];
+  /** Viewport size in CSS pixels, [0, 0] when not sent */
+  viewport: [number, number];
+  /** Device pixel ratio or -1 when not sent */
+  devicePixelRatio: number;
+  /** Approximate device memory in GB or -1 when not sent */
+  deviceMemory: number;
+  /** Whether the client requested reduced data usage */
+  saveData: boolean;
+}
+
+/**
+ * Read a single header value from a plain record or a Fetch API Headers object
+ * @param headers - Request headers
+ * @param name - Header name (case-insensitive)
+ * @returns Header value or undefined
+ */
+export const getHeader = (headers: HeadersLike, name: string): string | undefined => {
+  if (typeof headers.get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+  }
+
+  const record = headers as Record<string, unknown>;
+  const lower = name.toLowerCase();
+  for (const key of Object.keys(record)) {
+    if (key.toLowerCase() === lower) {
+      const value = record[key];
+      if (Array.isArray(value)) return value.join(', ');
+      return typeof value === 'string' ? value : undefined;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Read the first header that is present from a list of alternative names
+ */
+const getFirstHeader = (headers: HeadersLike, names: string[]): string | undefined => {
+  for (const name of names) {
+    const value = getHeader(headers, name);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+/**
+ * Parse a numeric header value
+ */
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const num = parseFloat(value);
+  return isNaN(num) ? fallback : num;
+};
+
+/**
+ * Parse an Accept-Language header into a list of languages ordered by preference
+ * @param value - Accept-Language header value
+ * @returns Languages ordered by quality value (wildcards are dropped)
+ */
+export const parseAcceptLanguage = (value: string | undefined): string[] => {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      return { tag: tag.trim(), q: q ? parseFloat(q.slice(2)) : 1, index };
+    })
+    .filter((entry) => entry.tag !== '' && entry.tag !== '*' && !isNaN(entry.q) && entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map((entry) => entry.tag);
+};
+
+/**
+ * Collect device information from request headers
+ * @param headers - Request headers
+ * @returns Device information derived from the headers
+ */
+export const getHeaderDeviceInfo = (headers: HeadersLike): HeaderDeviceInfo => {
+  const width = parseNumber(
+    getFirstHeader(headers, ['Sec-CH-Viewport-Width', 'Viewport-Width']),
+    0
+  );
+  const height = parseNumber(getHeader(headers, 'Sec-CH-Viewport-Height'), 0);
+
+  return {
+    userAgent: (getHeader(headers, 'User-Agent') ?? '').trim(),
+    languages: parseAcceptLanguage(getHeader(headers, 'Accept-Language')),
+    viewport: [width, height],
+    devicePixelRatio: parseNumber(getFirstHeader(headers, ['Sec-CH-DPR', 'DPR']), -1),
+    deviceMemory: parseNumber(
+      getFirstHeader(headers, ['Sec-CH-Device-Memory', 'Device-Memory']),
+      -1
+    ),
+    saveData: getHeader(headers, 'Save-Data')?.trim().toLowerCase() === 'on',
+  };
+};
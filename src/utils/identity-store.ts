@@ -0,0 +1,382 @@
+/**
+ * Identity Store
+ * Persists the first computed fingerprint and reconciles later fingerprints with it
+ */
+
+import type {
+  FingerprintComponentName,
+  FingerprintDetails,
+  IdentityResult,
+  IdentityStorageType,
+  IdentityStoreOptions,
+  StoredIdentity,
+} from '../types';
+import { getWindow } from './environment';
+import { compareFingerprints, withTimeout } from './fingerprint';
+
+/**
+ * Key/value storage mechanism used by the identity store
+ */
+interface IdentityStorage {
+  type: IdentityStorageType;
+  /** Store only the ID and the component values reconcile() compares */
+  compact?: boolean;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<boolean>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Persistent identity store
+ */
+export interface IdentityStore {
+  /** Load the stored identity from the first storage that has one */
+  load(): Promise<StoredIdentity | null>;
+  /** Save an identity to the first writable storage */
+  save(identity: StoredIdentity): Promise<IdentityStorageType | null>;
+  /** Remove the identity from all storages */
+  clear(): Promise<void>;
+  /** Reconcile a fresh fingerprint with the stored identity */
+  reconcile(details: FingerprintDetails): Promise<IdentityResult>;
+}
+
+/**
+ * Default storage cascade
+ */
+export const DEFAULT_IDENTITY_STORAGES: readonly IdentityStorageType[] = [
+  'localStorage',
+  'indexedDB',
+  'cookie',
+] as const;
+
+const DEFAULT_KEY = 'device-uuid';
+const DEFAULT_THRESHOLD = 0.75;
+const DEFAULT_COOKIE_DAYS = 365;
+const DEFAULT_TIMEOUT = 1000;
+const OBJECT_STORE_NAME = 'identity';
+
+/**
+ * Create a localStorage backed storage
+ */
+const createLocalStorage = (): IdentityStorage => ({
+  type: 'localStorage',
+  async get(key) {
+    try {
+      return getWindow()?.localStorage.getItem(key) ?? null;
+    } catch {
+      return null;
+    }
+  },
+  async set(key, value) {
+    try {
+      const storage = getWindow()?.localStorage;
+      if (!storage) return false;
+      storage.setItem(key, value);
+      return true;
+    } catch {
+      // Storage blocked or quota exceeded
+      return false;
+    }
+  },
+  async remove(key) {
+    try {
+      getWindow()?.localStorage.removeItem(key);
+    } catch {
+      // Storage blocked
+    }
+  },
+});
+
+/**
+ * Create an IndexedDB backed storage
+ * @param timeout - Timeout for each operation in milliseconds
+ */
+const createIndexedDBStorage = (timeout: number): IdentityStorage => {
+  /**
+   * Open the database, creating it only to store an identity
+   * Aborting the upgrade of a new database deletes it, so reads and removals on devices that
+   * never wrote to IndexedDB do not leave an empty database behind
+   */
+  const open = (name: string, create: boolean): Promise<IDBDatabase | null> => {
+    return new Promise((resolve) => {
+      try {
+        const factory = getWindow()?.indexedDB;
+        if (!factory) {
+          resolve(null);
+          return;
+        }
+        const request = factory.open(name, 1);
+        request.onupgradeneeded = () => {
+          if (create) {
+            request.result.createObjectStore(OBJECT_STORE_NAME);
+          } else {
+            request.transaction?.abort();
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      } catch {
+        // IndexedDB disabled (e.g. Firefox private mode in older versions)
+        resolve(null);
+      }
+    });
+  };
+
+  const run = async <T>(
+    name: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+    create = false
+  ): Promise<{ value: T } | null> => {
+    const db = await withTimeout(open(name, create), timeout, null);
+    if (!db) return null;
+
+    const request = new Promise<{ value: T } | null>((resolve) => {
+      try {
+        const req = operation(
+          db.transaction(OBJECT_STORE_NAME, mode).objectStore(OBJECT_STORE_NAME)
+        );
+        req.onsuccess = () => resolve({ value: req.result });
+        req.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+
+    try {
+      return await withTimeout(request, timeout, null);
+    } finally {
+      db.close();
+    }
+  };
+
+  return {
+    type: 'indexedDB',
+    async get(key) {
+      const result = await run(key, 'readonly', (store) => store.get(key));
+      return typeof result?.value === 'string' ? result.value : null;
+    },
+    async set(key, value) {
+      return (await run(key, 'readwrite', (store) => store.put(value, key), true)) !== null;
+    },
+    async remove(key) {
+      await run(key, 'readwrite', (store) => store.delete(key));
+    },
+  };
+};
+
+/**
+ * Identity persisted in cookies
+ * Cookies are limited to about 4KB and sent with every request, so they hold only the ID,
+ * the timestamps and the non-null component values
+ */
+interface CompactIdentity {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  values: Partial<Record<FingerprintComponentName, string>>;
+}
+
+/**
+ * Create a first-party cookie backed storage
+ * @param days - Cookie lifetime in days
+ */
+const createCookieStorage = (days: number): IdentityStorage => {
+  const write = (key: string, value: string, expires: Date): void => {
+    const win = getWindow();
+    if (!win) return;
+    const secure = win.location?.protocol === 'https:' ? '; Secure' : '';
+    win.document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; expires=${expires.toUTCString()}; path=/; SameSite=Lax${secure}`;
+  };
+
+  const read = (key: string): string | null => {
+    const name = `${encodeURIComponent(key)}=`;
+    const cookie = getWindow()
+      ?.document.cookie.split(';')
+      .map((part) => part.trim())
+      .find((part) => part.startsWith(name));
+    return cookie ? decodeURIComponent(cookie.slice(name.length)) : null;
+  };
+
+  return {
+    type: 'cookie',
+    compact: true,
+    async get(key) {
+      try {
+        return read(key);
+      } catch {
+        return null;
+      }
+    },
+    async set(key, value) {
+      try {
+        write(key, value, new Date(Date.now() + days * 86400000));
+        // Cookies can be silently rejected, so verify the write
+        return read(key) === value;
+      } catch {
+        return false;
+      }
+    },
+    async remove(key) {
+      try {
+        write(key, '', new Date(0));
+      } catch {
+        // Cookies blocked
+      }
+    },
+  };
+};
+
+/**
+ * Drop raw component values so they are never persisted
+ */
+const withoutRawValues = (identity: StoredIdentity): StoredIdentity => {
+  const components = Object.fromEntries(
+    Object.entries(identity.details.components).map(([name, component]) => {
+      const stripped = { ...component };
+      delete stripped.raw;
+      return [name, stripped];
+    })
+  ) as FingerprintDetails['components'];
+
+  return { ...identity, details: { ...identity.details, components } };
+};
+
+/**
+ * Reduce an identity to what reconcile() needs
+ */
+const toCompactIdentity = ({
+  id,
+  details,
+  createdAt,
+  updatedAt,
+}: StoredIdentity): CompactIdentity => {
+  const values: CompactIdentity['values'] = {};
+  for (const [name, component] of Object.entries(details.components)) {
+    // Components missing from a fingerprint compare like null values
+    if (component?.value != null) {
+      values[name as FingerprintComponentName] = component.value;
+    }
+  }
+  return { id, createdAt, updatedAt, values };
+};
+
+/**
+ * Rebuild a stored identity from its compact form
+ * Only component values are restored; other fingerprint details are not persisted
+ */
+const fromCompactIdentity = ({
+  id,
+  createdAt,
+  updatedAt,
+  values,
+}: CompactIdentity): StoredIdentity => {
+  const components = Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [name, { name, value, success: true }])
+  ) as Partial<FingerprintDetails['components']>;
+
+  return {
+    id,
+    details: {
+      uuid: id,
+      components: { basic: { name: 'basic', value: null, success: false }, ...components },
+      confidence: 0,
+      duration: 0,
+      timestamp: updatedAt,
+    },
+    createdAt,
+    updatedAt,
+  };
+};
+
+/**
+ * Parse and validate a stored identity (full or compact)
+ */
+const parseIdentity = (value: string | null): StoredIdentity | null => {
+  if (!value) return null;
+  try {
+    const identity = JSON.parse(value) as StoredIdentity | CompactIdentity;
+    if (typeof identity?.id !== 'string') return null;
+    if ('values' in identity && typeof identity.values === 'object' && identity.values) {
+      return fromCompactIdentity(identity);
+    }
+    return 'details' in identity && identity.details?.components ? identity : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Create a persistent identity store
+ * Identities are written to the first writable storage of the cascade
+ * (localStorage → IndexedDB → first-party cookie); blocked storages are skipped silently
+ * @param options - Identity store options
+ * @returns Identity store
+ * @example
+ * const store = createIdentityStore();
+ * const { id, status } = await store.reconcile(await device.getDetailedAsync('standard'));
+ */
+export const createIdentityStore = (options: IdentityStoreOptions = {}): IdentityStore => {
+  const key = options.key ?? DEFAULT_KEY;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const storages = (options.storages ?? DEFAULT_IDENTITY_STORAGES).map((type) => {
+    switch (type) {
+      case 'indexedDB':
+        return createIndexedDBStorage(options.timeout ?? DEFAULT_TIMEOUT);
+      case 'cookie':
+        return createCookieStorage(options.cookieDays ?? DEFAULT_COOKIE_DAYS);
+      default:
+        return createLocalStorage();
+    }
+  });
+
+  const load = async (): Promise<StoredIdentity | null> => {
+    for (const storage of storages) {
+      const identity = parseIdentity(await storage.get(key));
+      if (identity) return identity;
+    }
+    return null;
+  };
+
+  const save = async (identity: StoredIdentity): Promise<IdentityStorageType | null> => {
+    const full = JSON.stringify(withoutRawValues(identity));
+    const compact = JSON.stringify(toCompactIdentity(identity));
+
+    for (let i = 0; i < storages.length; i++) {
+      if (await storages[i].set(key, storages[i].compact ? compact : full)) {
+        // Drop stale copies further down the cascade
+        await Promise.all(storages.slice(i + 1).map((storage) => storage.remove(key)));
+        return storages[i].type;
+      }
+    }
+    return null;
+  };
+
+  const clear = async (): Promise<void> => {
+    await Promise.all(storages.map((storage) => storage.remove(key)));
+  };
+
+  const reconcile = async (details: FingerprintDetails): Promise<IdentityResult> => {
+    const stored = await load();
+    const now = Date.now();
+
+    if (!stored) {
+      const storage = await save({ id: details.uuid, details, createdAt: now, updatedAt: now });
+      return { id: details.uuid, status: 'created', comparison: null, storage, details };
+    }
+
+    const comparison = compareFingerprints(stored.details, details);
+
+    if (comparison.score >= threshold) {
+      // Keep the stored ID but track the latest fingerprint so gradual drift stays matched
+      const storage = await save({ ...stored, details, updatedAt: now });
+      return { id: stored.id, status: 'matched', comparison, storage, details };
+    }
+
+    const storage = await save({ id: details.uuid, details, createdAt: now, updatedAt: now });
+    return { id: details.uuid, status: 'replaced', comparison, storage, details };
+  };
+
+  return { load, save, clear, reconcile };
+};
@@ -0,0 +1,74 @@
+/**
+ * Bounded least-recently-used cache
+ * Used to memoize parse results keyed by user agent
+ */
+
+/**
+ * LRU cache backed by Map insertion order
+ */
+export class LRUCache<K, V> {
+  private readonly entries = new Map<K, V>();
+  private readonly maxSize: number;
+
+  /**
+   * Create a new LRU cache
+   * @param maxSize - Maximum number of entries (0 disables caching)
+   */
+  constructor(maxSize: number) {
+    this.maxSize = Math.max(0, Math.floor(maxSize));
+  }
+
+  /**
+   * Get a cached value and mark it as recently used
+   * @param key - Cache key
+   * @returns Cached value or undefined
+   */
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+
+    const value = this.entries.get(key) as V;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entry when full
+   * @param key - Cache key
+   * @param value - Value to store
+   */
+  set(key: K, value: V): void {
+    if (this.maxSize === 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Check if a key is cached without changing its recency
+   * @param key - Cache key
+   * @returns Whether the key is cached
+   */
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of cached entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
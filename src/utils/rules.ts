@@ -0,0 +1,90 @@
+/**
+ * Detection Rules
+ * Compiles built-in and custom browser, OS and platform rules into ordered rule sets
+ */
+
+import type { DetectionRule, DetectionRuleKind } from '../types';
+import { DETECTION_RULES } from '../constants';
+
+/**
+ * Detection rule with its compiled pattern
+ */
+export interface CompiledRule {
+  regexp: RegExp;
+  /** Generic `<name>/<version>` pattern for browser rules without a version extractor match */
+  fallbackVersion: RegExp | null;
+  rule: DetectionRule;
+}
+
+/**
+ * Compiled rules grouped by kind, each in priority order
+ */
+export type RuleSet = Readonly<Record<DetectionRuleKind, readonly CompiledRule[]>>;
+
+/**
+ * Compile the generic `<name>/<version>` pattern for a browser name
+ */
+const compileFallbackVersion = (name: string): RegExp => {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`${escaped}[\\/ ]([\\d\\w.\\-]+)`, 'i');
+};
+
+const compileRules = (rules: readonly DetectionRule[]): RuleSet => {
+  const compiled = rules.map((rule) => ({
+    regexp: typeof rule.pattern === 'string' ? new RegExp(rule.pattern, 'i') : rule.pattern,
+    fallbackVersion: rule.kind === 'browser' ? compileFallbackVersion(rule.name) : null,
+    rule,
+  }));
+  // Array.prototype.sort is stable, so earlier rules (custom before built-in) win ties
+  compiled.sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0));
+
+  return {
+    browser: compiled.filter(({ rule }) => rule.kind === 'browser'),
+    os: compiled.filter(({ rule }) => rule.kind === 'os'),
+    platform: compiled.filter(({ rule }) => rule.kind === 'platform'),
+  };
+};
+
+const defaultRuleSet = compileRules(DETECTION_RULES);
+const customRuleSets = new WeakMap<readonly DetectionRule[], RuleSet>();
+
+/**
+ * Get the compiled rule set for a list of custom rules
+ * @param customRules - Custom rules checked alongside the built-in rules
+ * @returns Compiled rule set, cached per custom rules array
+ */
+export const getRuleSet = (customRules?: readonly DetectionRule[]): RuleSet => {
+  if (!customRules || customRules.length === 0) return defaultRuleSet;
+
+  let ruleSet = customRuleSets.get(customRules);
+  if (!ruleSet) {
+    ruleSet = compileRules([...customRules, ...DETECTION_RULES]);
+    customRuleSets.set(customRules, ruleSet);
+  }
+  return ruleSet;
+};
+
+/**
+ * Find the first rule matching a user agent
+ * @param rules - Compiled rules of one kind
+ * @param source - User agent string
+ * @returns Matching compiled rule or null
+ */
+export const findRule = (rules: readonly CompiledRule[], source: string): CompiledRule | null =>
+  rules.find(({ regexp }) => regexp.test(source)) ?? null;
+
+/**
+ * Extract the browser version using a rule's version extractor
+ * @param rule - Matched browser rule
+ * @param source - User agent string
+ * @returns Version or null if the rule has no extractor or it does not match
+ */
+export const extractVersion = (rule: DetectionRule, source: string): string | null => {
+  if (!rule.version) return null;
+  if (typeof rule.version === 'function') {
+    return rule.version(source) || null;
+  }
+
+  const match = rule.version.exec(source);
+  return match?.slice(1).find((group) => !!group) ?? null;
+};
@@ -0,0 +1,243 @@
+/**
+ * Browser Support Policy
+ * Checks parsed agents against browserslist-style queries or minimum version maps
+ */
+
+import type { AgentInfo, ParsedVersion, SupportPolicy, SupportResult } from '../types';
+import { satisfiesVersion } from './version';
+
+/**
+ * Browsers a browserslist name refers to
+ */
+interface BrowserTarget {
+  /** AgentInfo.browser value, or null for any browser on the platform */
+  browser: string | null;
+  /** Restrict to a mobile platform, or to desktops (neither iOS nor Android) */
+  platform?: 'android' | 'ios' | 'desktop';
+}
+
+/**
+ * Compiled policy query
+ */
+interface PolicyEntry {
+  query: string;
+  exclude: boolean;
+  target: BrowserTarget;
+  range: string;
+}
+
+/**
+ * Support checker bound to a compiled policy
+ */
+export type SupportChecker = (agent: AgentInfo) => SupportResult;
+
+/**
+ * Browserslist browser names; other names are matched against AgentInfo.browser
+ * iOS Safari is versioned by iOS and covers every iOS browser, all of which use WebKit;
+ * safari is desktop Safari only
+ */
+const BROWSERSLIST_NAMES: Readonly<Record<string, BrowserTarget>> = {
+  chrome: { browser: 'Chrome' },
+  and_chr: { browser: 'Chrome', platform: 'android' },
+  chromeandroid: { browser: 'Chrome', platform: 'android' },
+  firefox: { browser: 'Firefox' },
+  ff: { browser: 'Firefox' },
+  and_ff: { browser: 'Firefox', platform: 'android' },
+  firefoxandroid: { browser: 'Firefox', platform: 'android' },
+  safari: { browser: 'Safari', platform: 'desktop' },
+  ios_saf: { browser: null, platform: 'ios' },
+  ios: { browser: null, platform: 'ios' },
+  edge: { browser: 'Edge' },
+  opera: { browser: 'Opera' },
+  op_mob: { browser: 'Opera', platform: 'android' },
+  samsung: { browser: 'Samsung Internet' },
+  ie: { browser: 'IE' },
+  explorer: { browser: 'IE' },
+  and_uc: { browser: 'UCBrowser' },
+  ucandroid: { browser: 'UCBrowser' },
+};
+
+const COMPARISON_QUERY = /^(.+?)\s*(>=|<=|>|<)\s*(\d+(?:\.\d+)*)$/;
+const RANGE_QUERY = /^(.+?)\s+(\d+(?:\.\d+)*)\s*-\s*(\d+(?:\.\d+)*)$/;
+const VERSION_QUERY = /^(.+?)\s+(\d+(?:\.\d+)*)$/;
+
+/**
+ * Exclusive upper bound covering every release of a version, e.g. 16.4 -> 16.5
+ */
+const nextVersion = (version: string): string => {
+  const parts = version.split('.');
+  parts[parts.length - 1] = String(Number(parts[parts.length - 1]) + 1);
+  return parts.join('.');
+};
+
+/**
+ * Resolve a browser name to its target
+ */
+const getTarget = (name: string): BrowserTarget => {
+  return BROWSERSLIST_NAMES[name.toLowerCase()] ?? { browser: name };
+};
+
+/**
+ * Compile a single browserslist-style query
+ */
+const parseQuery = (query: string): PolicyEntry => {
+  const exclude = /^not\s+/i.test(query);
+  const body = query.replace(/^not\s+/i, '');
+
+  let match = COMPARISON_QUERY.exec(body);
+  if (match) {
+    return { query, exclude, target: getTarget(match[1]), range: `${match[2]}${match[3]}` };
+  }
+  match = RANGE_QUERY.exec(body);
+  if (match) {
+    const range = `>=${match[2]} <${nextVersion(match[3])}`;
+    return { query, exclude, target: getTarget(match[1]), range };
+  }
+  match = VERSION_QUERY.exec(body);
+  if (match) {
+    return { query, exclude, target: getTarget(match[1]), range: match[2] };
+  }
+
+  // Usage and release based queries (defaults, last 2 versions, > 0.5%, dead) need
+  // browserslist's data, which this library does not bundle
+  throw new Error(`Unsupported browser support query: "${query}"`);
+};
+
+/**
+ * Compile a support policy into query entries
+ */
+const compilePolicy = (policy: SupportPolicy): PolicyEntry[] => {
+  if (typeof policy === 'string' || Array.isArray(policy)) {
+    const queries = (typeof policy === 'string' ? [policy] : (policy as readonly string[]))
+      .flatMap((value) => value.split(/,|\n|\s+or\s+/i))
+      .map((query) => query.trim())
+      .filter(Boolean);
+    return queries.map(parseQuery);
+  }
+
+  return Object.entries(policy as Readonly<Record<string, string | number>>).map(
+    ([browser, value]) => {
+      // Plain versions are minimums; anything else is a version range
+      const version = String(value).trim();
+      const range = /^\d+(?:\.\d+)*$/.test(version) ? `>=${version}` : version;
+      return { query: `${browser} ${range}`, exclude: false, target: { browser }, range };
+    }
+  );
+};
+
+/**
+ * Check whether a policy entry applies to a parsed agent
+ */
+const appliesTo = ({ target }: PolicyEntry, agent: AgentInfo): boolean => {
+  if (target.platform === 'ios' && agent.os !== 'iOS') return false;
+  if (target.platform === 'android' && !agent.isAndroid) return false;
+  if (target.platform === 'desktop' && (agent.os === 'iOS' || agent.isAndroid)) return false;
+  return target.browser === null || target.browser.toLowerCase() === agent.browser.toLowerCase();
+};
+
+/**
+ * Version a policy entry is checked against
+ */
+const getEntryVersion = (entry: PolicyEntry, agent: AgentInfo): ParsedVersion => {
+  return entry.target.browser === null ? agent.osVersion : agent.browserVersion;
+};
+
+/**
+ * Describe the agent for result messages, e.g. "Chrome 120.0.6099.129"
+ */
+const describeAgent = (entry: PolicyEntry | undefined, agent: AgentInfo): string => {
+  if (entry?.target.browser === null) {
+    return `${agent.browser} on iOS ${agent.osVersion.raw}`;
+  }
+  return agent.browserVersion.raw === 'unknown'
+    ? agent.browser
+    : `${agent.browser} ${agent.browserVersion.raw}`;
+};
+
+/**
+ * Create a support checker for a policy
+ * The policy is compiled once; use this for checks on every request
+ * @param policy - Browserslist-style query (e.g. "chrome >= 110, safari >= 16.4, not ie 11")
+ * or minimum versions by browser name (e.g. `{ Chrome: 110, Safari: '16.4' }`)
+ * @returns Function checking a parsed agent against the policy
+ * @throws Error for queries that need browserslist usage data (e.g. "last 2 versions")
+ * @example
+ * const check = createSupportChecker('chrome >= 110, safari >= 16.4, ios_saf >= 16.4');
+ * const { supported, reason } = check(new DeviceUUID().parse());
+ */
+export const createSupportChecker = (policy: SupportPolicy): SupportChecker => {
+  const entries = compilePolicy(policy);
+
+  return (agent: AgentInfo): SupportResult => {
+    const applicable = entries.filter((entry) => appliesTo(entry, agent));
+    const result = (
+      supported: boolean,
+      reason: SupportResult['reason'],
+      message: string,
+      entry?: PolicyEntry
+    ): SupportResult => ({
+      supported,
+      reason,
+      message,
+      browser: agent.browser,
+      version: agent.version,
+      query: entry?.query ?? null,
+    });
+
+    const excluded = applicable.find(
+      (entry) => entry.exclude && satisfiesVersion(getEntryVersion(entry, agent), entry.range)
+    );
+    if (excluded) {
+      return result(
+        false,
+        'excluded',
+        `${describeAgent(excluded, agent)} is excluded by "${excluded.query}"`,
+        excluded
+      );
+    }
+
+    const included = applicable.filter((entry) => !entry.exclude);
+    if (included.length === 0) {
+      return result(false, 'unlisted', `${agent.browser} is not covered by the support policy`);
+    }
+
+    const known = included.filter((entry) => getEntryVersion(entry, agent).raw !== 'unknown');
+    if (known.length === 0) {
+      return result(
+        false,
+        'unknown-version',
+        `Unable to detect the version of ${describeAgent(included[0], agent)}`,
+        included[0]
+      );
+    }
+
+    const satisfied = known.find((entry) =>
+      satisfiesVersion(getEntryVersion(entry, agent), entry.range)
+    );
+    if (satisfied) {
+      return result(
+        true,
+        'supported',
+        `${describeAgent(satisfied, agent)} satisfies "${satisfied.query}"`,
+        satisfied
+      );
+    }
+
+    return result(
+      false,
+      'outdated',
+      `${describeAgent(known[0], agent)} does not satisfy "${known[0].query}"`,
+      known[0]
+    );
+  };
+};
+
+/**
+ * Check a parsed agent against a support policy
+ * @param agent - Parsed agent information
+ * @param policy - Browserslist-style query or minimum versions by browser name
+ * @returns Support result with a reason
+ */
+export const checkSupport = (agent: AgentInfo, policy: SupportPolicy): SupportResult => {
+  return createSupportChecker(policy)(agent);
+};
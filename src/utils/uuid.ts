@@ -0,0 +1,188 @@
+/**
+ * UUID Formatting
+ * Shared RFC 9562 UUID layouts and alternative encodings for generated identifiers
+ */
+
+import type { UuidFormat, UuidOptions } from '../types';
+import { getDigest, getDigestAsync, hashSHA1, hmacSHA256, hmacSHA256Sync } from './hash';
+
+/**
+ * Default namespace for name-based UUIDv5 identifiers
+ * UUIDv5 of the URL namespace and https://github.com/biggora/device-uuid
+ */
+export const DEFAULT_NAMESPACE = 'd90bf734-b3a3-502d-a69f-5ef633377be5';
+
+/**
+ * Crockford base32 alphabet used by ULID
+ */
+const CROCKFORD_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Convert a hex string to bytes
+ */
+const hexToBytes = (hex: string): number[] => {
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return bytes;
+};
+
+/**
+ * Set the version nibble and RFC 9562 variant bits (10xx) of a 32 character hex digest
+ */
+const setVersion = (hex: string, version: number): string => {
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return hex.slice(0, 12) + version.toString(16) + hex.slice(13, 16) + variant + hex.slice(17);
+};
+
+/**
+ * Insert hyphens into a 32 character hex string (8-4-4-4-12)
+ */
+const hyphenate = (hex: string): string => {
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join('-');
+};
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+const toBase64Url = (bytes: number[]): string => {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6));
+    for (let j = 0; j < chars; j++) {
+      result += alphabet[(chunk >> (18 - j * 6)) & 0x3f];
+    }
+  }
+  return result;
+};
+
+/**
+ * Encode a 128-bit hex digest as 26 Crockford base32 characters (ULID layout)
+ */
+const toCrockford = (hex: string): string => {
+  let value = BigInt('0x' + hex);
+  let result = '';
+  for (let i = 0; i < 26; i++) {
+    result = CROCKFORD_ALPHABET[Number(value & BigInt(31))] + result;
+    value >>= BigInt(5);
+  }
+  return result;
+};
+
+/**
+ * Format a 128-bit hex digest as an identifier
+ * @param digest - Hex digest with at least 32 characters (only the first 32 are used)
+ * @param format - Output format (default: 'legacy')
+ * @returns Formatted identifier
+ */
+export const formatUuid = (digest: string, format: UuidFormat = 'legacy'): string => {
+  const hex = digest.slice(0, 32).toLowerCase();
+
+  switch (format) {
+    case 'v4':
+      return hyphenate(setVersion(hex, 4));
+    case 'v5':
+      return hyphenate(setVersion(hex, 5));
+    case 'v8':
+      return hyphenate(setVersion(hex, 8));
+    case 'hex':
+      return hex;
+    case 'base64url':
+      return toBase64Url(hexToBytes(hex));
+    case 'ulid':
+      return toCrockford(hex);
+    default:
+      // Historical layout: fixed '4' version and 'b' variant characters, drops characters 18-19
+      return [
+        hex.slice(0, 8),
+        hex.slice(8, 12),
+        '4' + hex.slice(12, 15),
+        'b' + hex.slice(15, 18),
+        hex.slice(20),
+      ].join('-');
+  }
+};
+
+/**
+ * Parse a UUID string into bytes
+ * @param uuid - UUID string (hyphens optional)
+ * @returns 16 bytes
+ * @throws Error if the string is not a valid UUID
+ */
+const parseUuid = (uuid: string): Uint8Array => {
+  const hex = uuid.replace(/-/g, '');
+  if (!/^[0-9a-f]{32}$/i.test(hex)) {
+    throw new Error(`Invalid namespace UUID: ${uuid}`);
+  }
+  return new Uint8Array(hexToBytes(hex));
+};
+
+/**
+ * Create a name-based UUIDv5 (SHA-1 over namespace and name, RFC 9562)
+ * @param name - Name to hash
+ * @param namespace - Namespace UUID (default: DEFAULT_NAMESPACE)
+ * @returns UUIDv5 string
+ * @throws Error if the namespace is not a valid UUID
+ */
+export const uuidV5 = (name: string, namespace: string = DEFAULT_NAMESPACE): string => {
+  const namespaceBytes = parseUuid(namespace);
+  const nameBytes = new TextEncoder().encode(name);
+  const bytes = new Uint8Array(namespaceBytes.length + nameBytes.length);
+  bytes.set(namespaceBytes);
+  bytes.set(nameBytes, namespaceBytes.length);
+
+  return formatUuid(hashSHA1(bytes), 'v5');
+};
+
+/**
+ * Mix the tenant salt into identifier data
+ */
+const applySalt = (data: string, salt?: string): string => (salt ? `${salt}:${data}` : data);
+
+/**
+ * Hash identifier data and format the result
+ * With a secretKey the digest is an HMAC-SHA256 (regardless of hashAlgorithm), so identifiers
+ * cannot be recomputed or correlated without the key
+ * @param data - Identifier source data
+ * @param options - Hash algorithm, output format, namespace, salt and secret key
+ * @returns Formatted identifier
+ */
+export const generateUuid = (data: string, options: UuidOptions = {}): string => {
+  const input = applySalt(data, options.salt);
+  const name = options.secretKey ? hmacSHA256Sync(options.secretKey, input) : input;
+
+  if (options.outputFormat === 'v5') {
+    return uuidV5(name, options.namespace);
+  }
+  const digest = options.secretKey ? name : getDigest(input, options.hashAlgorithm);
+  return formatUuid(digest, options.outputFormat);
+};
+
+/**
+ * Hash identifier data and format the result, using SubtleCrypto for SHA-256 and HMAC
+ * @param data - Identifier source data
+ * @param options - Hash algorithm, output format, namespace, salt and secret key
+ * @returns Promise resolving to the formatted identifier (same value as generateUuid)
+ */
+export const generateUuidAsync = async (
+  data: string,
+  options: UuidOptions = {}
+): Promise<string> => {
+  const input = applySalt(data, options.salt);
+  const name = options.secretKey ? await hmacSHA256(options.secretKey, input) : input;
+
+  if (options.outputFormat === 'v5') {
+    return uuidV5(name, options.namespace);
+  }
+  const digest = options.secretKey ? name : await getDigestAsync(input, options.hashAlgorithm);
+  return formatUuid(digest, options.outputFormat);
+};
@@ -0,0 +1,159 @@
+/**
+ * Version Utilities
+ * Parses browser and OS versions into structured versions and checks them against ranges
+ */
+
+import type { AgentInfo, ParsedVersion, VersionRequirements } from '../types';
+import { OS_VERSION_PATTERNS } from '../constants';
+
+/**
+ * Comparator of a version range, e.g. `>=16.4`
+ */
+interface Comparator {
+  operator: string;
+  version: ParsedVersion;
+  /** Number of version components given, used for partial matches like `=120` */
+  parts: number;
+}
+
+const VERSION_PATTERN = /(\d+)(?:[._](\d+))?(?:[._](\d+))?/;
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=|\^|~)?\s*v?(\d+(?:[._](?:\d+|[x*]))*)$/i;
+
+/**
+ * Parse a version string into major, minor and patch numbers
+ * @param raw - Version string, e.g. "120.0.6099.129" or "10_15_7"
+ * @returns Structured version; numbers are 0 for unknown versions
+ * @example
+ * parseVersion('16.4'); // { major: 16, minor: 4, patch: 0, raw: '16.4' }
+ */
+export const parseVersion = (raw: string | null | undefined): ParsedVersion => {
+  const match = raw ? VERSION_PATTERN.exec(raw) : null;
+  if (!raw || !match) {
+    return { major: 0, minor: 0, patch: 0, raw: raw || 'unknown' };
+  }
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2] ?? '0', 10),
+    patch: parseInt(match[3] ?? '0', 10),
+    raw: raw.replace(/_/g, '.'),
+  };
+};
+
+/**
+ * Get the operating system version from a user agent string
+ * @param source - User agent string
+ * @returns Version string or null if the user agent reports none
+ */
+export const getOSVersion = (source: string): string | null => {
+  for (const pattern of Object.values(OS_VERSION_PATTERNS)) {
+    const match = pattern.exec(source);
+    if (match?.[1]) return match[1].replace(/_/g, '.');
+  }
+  return null;
+};
+
+/**
+ * Compare two versions by major, minor and patch
+ * @param a - First version
+ * @param b - Second version
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export const compareVersions = (a: ParsedVersion | string, b: ParsedVersion | string): number => {
+  const left = typeof a === 'string' ? parseVersion(a) : a;
+  const right = typeof b === 'string' ? parseVersion(b) : b;
+  return left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+};
+
+/**
+ * Parse a single comparator, or null for invalid input
+ */
+const parseComparator = (value: string): Comparator | null => {
+  const match = COMPARATOR_PATTERN.exec(value);
+  if (!match) return null;
+
+  // Wildcard components (16.x) narrow the comparator to the components before them
+  const components = match[2].split(/[._]/);
+  const wildcard = components.findIndex((part) => /^[x*]$/i.test(part));
+  const parts = wildcard === -1 ? components.length : wildcard;
+
+  return {
+    operator: match[1] ?? '=',
+    version: parseVersion(components.slice(0, parts).join('.')),
+    parts,
+  };
+};
+
+/**
+ * Check a version against one comparator
+ */
+const testComparator = (
+  version: ParsedVersion,
+  { operator, version: target, parts }: Comparator
+) => {
+  const diff = compareVersions(version, target);
+
+  switch (operator) {
+    case '>=':
+      return diff >= 0;
+    case '>':
+      return diff > 0;
+    case '<=':
+      return diff <= 0;
+    case '<':
+      return diff < 0;
+    case '^':
+      return diff >= 0 && version.major === target.major;
+    case '~':
+      return diff >= 0 && version.major === target.major && version.minor === target.minor;
+    default: {
+      // Only compare the components the range specifies: =120 matches 120.0.6099.129
+      const fields = (['major', 'minor', 'patch'] as const).slice(0, parts);
+      return fields.every((field) => version[field] === target[field]);
+    }
+  }
+};
+
+/**
+ * Check whether a version satisfies a range
+ * Ranges combine comparators (`>=`, `>`, `<=`, `<`, `=`, `^`, `~`) with spaces (and) and `||`
+ * (or); a bare version like `120` or `16.x` matches the components it specifies, `*` anything
+ * @param version - Version to check
+ * @param range - Version range, e.g. ">=110", ">=16.4 <18" or "^15 || >=17"
+ * @returns Whether the version is known and satisfies the range
+ */
+export const satisfiesVersion = (version: ParsedVersion | string, range: string): boolean => {
+  const parsed = typeof version === 'string' ? parseVersion(version) : version;
+  if (parsed.raw === 'unknown') return false;
+
+  return range.split('||').some((set) => {
+    const comparators = set
+      .replace(/(>=|<=|>|<|=|\^|~)\s+/g, '$1')
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean);
+    return comparators.every((value) => {
+      if (value === '*' || /^x$/i.test(value)) return true;
+      const comparator = parseComparator(value);
+      return comparator !== null && testComparator(parsed, comparator);
+    });
+  });
+};
+
+/**
+ * Check whether a parsed agent satisfies per-browser version requirements
+ * Browser names are matched case-insensitively; browsers without a requirement do not satisfy
+ * @param agent - Parsed agent information
+ * @param requirements - Version ranges by browser name
+ * @returns Whether the agent's browser is listed and its version satisfies the range
+ * @example
+ * if (!satisfies(agent, { Chrome: '>=110', Safari: '>=16.4' })) showUnsupportedBanner();
+ */
+export const satisfies = (
+  agent: Pick<AgentInfo, 'browser' | 'browserVersion'>,
+  requirements: VersionRequirements
+): boolean => {
+  const browser = agent.browser.toLowerCase();
+  const key = Object.keys(requirements).find((name) => name.toLowerCase() === browser);
+  return key !== undefined && satisfiesVersion(agent.browserVersion, requirements[key]);
+};
@@ -0,0 +1,174 @@
+/**
+ * Minimal MaxMind DB writer for tests
+ * Builds small IPv6 databases in memory so the reader can be tested without real GeoIP files
+ */
+
+type Value = string | number | boolean | Value[] | { [key: string]: Value };
+
+export interface MMDBNetwork {
+  /** CIDR network, e.g. "81.198.0.0/16" or "2a02:e0::/32" */
+  network: string;
+  data: { [key: string]: Value };
+}
+
+const MARKER = [0xab, 0xcd, 0xef, ...Array.from('MaxMind.com', (c) => c.charCodeAt(0))];
+
+const uintBytes = (value: number): number[] => {
+  const bytes: number[] = [];
+  while (value > 0) {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+};
+
+const control = (type: number, size: number): number[] => {
+  const head = type > 7 ? [0, type - 7] : [type << 5];
+  let sizeBytes: number[] = [];
+  let sizeBits = size;
+  if (size >= 29) {
+    sizeBits = 29;
+    sizeBytes = [size - 29];
+  }
+  head[0] |= sizeBits;
+  return type > 7 ? [head[0], head[1], ...sizeBytes] : [head[0], ...sizeBytes];
+};
+
+/**
+ * Encode data section values; shared strings are written once and referenced via pointers
+ */
+class Encoder {
+  bytes: number[] = [];
+  private strings = new Map<string, number>();
+
+  write(value: Value): number {
+    const offset = this.bytes.length;
+    this.bytes.push(...this.encode(value));
+    return offset;
+  }
+
+  private encode(value: Value): number[] {
+    if (typeof value === 'string') {
+      const known = this.strings.get(value);
+      if (known !== undefined && known < 2048) {
+        return [(1 << 5) | (known >> 8), known & 0xff];
+      }
+      const data = Array.from(new TextEncoder().encode(value));
+      return [...control(2, data.length), ...data];
+    }
+    if (typeof value === 'boolean') return control(14, value ? 1 : 0);
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value)) {
+        const view = new DataView(new ArrayBuffer(8));
+        view.setFloat64(0, value);
+        return [...control(3, 8), ...new Uint8Array(view.buffer)];
+      }
+      const data = uintBytes(value);
+      return [...control(value > 0xffff ? 6 : 5, data.length), ...data];
+    }
+    if (Array.isArray(value)) {
+      return [...control(11, value.length), ...value.flatMap((v) => this.encode(v))];
+    }
+    const entries = Object.entries(value);
+    return [
+      ...control(7, entries.length),
+      ...entries.flatMap(([k, v]) => [...this.encode(k), ...this.encode(v)]),
+    ];
+  }
+
+  share(value: string): void {
+    this.strings.set(value, this.write(value));
+  }
+}
+
+const parseNetwork = (network: string): { bits: number[]; length: number } => {
+  const [address, prefix] = network.split('/');
+  let bytes: number[];
+  let length = Number(prefix);
+
+  if (address.includes(':')) {
+    const [left, right = ''] = address.split('::');
+    const l = left ? left.split(':') : [];
+    const r = right ? right.split(':') : [];
+    const groups = [...l, ...new Array(8 - l.length - r.length).fill('0'), ...r];
+    bytes = groups.flatMap((g) => [parseInt(g, 16) >> 8, parseInt(g, 16) & 0xff]);
+  } else {
+    bytes = [...new Array(12).fill(0), ...address.split('.').map(Number)];
+    length += 96;
+  }
+
+  const bits = bytes.flatMap((b) => Array.from({ length: 8 }, (_, i) => (b >> (7 - i)) & 1));
+  return { bits, length };
+};
+
+/**
+ * Build an IPv6 MaxMind DB containing the given networks
+ * @param networks - Networks and their records
+ * @param recordSize - Search tree record size (24, 28 or 32)
+ * @returns Database bytes
+ */
+export const buildMMDB = (networks: MMDBNetwork[], recordSize = 24): Uint8Array => {
+  // Search tree: each node holds two children (node index, data offset or empty)
+  type Child = { node: number } | { data: number } | null;
+  const nodes: [Child, Child][] = [[null, null]];
+  const encoder = new Encoder();
+  encoder.share('Europe/Riga');
+
+  for (const { network, data } of networks) {
+    const { bits, length } = parseNetwork(network);
+    const offset = encoder.write(data);
+    let node = 0;
+    for (let i = 0; i < length - 1; i++) {
+      const child = nodes[node][bits[i]];
+      if (child && 'node' in child) {
+        node = child.node;
+      } else {
+        nodes.push([null, null]);
+        nodes[node][bits[i]] = { node: nodes.length - 1 };
+        node = nodes.length - 1;
+      }
+    }
+    nodes[node][bits[length - 1]] = { data: offset };
+  }
+
+  const nodeCount = nodes.length;
+  const resolve = (child: Child): number => {
+    if (!child) return nodeCount;
+    return 'node' in child ? child.node : nodeCount + 16 + child.data;
+  };
+
+  const tree: number[] = [];
+  for (const [left, right] of nodes) {
+    const l = resolve(left);
+    const r = resolve(right);
+    if (recordSize === 24) {
+      tree.push(l >> 16, (l >> 8) & 0xff, l & 0xff, r >> 16, (r >> 8) & 0xff, r & 0xff);
+    } else if (recordSize === 28) {
+      tree.push((l >> 16) & 0xff, (l >> 8) & 0xff, l & 0xff);
+      tree.push(((l >> 20) & 0xf0) | ((r >> 24) & 0x0f));
+      tree.push((r >> 16) & 0xff, (r >> 8) & 0xff, r & 0xff);
+    } else {
+      tree.push(...[l, r].flatMap((v) => [v >>> 24, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff]));
+    }
+  }
+
+  const metadata = new Encoder();
+  metadata.write({
+    node_count: nodeCount,
+    record_size: recordSize,
+    ip_version: 6,
+    database_type: 'Test-City',
+    languages: ['en'],
+    binary_format_major_version: 2,
+    binary_format_minor_version: 0,
+    build_epoch: 1700000000,
+  });
+
+  return new Uint8Array([
+    ...tree,
+    ...new Array(16).fill(0),
+    ...encoder.bytes,
+    ...MARKER,
+    ...metadata.bytes,
+  ]);
+};
@@ -12,7 +12,7 @@ describe('Complete Device Parsing Integration', () => {
 
       expect(result.browser).toBe('Chrome');
       expect(result.version).toBe('120.0.0.0');
-      expect(result.os).toBe('Windows 11');
+      expect(result.os).toBe('Windows 10.0');
       expect(result.platform).toBe('Microsoft Windows');
       expect(result.isChrome).toBe(true);
       expect(result.isWindows).toBe(true);
@@ -68,7 +68,7 @@ describe('Complete Device Parsing Integration', () => {
 
       expect(result.browser).toBe('Edge');
       expect(result.version).toBe('120.0.0.0');
-      expect(result.os).toBe('Windows 11');
+      expect(result.os).toBe('Windows 10.0');
       expect(result.isEdge).toBe(true);
       expect(result.isWindows).toBe(true);
       expect(result.isDesktop).toBe(true);
@@ -0,0 +1,97 @@
+// @vitest-environment node
+/**
+ * Integration tests for the built main and server entry points
+ * Both entries must share one DeviceUUID class, so static configuration made through one
+ * entry applies to the other
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { build } from 'tsup';
+import type { Options } from 'tsup';
+import tsupConfig from '../../tsup.config';
+import { browsers } from '../fixtures/user-agents';
+
+type MainEntry = typeof import('../../src');
+type ServerEntry = typeof import('../../src/server');
+
+const GEO = { country: 'LV', city: 'Riga' };
+
+let dir: string;
+
+describe('Built Entry Points', () => {
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'device-uuid-dist-'));
+    const [nodeConfig] = tsupConfig as Options[];
+    await build({
+      ...nodeConfig,
+      outDir: dir,
+      dts: false,
+      sourcemap: false,
+      silent: true,
+      config: false,
+    });
+  }, 60000);
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const loaders: Record<string, () => Promise<[MainEntry, ServerEntry]>> = {
+    esm: async () => [
+      await import(pathToFileURL(join(dir, 'index.js')).href),
+      await import(pathToFileURL(join(dir, 'server.js')).href),
+    ],
+    cjs: async () => {
+      const require = createRequire(import.meta.url);
+      return [require(join(dir, 'index.cjs')), require(join(dir, 'server.cjs'))];
+    },
+  };
+
+  describe.each(Object.keys(loaders))('%s', (format) => {
+    it('should share the DeviceUUID class', async () => {
+      const [main, server] = await loaders[format]();
+
+      expect(server.DeviceUUID).toBe(main.DeviceUUID);
+    });
+
+    it('should use the geo resolver set through the main entry', async () => {
+      const [main, server] = await loaders[format]();
+      main.DeviceUUID.setGeoResolver({ lookup: () => GEO });
+
+      try {
+        const device = server.createDeviceResolver()(
+          { 'user-agent': browsers.chrome.windows },
+          '203.0.113.7'
+        );
+        expect(device.geoIp).toEqual(GEO);
+      } finally {
+        main.DeviceUUID.setGeoResolver(null);
+      }
+    });
+
+    it('should detect bots registered through the main entry', async () => {
+      const [main, server] = await loaders[format]();
+      const resolve = server.createDeviceResolver();
+      const headers = { 'user-agent': 'Mozilla/5.0 (compatible; AcmeProbe/1.0)' };
+      expect(resolve(headers).isBot).toBe(false);
+
+      main.registerBots([
+        { pattern: 'acmeprobe', name: 'Acme Probe', category: 'monitoring', vendor: 'Acme' },
+      ]);
+
+      try {
+        expect(resolve(headers)).toMatchObject({
+          isBot: 'acmeprobe',
+          bot: { name: 'Acme Probe', category: 'monitoring', vendor: 'Acme' },
+        });
+      } finally {
+        main.resetBots();
+      }
+    });
+  });
+});
@@ -0,0 +1,229 @@
+// @vitest-environment node
+/**
+ * Integration tests for server middleware running on in-process HTTP servers
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  DeviceUUID,
+  createDeviceResolver,
+  createExpressMiddleware,
+  createFastifyHook,
+  createKoaMiddleware,
+} from '../../src/server';
+import type { RequestDevice } from '../../src/server';
+import { browsers, mobile } from '../fixtures/user-agents';
+
+type DeviceIncomingMessage = http.IncomingMessage & {
+  headers: Record<string, string | string[] | undefined>;
+  device?: RequestDevice;
+};
+
+let server: http.Server | null = null;
+
+/**
+ * Start a server and resolve to its base URL
+ */
+const listen = (handler: http.RequestListener): Promise<string> => {
+  return new Promise((resolve) => {
+    server = http.createServer(handler);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server!.address() as AddressInfo;
+      resolve(`http://127.0.0.1:${port}`);
+    });
+  });
+};
+
+/**
+ * Send a GET request and parse the JSON response
+ */
+const getJson = (url: string, headers: Record<string, string>): Promise<RequestDevice> => {
+  return new Promise((resolve, reject) => {
+    http
+      .get(url, { headers }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve(JSON.parse(body)));
+      })
+      .on('error', reject);
+  });
+};
+
+const sendJson = (res: http.ServerResponse, data: unknown): void => {
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(data));
+};
+
+describe('Server Middleware', () => {
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  describe('createExpressMiddleware', () => {
+    it('should populate req.device with agent info and uuid', async () => {
+      const middleware = createExpressMiddleware();
+      const url = await listen((req, res) => {
+        middleware(req as DeviceIncomingMessage, res, () => {
+          sendJson(res, (req as DeviceIncomingMessage).device);
+        });
+      });
+
+      const device = await getJson(url, {
+        'User-Agent': browsers.chrome.windows,
+        'Accept-Language': 'en-US,en;q=0.9',
+      });
+
+      expect(device.browser).toBe('Chrome');
+      expect(device.isWindows).toBe(true);
+      expect(device.language).toBe('en-us');
+      expect(device.uuid).toMatch(
+        /^[a-f0-9]{8}-[a-f0-9]{4}-4[a-f0-9]{3}-b[a-f0-9]{3}-[a-f0-9]{12}$/
+      );
+    });
+
+    it('should pass resolver errors to next', () => {
+      const middleware = createExpressMiddleware();
+      const req = {
+        get headers(): Record<string, string> {
+          throw new Error('boom');
+        },
+      };
+      let received: unknown;
+      middleware(req as never, {}, (error) => (received = error));
+
+      expect(received).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('geoIp', () => {
+    afterEach(() => {
+      DeviceUUID.setGeoResolver(null);
+    });
+
+    it('should resolve geoIp from the socket address', async () => {
+      DeviceUUID.setGeoResolver({
+        lookup: (ip) => (ip === '127.0.0.1' ? { country: 'ZZ', timezone: 'UTC' } : null),
+      });
+      const middleware = createExpressMiddleware();
+      const url = await listen((req, res) => {
+        middleware(req as DeviceIncomingMessage, res, () => {
+          sendJson(res, (req as DeviceIncomingMessage).device);
+        });
+      });
+
+      const device = await getJson(url, { 'User-Agent': browsers.chrome.windows });
+
+      expect(device.geoIp).toEqual({ country: 'ZZ', timezone: 'UTC' });
+    });
+
+    it('should resolve geoIp per request without affecting the uuid', () => {
+      DeviceUUID.setGeoResolver({ lookup: (ip) => ({ country: ip === '1.1.1.1' ? 'AU' : 'US' }) });
+      const resolve = createDeviceResolver();
+      const headers = { 'user-agent': browsers.firefox.windows };
+
+      const first = resolve(headers, '1.1.1.1');
+      const second = resolve(headers, '8.8.8.8');
+
+      expect(first.geoIp.country).toBe('AU');
+      expect(second.geoIp.country).toBe('US');
+      expect(second.uuid).toBe(first.uuid);
+      expect(resolve(headers).geoIp).toEqual({});
+    });
+  });
+
+  describe('createFastifyHook', () => {
+    it('should populate request.device', async () => {
+      const hook = createFastifyHook();
+      const url = await listen((req, res) => {
+        hook(req as DeviceIncomingMessage, res, (error) => {
+          if (error) throw error;
+          sendJson(res, (req as DeviceIncomingMessage).device);
+        });
+      });
+
+      const device = await getJson(url, { 'User-Agent': mobile.iPhone.safari });
+
+      expect(device.isiPhone).toBe(true);
+      expect(device.isMobile).toBe(true);
+      expect(typeof device.uuid).toBe('string');
+    });
+  });
+
+  describe('createKoaMiddleware', () => {
+    it('should populate ctx.state.device and ctx.req.device', async () => {
+      const middleware = createKoaMiddleware();
+      const url = await listen(async (req, res) => {
+        const ctx = { req: req as DeviceIncomingMessage, state: {} as Record<string, unknown> };
+        await middleware(ctx, async () => {
+          expect(ctx.req.device).toBe(ctx.state.device);
+          sendJson(res, ctx.state.device);
+        });
+      });
+
+      const device = await getJson(url, { 'User-Agent': browsers.firefox.linux });
+
+      expect(device.browser).toBe('Firefox');
+      expect(device.isLinux).toBe(true);
+    });
+  });
+
+  describe('createDeviceResolver', () => {
+    it('should derive the uuid from the configured options', () => {
+      const headers = { 'user-agent': browsers.safari.mac };
+      const defaultDevice = createDeviceResolver()(headers);
+      const versioned = createDeviceResolver({ uuidOptions: { version: true } })(headers);
+      const sameVersion = createDeviceResolver({ uuidOptions: { version: true } })({
+        'user-agent': browsers.safari.mac.replace('17.2', '17.3'),
+      });
+      const otherVersion = createDeviceResolver()({
+        'user-agent': browsers.safari.mac.replace('17.2', '17.3'),
+      });
+
+      expect(versioned.uuid).not.toBe(defaultDevice.uuid);
+      expect(sameVersion.uuid).not.toBe(versioned.uuid);
+      expect(otherVersion.uuid).toBe(defaultDevice.uuid);
+    });
+
+    it('should return equal results from the cache', () => {
+      const resolve = createDeviceResolver();
+      const headers = { 'user-agent': browsers.edge.windows };
+
+      const first = resolve(headers);
+      const second = resolve(headers);
+
+      expect(second).toEqual(first);
+      expect(second).not.toBe(first);
+    });
+
+    it('should not leak mutations into cached results', () => {
+      const resolve = createDeviceResolver();
+      const headers = { 'user-agent': browsers.opera.windows };
+
+      resolve(headers).browser = 'mutated';
+
+      expect(resolve(headers).browser).toBe('Opera');
+    });
+
+    it('should key the cache by language as well as user agent', () => {
+      const resolve = createDeviceResolver();
+
+      const english = resolve({ 'user-agent': browsers.chrome.mac, 'accept-language': 'en' });
+      const german = resolve({ 'user-agent': browsers.chrome.mac, 'accept-language': 'de' });
+
+      expect(english.language).toBe('en');
+      expect(german.language).toBe('de');
+    });
+
+    it('should work with caching disabled', () => {
+      const resolve = createDeviceResolver({ cacheSize: 0 });
+      const headers = { 'user-agent': browsers.chrome.linux };
+
+      expect(resolve(headers).uuid).toBe(resolve(headers).uuid);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Baseline parser for throughput benchmarks
+ * A copy of the parse() path before parse results were memoized: a new DeviceUUID and agent per
+ * call, rule lookups and a generic version RegExp built per call
+ */
+
+import type { AgentInfo, DetectionRule, DetectionRuleKind } from '../../src/types';
+import type { RuleSet } from '../../src/utils/rules';
+import { DeviceUUID } from '../../src';
+import { DEFAULT_AGENT, WEBVIEW_PATTERNS } from '../../src/constants';
+import { hashMD5, hashInt } from '../../src/utils/md5';
+import { detectBot } from '../../src/utils/bots';
+import { detectDevice } from '../../src/utils/devices';
+import { getRuleSet, findRule, extractVersion } from '../../src/utils/rules';
+import { parseVersion, getOSVersion } from '../../src/utils/version';
+import {
+  getLanguage,
+  getLanguages,
+  getColorDepth,
+  getPixelDepth,
+  getScreenResolution,
+  getCPUCores,
+  getDevicePixelRatio,
+  getDeviceMemory,
+  getSaveData,
+  isTouchScreen,
+} from '../../src/utils/environment';
+
+/**
+ * Apply the first matching detection rule of a kind to the agent
+ */
+const applyRule = (
+  agent: AgentInfo,
+  rules: RuleSet,
+  kind: DetectionRuleKind,
+  source: string
+): DetectionRule | null => {
+  const rule = findRule(rules[kind], source)?.rule ?? null;
+  if (rule?.fields) {
+    Object.assign(agent, rule.fields);
+  }
+  return rule;
+};
+
+/**
+ * Get the name of a browser without a detection rule
+ */
+const getUnknownBrowser = (agent: AgentInfo, source: string): string => {
+  const match = /^([\d\w-.]+)\/[\d\w.-]+/i.exec(source);
+  if (source.indexOf('Mozilla') !== 0 && match) {
+    agent.isAuthoritative = false;
+    return match[1];
+  }
+
+  return 'unknown';
+};
+
+/**
+ * Get the browser version, building the generic `<name>/<version>` RegExp per call
+ */
+const getBrowserVersion = (
+  agent: AgentInfo,
+  source: string,
+  rule: DetectionRule | null
+): string => {
+  const version = rule ? extractVersion(rule, source) : null;
+  if (version) {
+    return version;
+  }
+
+  if (agent.browser !== 'unknown') {
+    const name = agent.browser.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`${name}[\\/ ]([\\d\\w.\\-]+)`, 'i').exec(source);
+    if (match?.[1]) {
+      return match[1];
+    }
+  }
+
+  return 'unknown';
+};
+
+/**
+ * Run the user agent tests in the order parseSource() ran them
+ */
+const runTests = (agent: AgentInfo): void => {
+  const bot = detectBot(agent.source);
+  if (bot) {
+    agent.isBot = bot.match;
+    agent.bot = bot.info;
+  } else if (!agent.isAuthoritative) {
+    agent.isBot = /bot/i.test(agent.source);
+  }
+
+  const isSmartTV = /smart-tv|smarttv|googletv|appletv|hbbtv|pov_tv|netcast.tv/gi.exec(
+    agent.source.toLowerCase()
+  );
+  if (isSmartTV) {
+    agent.isSmartTV = isSmartTV[1] || true;
+  }
+
+  if (agent.isSmartTV) {
+    agent.isMobile = false;
+    agent.isDesktop = false;
+  } else if (
+    agent.isAndroid ||
+    agent.isSamsung ||
+    agent.isiPhone ||
+    agent.isiPod ||
+    agent.isBada ||
+    agent.isBlackberry ||
+    agent.isWindowsPhone
+  ) {
+    agent.isMobile = true;
+    agent.isDesktop = false;
+  } else if (agent.isiPad) {
+    agent.isMobile = false;
+    agent.isDesktop = false;
+  } else if (agent.isWindows || agent.isLinux || agent.isMac || agent.isChromeOS) {
+    agent.isDesktop = true;
+  } else if (/mobile/i.test(agent.source)) {
+    agent.isMobile = true;
+    agent.isDesktop = false;
+  }
+
+  if (agent.isAndroid && !/mobile/i.test(agent.source)) {
+    agent.isAndroidTablet = true;
+    agent.isMobile = false;
+  }
+
+  if (agent.isiPad || agent.isAndroidTablet || agent.isKindleFire) {
+    agent.isTablet = true;
+  }
+  if (/tablet/i.test(agent.source)) {
+    agent.isTablet = true;
+  }
+
+  if (agent.isIE) {
+    const tridentMatch = /Trident\/(\d)\.0/i.exec(agent.source);
+    if (tridentMatch && parseFloat(agent.version) === 7) {
+      const compatVersions: Record<string, string> = { 7: '11.0', 6: '10.0', 5: '9.0', 4: '8.0' };
+      const version = compatVersions[tridentMatch[1]];
+      if (version) {
+        agent.isIECompatibilityMode = true;
+        agent.version = version;
+      }
+    }
+  }
+
+  if (/silk/gi.test(agent.source)) {
+    agent.isSilk = true;
+  }
+  if (/Silk-Accelerated=true/gi.test(agent.source)) {
+    agent.silkAccelerated = true;
+  }
+
+  const { isTablet, isMobile, isDesktop } = agent;
+  const inferred = agent.isSmartTV
+    ? 'smarttv'
+    : isTablet
+      ? 'tablet'
+      : isMobile
+        ? 'mobile'
+        : isDesktop
+          ? 'desktop'
+          : 'unknown';
+  const device = detectDevice(agent.source);
+  agent.device = {
+    vendor: device?.vendor ?? 'unknown',
+    model: device?.model ?? 'unknown',
+    type: device && device.type !== 'unknown' ? device.type : inferred,
+  };
+
+  if (agent.device.vendor === 'Amazon' && agent.device.type === 'tablet') {
+    agent.isKindleFire = true;
+  }
+
+  if (/CaptiveNetwork/gi.test(agent.source)) {
+    agent.isCaptive = true;
+    agent.isMac = true;
+    agent.platform = 'Apple Mac';
+  }
+
+  for (const [appName, pattern] of Object.entries(WEBVIEW_PATTERNS)) {
+    if (pattern.test(agent.source)) {
+      agent.isWebView = true;
+      agent.appName = appName;
+      break;
+    }
+  }
+};
+
+/**
+ * Parse a user agent the way parse() did before memoization
+ * @param source - User agent string
+ * @returns AgentInfo object with device details
+ */
+export const parseBaseline = (source: string): AgentInfo => {
+  // parse() created a second instance for every call
+  new DeviceUUID();
+  const rules = getRuleSet();
+  const agent: AgentInfo = { ...DEFAULT_AGENT, hashInt, hashMD5 };
+
+  agent.source = source.replace(/^\s*/, '').replace(/\s*$/, '');
+  const osRule = applyRule(agent, rules, 'os', agent.source);
+  agent.os = osRule?.name ?? 'unknown';
+  agent.osVersion = parseVersion(
+    (osRule && extractVersion(osRule, agent.source)) || getOSVersion(agent.source)
+  );
+  agent.platform = applyRule(agent, rules, 'platform', agent.source)?.name ?? 'unknown';
+  const browserRule = applyRule(agent, rules, 'browser', agent.source);
+  agent.browser = browserRule?.name ?? getUnknownBrowser(agent, agent.source);
+  agent.version = getBrowserVersion(agent, agent.source, browserRule);
+  agent.browserVersion = parseVersion(agent.version);
+  runTests(agent);
+
+  agent.isTouchScreen = isTouchScreen();
+  agent.language = getLanguage();
+  agent.languages = getLanguages();
+  agent.colorDepth = getColorDepth();
+  agent.pixelDepth = getPixelDepth();
+  agent.resolution = getScreenResolution();
+  agent.cpuCores = getCPUCores();
+  agent.devicePixelRatio = getDevicePixelRatio();
+  agent.deviceMemory = getDeviceMemory();
+  agent.saveData = getSaveData();
+
+  return agent;
+};
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for headless browser and automation detection
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DeviceUUID,
+  AUTOMATION_SIGNAL_WEIGHTS,
+  compareFingerprints,
+  detectAutomation,
+  getWebGLRenderer,
+  isAutomationDetectionSupported,
+} from '../../src';
+import { getCompatibilityInfo } from '../../src/utils/browser-compatibility';
+import { browsers, bots } from '../fixtures/user-agents';
+
+const testWindow = window as unknown as Record<string, unknown>;
+
+/**
+ * Pretend to be desktop Chrome with the usual PDF viewer plugins and window.chrome object
+ */
+const mockChrome = (userAgent: string = browsers.chrome.windows): void => {
+  vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(userAgent);
+  // happy-dom reports itself as automated
+  vi.spyOn(navigator, 'webdriver', 'get').mockReturnValue(false);
+  vi.spyOn(navigator, 'plugins', 'get').mockReturnValue({ length: 5 } as PluginArray);
+  vi.spyOn(navigator, 'mimeTypes', 'get').mockReturnValue({ length: 2 } as MimeTypeArray);
+  testWindow.chrome = { loadTimes: () => undefined };
+};
+
+/**
+ * Make WebGL report the given unmasked renderer
+ */
+const mockRenderer = (renderer: string): void => {
+  const createElement = document.createElement.bind(document);
+  vi.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
+    const element = createElement(tagName);
+    if (tagName === 'canvas') {
+      const gl = {
+        getExtension: (name: string) =>
+          name === 'WEBGL_debug_renderer_info'
+            ? { UNMASKED_VENDOR_WEBGL: 1, UNMASKED_RENDERER_WEBGL: 2 }
+            : null,
+        getParameter: (param: number) => (param === 1 ? 'Google Inc.' : renderer),
+      };
+      (element as HTMLCanvasElement).getContext = (() => gl) as never;
+    }
+    return element;
+  });
+};
+
+describe('Automation Detection', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete testWindow.chrome;
+    delete testWindow.cdc_adoQpoasnfa76pfcZLmcfl_Array;
+    document.documentElement.removeAttribute('webdriver');
+  });
+
+  describe('detectAutomation', () => {
+    it('should not flag a regular desktop Chrome', () => {
+      mockChrome();
+
+      expect(detectAutomation()).toEqual({ isAutomated: false, score: 0, signals: [] });
+    });
+
+    it('should detect navigator.webdriver', () => {
+      mockChrome();
+      vi.spyOn(navigator, 'webdriver', 'get').mockReturnValue(true);
+
+      const result = detectAutomation();
+
+      expect(result.isAutomated).toBe(true);
+      expect(result.signals).toEqual(['webdriver']);
+    });
+
+    it('should detect ChromeDriver runtime artifacts', () => {
+      mockChrome();
+      testWindow.cdc_adoQpoasnfa76pfcZLmcfl_Array = [];
+
+      expect(detectAutomation().signals).toContain('cdpArtifacts');
+    });
+
+    it('should detect Selenium attributes on the root element', () => {
+      mockChrome();
+      document.documentElement.setAttribute('webdriver', 'true');
+
+      expect(detectAutomation().signals).toContain('cdpArtifacts');
+    });
+
+    it('should detect the HeadlessChrome token', () => {
+      mockChrome(bots.headlessChrome);
+
+      const result = detectAutomation();
+
+      expect(result.isAutomated).toBe(true);
+      expect(result.signals).toContain('headlessUserAgent');
+    });
+
+    it('should detect missing plugins and mime types on desktop Chrome', () => {
+      mockChrome();
+      vi.spyOn(navigator, 'plugins', 'get').mockReturnValue({ length: 0 } as PluginArray);
+      vi.spyOn(navigator, 'mimeTypes', 'get').mockReturnValue({ length: 0 } as MimeTypeArray);
+
+      const result = detectAutomation();
+
+      expect(result.signals).toEqual(['missingPlugins', 'missingMimeTypes']);
+      expect(result.score).toBe(0.4);
+      expect(result.isAutomated).toBe(false);
+    });
+
+    it('should detect inconsistent chrome objects', () => {
+      mockChrome();
+      delete testWindow.chrome;
+      expect(detectAutomation().signals).toEqual(['inconsistentChrome']);
+
+      mockChrome(browsers.firefox.windows);
+      expect(detectAutomation().signals).toEqual(['inconsistentChrome']);
+    });
+
+    it('should detect software WebGL renderers', () => {
+      mockChrome();
+      mockRenderer(
+        'ANGLE (Google, Vulkan 1.3.0 (SwiftShader Device (Subzero)), SwiftShader driver)'
+      );
+
+      expect(getWebGLRenderer()?.renderer).toContain('SwiftShader');
+      expect(detectAutomation().signals).toEqual(['softwareRenderer']);
+    });
+
+    it('should flag combined weak signals', () => {
+      mockChrome();
+      mockRenderer('llvmpipe (LLVM 15.0.7, 256 bits)');
+      vi.spyOn(navigator, 'plugins', 'get').mockReturnValue({ length: 0 } as PluginArray);
+
+      const result = detectAutomation();
+
+      expect(result.score).toBeCloseTo(
+        AUTOMATION_SIGNAL_WEIGHTS.softwareRenderer + AUTOMATION_SIGNAL_WEIGHTS.missingPlugins
+      );
+      expect(result.isAutomated).toBe(true);
+    });
+
+    it('should cap the score at 1', () => {
+      mockChrome(bots.headlessChrome);
+      vi.spyOn(navigator, 'webdriver', 'get').mockReturnValue(true);
+
+      expect(detectAutomation().score).toBe(1);
+    });
+
+    it('should return an empty verdict outside the browser', () => {
+      const originalWindow = globalThis.window;
+      // @ts-expect-error - intentionally removing window
+      delete (globalThis as Window & { window?: Window }).window;
+
+      expect(detectAutomation()).toEqual({ isAutomated: false, score: 0, signals: [] });
+      expect(isAutomationDetectionSupported()).toBe(false);
+
+      globalThis.window = originalWindow;
+    });
+  });
+
+  describe('automation feature', () => {
+    it('should be a supported feature', () => {
+      expect(DeviceUUID.isFeatureSupported('automation')).toBe(true);
+      expect(getCompatibilityInfo('automation').supportLevel).toBe('partial');
+    });
+
+    it('should report the verdict in getDetailedAsync', async () => {
+      mockChrome();
+      vi.spyOn(navigator, 'webdriver', 'get').mockReturnValue(true);
+
+      const details = await new DeviceUUID().getDetailedAsync({ automation: true });
+
+      expect(details.automation).toEqual({ isAutomated: true, score: 1, signals: ['webdriver'] });
+      expect(details.components.automation).toMatchObject({ value: 'webdriver', success: true });
+    });
+
+    it('should not change the UUID', async () => {
+      const device = new DeviceUUID();
+      const plain = await device.getDetailedAsync({ timezone: true });
+      const withAutomation = await device.getDetailedAsync({ timezone: true, automation: true });
+
+      expect(withAutomation.uuid).toBe(plain.uuid);
+      expect(compareFingerprints(plain, withAutomation).score).toBe(1);
+    });
+
+    it('should be omitted when disabled', async () => {
+      const details = await new DeviceUUID().getDetailedAsync();
+
+      expect(details.automation).toBeUndefined();
+      expect(details.components.automation).toBeUndefined();
+    });
+  });
+});
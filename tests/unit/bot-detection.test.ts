@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest';
-import { DeviceUUID } from '../../src';
-import { bots } from '../fixtures/user-agents';
+import { describe, it, expect, afterEach } from 'vitest';
+import { DeviceUUID, BOT_DEFINITIONS, detectBot, registerBots, resetBots } from '../../src';
+import { DeviceUUID as ServerDeviceUUID } from '../../src/server';
+import { browsers, mobile, tablets, smartTV, bots } from '../fixtures/user-agents';
 
 describe('Bot Detection', () => {
   describe('Search Engine Bots', () => {
@@ -95,4 +96,99 @@ describe('Bot Detection', () => {
       expect(result.os).toBeDefined();
     });
   });
+
+  describe('Bot Catalogue', () => {
+    it.each([
+      ['gptbot', 'GPTBot', 'ai-crawler', 'OpenAI'],
+      ['claudebot', 'ClaudeBot', 'ai-crawler', 'Anthropic'],
+      ['ccbot', 'CCBot', 'ai-crawler', 'Common Crawl'],
+      ['perplexitybot', 'PerplexityBot', 'ai-crawler', 'Perplexity'],
+      ['ahrefsbot', 'AhrefsBot', 'seo', 'Ahrefs'],
+      ['uptimerobot', 'UptimeRobot', 'monitoring', 'UptimeRobot'],
+      ['headlessChrome', 'Headless Chrome', 'headless', 'Google'],
+      ['pythonRequests', 'Requests', 'http-library', 'Python'],
+      ['feedly', 'Feedly', 'feed-reader', 'Feedly'],
+      ['googlebot', 'Googlebot', 'search-engine', 'Google'],
+      ['linkedinbot', 'LinkedInBot', 'social', 'LinkedIn'],
+    ] as const)('should categorize %s', (fixture, name, category, vendor) => {
+      const result = new DeviceUUID().parse(bots[fixture]);
+
+      expect(result.isBot).toBeTruthy();
+      expect(result.bot).toEqual({ name, category, vendor });
+    });
+
+    it('should not flag browsers, mobile devices or TVs', () => {
+      const sources = [browsers, mobile, tablets, smartTV].flatMap((group) =>
+        Object.values(group).flatMap((value: string | Record<string, string>) =>
+          typeof value === 'string' ? [value] : Object.values(value)
+        )
+      );
+
+      for (const source of sources) {
+        const result = new DeviceUUID().parse(source);
+        expect(result.bot, source).toBeNull();
+      }
+    });
+
+    it('should have valid patterns', () => {
+      for (const { pattern } of BOT_DEFINITIONS) {
+        expect(() => new RegExp(pattern, 'i')).not.toThrow();
+      }
+    });
+
+    it('should fill bot info for server-side parsing', () => {
+      const result = ServerDeviceUUID.fromHeaders({ 'user-agent': bots.gptbot });
+
+      expect(result.bot?.category).toBe('ai-crawler');
+    });
+  });
+
+  describe('registerBots', () => {
+    afterEach(() => {
+      resetBots();
+    });
+
+    it('should detect registered bots', () => {
+      registerBots([
+        { pattern: 'acme-crawler', name: 'Acme Crawler', category: 'other', vendor: 'Acme' },
+      ]);
+
+      const result = new DeviceUUID().parse('Acme-Crawler/1.0 (+https://acme.example)');
+
+      expect(result.isBot).toBe('acme-crawler');
+      expect(result.bot).toEqual({ name: 'Acme Crawler', category: 'other', vendor: 'Acme' });
+    });
+
+    it('should accept RegExp patterns', () => {
+      registerBots([
+        { pattern: /internal-probe\/\d+/, name: 'Probe', category: 'monitoring', vendor: 'Us' },
+      ]);
+
+      expect(detectBot('internal-probe/2')?.info.name).toBe('Probe');
+      expect(detectBot('internal-probe/x')).toBeNull();
+    });
+
+    it('should take precedence over built-in entries', () => {
+      registerBots([
+        { pattern: 'googlebot', name: 'Partner', category: 'other', vendor: 'Partner' },
+      ]);
+
+      expect(detectBot(bots.googlebot)?.info.name).toBe('Partner');
+    });
+
+    it('should restore the built-in catalogue on reset', () => {
+      registerBots([
+        { pattern: 'googlebot', name: 'Partner', category: 'other', vendor: 'Partner' },
+      ]);
+      resetBots();
+
+      expect(detectBot(bots.googlebot)?.info.name).toBe('Googlebot');
+    });
+
+    it('should reject invalid patterns', () => {
+      expect(() =>
+        registerBots([{ pattern: '(', name: 'Broken', category: 'other', vendor: 'Broken' }])
+      ).toThrow();
+    });
+  });
 });
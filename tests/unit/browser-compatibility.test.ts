@@ -93,6 +93,7 @@ describe('Browser Compatibility Utilities', () => {
       expect(BROWSER_FEATURE_SUPPORT.tor.canvas).toBe('blocked');
       expect(BROWSER_FEATURE_SUPPORT.tor.webgl).toBe('blocked');
       expect(BROWSER_FEATURE_SUPPORT.tor.audio).toBe('blocked');
+      expect(BROWSER_FEATURE_SUPPORT.tor.voices).toBe('blocked');
     });
 
     it('should have Edge support matrix', () => {
@@ -182,6 +183,14 @@ describe('Browser Compatibility Utilities', () => {
       expect(info.workarounds.length).toBeGreaterThan(0);
     });
 
+    it('should return webgpu compatibility info', () => {
+      const info = getCompatibilityInfo('webgpu');
+      expect(info.feature).toBe('webgpu');
+      expect(info.supportLevel).toBe('partial');
+      expect(info.limitations.length).toBeGreaterThan(0);
+      expect(info.workarounds).toContain('Fall back to WebGL fingerprinting');
+    });
+
     it('should return audio compatibility info', () => {
       const info = getCompatibilityInfo('audio');
       expect(info.feature).toBe('audio');
@@ -196,6 +205,13 @@ describe('Browser Compatibility Utilities', () => {
       expect(info.limitations.length).toBeGreaterThan(0);
     });
 
+    it('should return voices compatibility info', () => {
+      const info = getCompatibilityInfo('voices');
+      expect(info.feature).toBe('voices');
+      expect(info.supportLevel).toBe('partial');
+      expect(info.limitations).toContain('Tor browser disables speech synthesis');
+    });
+
     it('should return mediaDevices compatibility info', () => {
       const info = getCompatibilityInfo('mediaDevices');
       expect(info.feature).toBe('mediaDevices');
@@ -1,6 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { DeviceUUID } from '../../src';
-import { browsers } from '../fixtures/user-agents';
+import { browsers, webViews } from '../fixtures/user-agents';
 
 describe('Browser Detection', () => {
   describe('Chrome', () => {
@@ -132,6 +132,92 @@ describe('Browser Detection', () => {
     });
   });
 
+  describe('Chromium and WebKit based browsers', () => {
+    it.each([
+      ['Samsung Internet', browsers.samsungInternet, '23.0'],
+      ['Yandex', browsers.yandex, '24.1.0.0'],
+      ['Vivaldi', browsers.vivaldi, '6.5.3206.53'],
+      ['Whale', browsers.whale, '3.24.223.18'],
+      ['DuckDuckGo', browsers.duckDuckGo.android, '5'],
+      ['DuckDuckGo', browsers.duckDuckGo.iOS, '17.2'],
+      ['Opera GX', browsers.opera.gx, '2.3'],
+    ])('should detect %s', (browser, source, version) => {
+      const result = new DeviceUUID().parse(source);
+
+      expect(result.browser).toBe(browser);
+      expect(result.version).toBe(version);
+      expect(result.isChrome).toBe(false);
+      expect(result.isSafari).toBe(false);
+    });
+  });
+
+  describe('Brave and Arc', () => {
+    const testNavigator = navigator as Navigator & { brave?: unknown };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      delete testNavigator.brave;
+      document.documentElement.style.removeProperty('--arc-palette-title');
+    });
+
+    it('should detect Brave through navigator.brave', async () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(browsers.chrome.windows);
+      testNavigator.brave = { isBrave: () => Promise.resolve(true) };
+      const device = new DeviceUUID();
+
+      expect(device.parse().browser).toBe('Chrome');
+      const result = await device.parseAsync();
+      expect(result.browser).toBe('Brave');
+      expect(result.version).toBe('120.0.0.0');
+    });
+
+    it('should detect Brave through Client Hints brands', () => {
+      const result = DeviceUUID.fromHeaders({
+        'user-agent': browsers.chrome.windows,
+        'sec-ch-ua': '"Brave";v="120", "Chromium";v="120", "Not_A Brand";v="24"',
+      });
+
+      expect(result.browser).toBe('Brave');
+      expect(result.version).toBe('120');
+    });
+
+    it('should detect Arc through its theme variables', async () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(browsers.chrome.mac);
+      document.documentElement.style.setProperty('--arc-palette-title', '#000000');
+
+      expect((await new DeviceUUID().parseAsync()).browser).toBe('Arc');
+    });
+
+    it('should not check the runtime for explicit user agents', async () => {
+      testNavigator.brave = { isBrave: () => Promise.resolve(true) };
+
+      expect((await new DeviceUUID().parseAsync(browsers.chrome.windows)).browser).toBe('Chrome');
+    });
+  });
+
+  describe('WebViews', () => {
+    it.each([
+      ['Facebook', webViews.facebook],
+      ['Instagram', webViews.instagram],
+      ['TikTok', webViews.tiktok],
+      ['WeChat', webViews.weChat],
+      ['LINE', webViews.line],
+      ['Android WebView', webViews.androidWebView],
+    ])('should detect the %s in-app browser', (appName, source) => {
+      const result = new DeviceUUID().parse(source);
+
+      expect(result.isWebView).toBe(true);
+      expect(result.appName).toBe(appName);
+    });
+
+    it('should not flag regular browsers', () => {
+      const result = new DeviceUUID().parse(browsers.chrome.windows);
+
+      expect(result.isWebView).toBe(false);
+      expect(result.appName).toBe('unknown');
+    });
+  });
+
   describe('Unknown browser', () => {
     it('should extract browser name from unrecognized user agents', () => {
       const device = new DeviceUUID();
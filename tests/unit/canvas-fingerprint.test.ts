@@ -2,8 +2,36 @@
  * Unit tests for Canvas fingerprinting
  */
 
-import { describe, it, expect, vi } from 'vitest';
-import { isCanvasSupported, getCanvasFingerprint } from '../../src';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DeviceUUID,
+  isCanvasSupported,
+  getCanvasFingerprint,
+  getCanvasFingerprintRaw,
+} from '../../src';
+
+/**
+ * Render canvases with a fake 2D context whose reads return the given data URLs in turn
+ */
+const mockCanvasReads = (dataUrls: string[]): void => {
+  const createElement = document.createElement.bind(document);
+  let read = 0;
+  vi.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
+    const element = createElement(tagName);
+    if (tagName === 'canvas') {
+      const ctx = new Proxy(
+        {
+          createLinearGradient: () => ({ addColorStop: () => undefined }),
+          getImageData: () => ({ data: [255, 0, 0, 255] }),
+        },
+        { get: (target, prop) => (target as Record<string | symbol, unknown>)[prop] ?? vi.fn() }
+      );
+      (element as HTMLCanvasElement).getContext = (() => ctx) as never;
+      (element as HTMLCanvasElement).toDataURL = () => dataUrls[read++ % dataUrls.length];
+    }
+    return element;
+  });
+};
 
 describe('Canvas Fingerprinting', () => {
   describe('isCanvasSupported', () => {
@@ -157,4 +185,61 @@ describe('Canvas Fingerprinting', () => {
       expect(hash === null || typeof hash === 'string').toBe(true);
     });
   });
+
+  describe('randomization detection', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should report stable canvases as not randomized', async () => {
+      mockCanvasReads(['data:image/png;base64,stable']);
+
+      const result = await getCanvasFingerprintRaw();
+
+      expect(result?.randomized).toBe(false);
+    });
+
+    it('should detect noise that changes between reads', async () => {
+      mockCanvasReads(['data:image/png;base64,a', 'data:image/png;base64,b']);
+
+      const result = await getCanvasFingerprintRaw();
+
+      expect(result?.randomized).toBe(true);
+      expect(result?.raw.dataUrl).toBe('data:image/png;base64,a');
+    });
+
+    it('should detect noise that differs between canvases', async () => {
+      // Same value for both reads of the first canvas, another value for the second canvas
+      mockCanvasReads([
+        'data:image/png;base64,a',
+        'data:image/png;base64,a',
+        'data:image/png;base64,b',
+      ]);
+
+      expect((await getCanvasFingerprintRaw())?.randomized).toBe(true);
+    });
+
+    it('should report randomized canvas components', async () => {
+      mockCanvasReads(['data:image/png;base64,a', 'data:image/png;base64,b']);
+
+      const details = await new DeviceUUID().getDetailedAsync({ canvas: true });
+
+      expect(details.components.canvas?.randomized).toBe(true);
+      expect(details.components.canvas?.success).toBe(true);
+    });
+
+    it('should leave randomized components out of the UUID when requested', async () => {
+      const device = new DeviceUUID();
+      const basicOnly = await device.getDetailedAsync();
+      mockCanvasReads(['data:image/png;base64,a', 'data:image/png;base64,b']);
+
+      const included = await device.getDetailedAsync({ canvas: true });
+      const excluded = await device.getDetailedAsync({ canvas: true, excludeRandomized: true });
+
+      expect(included.uuid).not.toBe(basicOnly.uuid);
+      expect(excluded.uuid).toBe(basicOnly.uuid);
+      expect(excluded.entropy).toBe(basicOnly.entropy);
+      expect(excluded.components.canvas?.randomized).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,215 @@
+// @vitest-environment node
+/**
+ * Unit tests for the device-uuid command line interface
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PassThrough, Readable } from 'node:stream';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli } from '../../src/cli';
+import { parseUserAgent } from '../../src/core/parser';
+import {
+  ReportCollector,
+  createCachedParser,
+  extractUserAgent,
+  formatRecord,
+  formatReport,
+} from '../../src/cli/analyze';
+import { bots, browsers, mobile } from '../fixtures/user-agents';
+
+vi.mock('../../src/core/parser', async (importOriginal) => {
+  const parser = await importOriginal<typeof import('../../src/core/parser')>();
+  return { ...parser, parseUserAgent: vi.fn(parser.parseUserAgent) };
+});
+
+const COMBINED_LINE = `203.0.113.7 - - [10/Oct/2025:13:55:36 +0000] "GET /index.html HTTP/1.1" 200 2326 "https://example.com/" "${browsers.firefox.windows}"`;
+
+/**
+ * Run the CLI with the given stdin and collect its output
+ */
+const run = async (argv: string[], input = '') => {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let out = '';
+  let err = '';
+  stdout.on('data', (chunk) => (out += chunk));
+  stderr.on('data', (chunk) => (err += chunk));
+
+  const code = await runCli(argv, { stdin: Readable.from([input]), stdout, stderr });
+  return { code, out, err, lines: out.split('\n').filter(Boolean) };
+};
+
+describe('CLI', () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  describe('extractUserAgent', () => {
+    it('should read the user agent from combined log lines', () => {
+      expect(extractUserAgent(COMBINED_LINE)).toBe(browsers.firefox.windows);
+      expect(extractUserAgent(COMBINED_LINE, 'combined')).toBe(browsers.firefox.windows);
+    });
+
+    it('should unescape quotes in combined log lines', () => {
+      const line =
+        '10.0.0.1 - - [10/Oct/2025:13:55:36 +0000] "GET / HTTP/1.1" 200 - "-" "a \\"b\\""';
+
+      expect(extractUserAgent(line)).toBe('a "b"');
+    });
+
+    it('should treat other lines as user agents', () => {
+      expect(extractUserAgent(`  ${browsers.chrome.windows}  `)).toBe(browsers.chrome.windows);
+      expect(extractUserAgent(browsers.chrome.windows, 'combined')).toBeNull();
+      expect(extractUserAgent(COMBINED_LINE, 'ua')).toBe(COMBINED_LINE);
+      expect(extractUserAgent('   ')).toBeNull();
+    });
+  });
+
+  describe('createCachedParser', () => {
+    it('should reuse parse results for repeated user agents', () => {
+      const parse = createCachedParser();
+
+      expect(parse(browsers.chrome.windows)).toBe(parse(browsers.chrome.windows));
+      expect(parse(browsers.chrome.windows).browser).toBe('Chrome');
+    });
+
+    it('should parse every line without a cache', () => {
+      const parse = createCachedParser(0);
+
+      expect(parse(browsers.chrome.windows)).not.toBe(parse(browsers.chrome.windows));
+    });
+  });
+
+  describe('formatRecord', () => {
+    const agent = createCachedParser()(browsers.chrome.windows);
+
+    it('should format JSON Lines records', () => {
+      expect(formatRecord(agent, ['browser', 'isMobile'], 'jsonl')).toBe(
+        '{"browser":"Chrome","isMobile":false}'
+      );
+    });
+
+    it('should escape CSV cells', () => {
+      expect(formatRecord(agent, ['source', 'browserVersion'], 'csv')).toBe(
+        `"${browsers.chrome.windows.replace(/"/g, '""')}",` +
+          '"{""major"":120,""minor"":0,""patch"":0,""raw"":""120.0.0.0""}"'
+      );
+    });
+  });
+
+  describe('reports', () => {
+    it('should count browser, OS and bot shares', () => {
+      const parse = createCachedParser();
+      const collector = new ReportCollector();
+      [browsers.chrome.windows, browsers.chrome.mac, mobile.iPhone.safari, bots.googlebot].forEach(
+        (ua) => collector.add(parse(ua))
+      );
+
+      const report = collector.getReport();
+
+      expect(report.total).toBe(4);
+      expect(report.browser[0]).toEqual({ value: 'Chrome', count: 2, share: 0.5 });
+      expect(report.bot).toContainEqual({ value: 'human', count: 3, share: 0.75 });
+      expect(report.bot).toContainEqual({ value: 'search-engine', count: 1, share: 0.25 });
+    });
+
+    it('should format CSV reports', () => {
+      const lines = formatReport(
+        { total: 1, browser: [{ value: 'Chrome', count: 1, share: 1 }], os: [], bot: [] },
+        'csv'
+      );
+
+      expect(lines).toEqual(['dimension,value,count,share', 'browser,Chrome,1,1.0000']);
+    });
+  });
+
+  describe('runCli', () => {
+    it('should write JSON Lines for stdin', async () => {
+      const { code, lines } = await run(
+        ['--fields', 'browser,os'],
+        `${browsers.chrome.windows}\n\n${COMBINED_LINE}\n`
+      );
+
+      expect(code).toBe(0);
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        { browser: 'Chrome', os: 'Windows 10.0' },
+        { browser: 'Firefox', os: 'Windows 10.0' },
+      ]);
+    });
+
+    it('should write CSV with a header row', async () => {
+      const { lines } = await run(
+        ['-f', 'csv', '--fields', 'browser,isMobile'],
+        mobile.iPhone.safari
+      );
+
+      expect(lines).toEqual(['browser,isMobile', 'Safari,true']);
+    });
+
+    it('should print an aggregate report', async () => {
+      const { lines } = await run(
+        ['--report'],
+        [browsers.chrome.windows, browsers.chrome.windows, bots.googlebot].join('\n')
+      );
+      const report = JSON.parse(lines[0]);
+
+      expect(lines).toHaveLength(1);
+      expect(report.total).toBe(3);
+      expect(report.browser[0]).toMatchObject({ value: 'Chrome', count: 2 });
+    });
+
+    it('should read files', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'device-uuid-cli-'));
+      const file = join(dir, 'access.log');
+      writeFileSync(file, `${COMBINED_LINE}\n${COMBINED_LINE}\n`);
+
+      const { code, lines } = await run(['--fields', 'browser', file, file]);
+
+      expect(code).toBe(0);
+      expect(lines).toHaveLength(4);
+    });
+
+    it('should parse repeated user agents once', async () => {
+      vi.mocked(parseUserAgent).mockClear();
+      const input = `${browsers.chrome.windows}\n`.repeat(3);
+
+      expect((await run([], input)).lines).toHaveLength(3);
+      expect(parseUserAgent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-parse every line with --cache-size 0', async () => {
+      vi.mocked(parseUserAgent).mockClear();
+      const input = `${browsers.chrome.windows}\n`.repeat(3);
+
+      expect((await run(['--cache-size', '0'], input)).lines).toHaveLength(3);
+      expect(parseUserAgent).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report missing files', async () => {
+      const { code, err } = await run([join(tmpdir(), 'device-uuid-missing.log')]);
+
+      expect(code).toBe(1);
+      expect(err).toContain('ENOENT');
+    });
+
+    it('should reject invalid options', async () => {
+      expect((await run(['--format', 'xml'])).code).toBe(2);
+      expect((await run(['--fields', 'browser,nope'])).err).toContain('unknown fields: nope');
+      expect((await run(['--fields', 'toString'])).err).toContain('unknown fields: toString');
+      expect((await run(['--cache-size', '-1'])).code).toBe(2);
+      expect((await run(['--unknown'])).code).toBe(2);
+    });
+
+    it('should print usage', async () => {
+      const { code, out } = await run(['--help']);
+
+      expect(code).toBe(0);
+      expect(out).toContain('Usage: device-uuid');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Unit tests for User-Agent Client Hints support
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { DeviceUUID } from '../../src';
+import {
+  parseClientHintsHeaders,
+  getHighEntropyValues,
+  isClientHintsSupported,
+  applyClientHints,
+} from '../../src/utils/client-hints';
+import { browsers } from '../fixtures/user-agents';
+
+const WINDOWS_11_HEADERS = {
+  'sec-ch-ua': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
+  'sec-ch-ua-mobile': '?0',
+  'sec-ch-ua-platform': '"Windows"',
+  'sec-ch-ua-platform-version': '"15.0.0"',
+  'sec-ch-ua-full-version-list':
+    '"Not_A Brand";v="8.0.0.0", "Chromium";v="120.0.6099.130", "Google Chrome";v="120.0.6099.130"',
+  'sec-ch-ua-arch': '"x86"',
+  'sec-ch-ua-bitness': '"64"',
+  'sec-ch-ua-model': '""',
+};
+
+const setUserAgentData = (value: unknown): void => {
+  Object.defineProperty(navigator, 'userAgentData', {
+    value,
+    writable: true,
+    configurable: true,
+  });
+};
+
+describe('Client Hints', () => {
+  afterEach(() => {
+    setUserAgentData(undefined);
+  });
+
+  describe('parseClientHintsHeaders', () => {
+    it('should return null when no hints are present', () => {
+      expect(parseClientHintsHeaders({ 'user-agent': browsers.chrome.windows })).toBeNull();
+    });
+
+    it('should parse brand lists and structured values', () => {
+      const hints = parseClientHintsHeaders(WINDOWS_11_HEADERS);
+
+      expect(hints).not.toBeNull();
+      expect(hints?.brands).toHaveLength(3);
+      expect(hints?.brands[2]).toEqual({ brand: 'Google Chrome', version: '120' });
+      expect(hints?.fullVersionList[1]).toEqual({ brand: 'Chromium', version: '120.0.6099.130' });
+      expect(hints?.platform).toBe('Windows');
+      expect(hints?.platformVersion).toBe('15.0.0');
+      expect(hints?.mobile).toBe(false);
+      expect(hints?.architecture).toBe('x86');
+      expect(hints?.bitness).toBe('64');
+      expect(hints?.model).toBe('');
+    });
+
+    it('should parse the mobile flag', () => {
+      const hints = parseClientHintsHeaders({
+        'sec-ch-ua-platform': '"Android"',
+        'sec-ch-ua-mobile': '?1',
+      });
+      expect(hints?.mobile).toBe(true);
+    });
+  });
+
+  describe('getHighEntropyValues', () => {
+    it('should return null when userAgentData is unavailable', async () => {
+      expect(isClientHintsSupported()).toBe(false);
+      expect(await getHighEntropyValues()).toBeNull();
+    });
+
+    it('should merge low and high entropy values', async () => {
+      setUserAgentData({
+        brands: [{ brand: 'Google Chrome', version: '120' }],
+        mobile: false,
+        platform: 'macOS',
+        getHighEntropyValues: async () => ({
+          platformVersion: '14.2.1',
+          architecture: 'arm',
+          bitness: '64',
+        }),
+      });
+
+      expect(isClientHintsSupported()).toBe(true);
+      const hints = await getHighEntropyValues();
+      expect(hints?.platform).toBe('macOS');
+      expect(hints?.platformVersion).toBe('14.2.1');
+      expect(hints?.architecture).toBe('arm');
+    });
+
+    it('should fall back to low entropy values when the request fails', async () => {
+      setUserAgentData({
+        brands: [],
+        mobile: true,
+        platform: 'Android',
+        getHighEntropyValues: () => Promise.reject(new Error('NotAllowedError')),
+      });
+
+      const hints = await getHighEntropyValues();
+      expect(hints?.platform).toBe('Android');
+      expect(hints?.mobile).toBe(true);
+      expect(hints?.platformVersion).toBe('');
+    });
+  });
+
+  describe('applyClientHints', () => {
+    it('should keep Windows 10 for platform versions below 13', () => {
+      const agent = new DeviceUUID().parse(browsers.chrome.windows);
+      applyClientHints(
+        agent,
+        parseClientHintsHeaders({
+          ...WINDOWS_11_HEADERS,
+          'sec-ch-ua-platform-version': '"10.0.0"',
+        })!
+      );
+      expect(agent.os).toBe('Windows 10.0');
+    });
+
+    it('should leave the user agent OS alone for legacy Windows', () => {
+      const agent = new DeviceUUID().parse(
+        'Mozilla/5.0 (Windows NT 6.1; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/109.0.0.0 Safari/537.36'
+      );
+      applyClientHints(
+        agent,
+        parseClientHintsHeaders({
+          ...WINDOWS_11_HEADERS,
+          'sec-ch-ua-platform-version': '"0.1.0"',
+        })!
+      );
+      expect(agent.os).toBe('Windows 7');
+    });
+  });
+
+  describe('DeviceUUID.parseAsync', () => {
+    it('should behave like parse without hints', async () => {
+      const device = new DeviceUUID();
+      const result = await device.parseAsync(browsers.firefox.linux);
+
+      expect(result.browser).toBe('Firefox');
+      expect(result.clientHints).toBeNull();
+    });
+
+    it('should merge Sec-CH-UA headers', async () => {
+      const device = new DeviceUUID();
+      const result = await device.parseAsync(browsers.chrome.windows, WINDOWS_11_HEADERS);
+
+      expect(result.os).toBe('Windows 11');
+      expect(result.version).toBe('120.0.6099.130');
+      expect(result.architecture).toBe('x86');
+      expect(result.bitness).toBe('64');
+      expect(result.clientHints?.platform).toBe('Windows');
+    });
+
+    it('should use the Edge brand version for Edge', async () => {
+      const device = new DeviceUUID();
+      const result = await device.parseAsync(browsers.edge.windows, {
+        'sec-ch-ua-platform': '"Windows"',
+        'sec-ch-ua-full-version-list':
+          '"Chromium";v="120.0.6099.130", "Microsoft Edge";v="120.0.2210.91"',
+      });
+
+      expect(result.version).toBe('120.0.2210.91');
+    });
+
+    it('should resolve the real macOS version', async () => {
+      setUserAgentData({
+        brands: [{ brand: 'Google Chrome', version: '120' }],
+        mobile: false,
+        platform: 'macOS',
+        getHighEntropyValues: async () => ({ platformVersion: '14.2.1' }),
+      });
+
+      const device = new DeviceUUID();
+      const result = await device.parseAsync(browsers.chrome.mac);
+
+      expect(result.os).toBe('macOS Sonoma');
+      expect(result.isMac).toBe(true);
+    });
+
+    it('should mark mobile devices from the mobile hint', async () => {
+      const device = new DeviceUUID();
+      const result = await device.parseAsync(
+        'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+        {
+          'sec-ch-ua-platform': '"Android"',
+          'sec-ch-ua-mobile': '?1',
+          'sec-ch-ua-model': '"Pixel 8"',
+        }
+      );
+
+      expect(result.isMobile).toBe(true);
+      expect(result.model).toBe('Pixel 8');
+    });
+  });
+});
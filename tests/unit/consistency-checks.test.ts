@@ -0,0 +1,216 @@
+/**
+ * Unit tests for user agent consistency checks
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DeviceUUID, detectInconsistencies, INCONSISTENCY_WEIGHTS } from '../../src';
+import { browsers, mobile } from '../fixtures/user-agents';
+
+const testWindow = window as unknown as Record<string, unknown>;
+
+/**
+ * Set the live navigator signals of the test environment
+ */
+const mockEnvironment = (platform: string, maxTouchPoints = 0): void => {
+  vi.spyOn(navigator, 'platform', 'get').mockReturnValue(platform);
+  vi.spyOn(navigator, 'maxTouchPoints', 'get').mockReturnValue(maxTouchPoints);
+};
+
+/**
+ * Make WebGL report the given unmasked renderer
+ */
+const mockRenderer = (renderer: string): void => {
+  const createElement = document.createElement.bind(document);
+  vi.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
+    const element = createElement(tagName);
+    if (tagName === 'canvas') {
+      const gl = {
+        getExtension: (name: string) =>
+          name === 'WEBGL_debug_renderer_info'
+            ? { UNMASKED_VENDOR_WEBGL: 1, UNMASKED_RENDERER_WEBGL: 2 }
+            : null,
+        getParameter: (param: number) => (param === 1 ? 'Google Inc.' : renderer),
+      };
+      (element as HTMLCanvasElement).getContext = (() => gl) as never;
+    }
+    return element;
+  });
+};
+
+const parse = (source: string) => new DeviceUUID().parse(source);
+
+describe('Consistency Checks', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete testWindow.chrome;
+  });
+
+  describe('detectInconsistencies', () => {
+    it('should accept a consistent environment', () => {
+      mockEnvironment('Win32');
+      mockRenderer('ANGLE (NVIDIA, NVIDIA GeForce RTX 3060 Direct3D11 vs_5_0 ps_5_0, D3D11)');
+      testWindow.chrome = {};
+
+      expect(detectInconsistencies(parse(browsers.chrome.windows))).toEqual({
+        inconsistencies: [],
+        lieScore: 0,
+      });
+    });
+
+    it('should detect a Direct3D renderer behind a Mac user agent', () => {
+      mockEnvironment('MacIntel');
+      mockRenderer('ANGLE (NVIDIA, NVIDIA GeForce RTX 3060 Direct3D11 vs_5_0 ps_5_0, D3D11)');
+
+      const result = detectInconsistencies(parse(browsers.safari.mac));
+
+      expect(result.inconsistencies).toEqual([
+        {
+          name: 'gpuPlatform',
+          expected: 'macOS',
+          actual: 'ANGLE (NVIDIA, NVIDIA GeForce RTX 3060 Direct3D11 vs_5_0 ps_5_0, D3D11)',
+        },
+      ]);
+      expect(result.lieScore).toBe(INCONSISTENCY_WEIGHTS.gpuPlatform);
+    });
+
+    it('should detect an Apple GPU behind a Windows user agent', () => {
+      mockEnvironment('Win32');
+      mockRenderer('Apple M2');
+      testWindow.chrome = {};
+
+      const names = detectInconsistencies(parse(browsers.chrome.windows)).inconsistencies;
+
+      expect(names.map(({ name }) => name)).toEqual(['gpuPlatform']);
+    });
+
+    it('should detect an iPhone without touch points', () => {
+      mockEnvironment('iPhone', 0);
+
+      const result = detectInconsistencies(parse(mobile.iPhone.safari));
+
+      expect(result.inconsistencies.map(({ name }) => name)).toEqual(['touchSupport']);
+    });
+
+    it('should accept an iPhone with touch points', () => {
+      mockEnvironment('iPhone', 5);
+
+      expect(detectInconsistencies(parse(mobile.iPhone.safari)).inconsistencies).toEqual([]);
+    });
+
+    it('should detect window.chrome behind a Firefox user agent', () => {
+      mockEnvironment('Win32');
+      testWindow.chrome = {};
+
+      const result = detectInconsistencies(parse(browsers.firefox.windows));
+
+      expect(result.inconsistencies).toEqual([
+        { name: 'browserEngine', expected: 'Firefox', actual: 'window.chrome' },
+      ]);
+    });
+
+    it('should detect navigator.platform mismatches', () => {
+      mockEnvironment('Win32');
+
+      const result = detectInconsistencies(parse(browsers.safari.mac));
+
+      expect(result.inconsistencies).toEqual([
+        { name: 'navigatorPlatform', expected: 'macOS', actual: 'Win32' },
+      ]);
+    });
+
+    it('should accept Linux platforms for Android user agents', () => {
+      mockEnvironment('Linux armv8l', 5);
+      testWindow.chrome = {};
+
+      expect(detectInconsistencies(parse(mobile.android.chrome)).inconsistencies).toEqual([]);
+    });
+
+    it('should detect Client Hints platform mismatches', async () => {
+      const agent = await new DeviceUUID().parseAsync(browsers.chrome.mac, {
+        'sec-ch-ua-platform': '"Windows"',
+      });
+
+      const result = detectInconsistencies(agent);
+
+      expect(result.inconsistencies).toContainEqual({
+        name: 'clientHintsPlatform',
+        expected: 'macOS',
+        actual: 'Windows',
+      });
+    });
+
+    it('should accept Android Client Hints in desktop site mode', async () => {
+      mockEnvironment('Linux armv8l', 5);
+      testWindow.chrome = {};
+      const agent = await new DeviceUUID().parseAsync(browsers.chrome.linux, {
+        'sec-ch-ua-platform': '"Android"',
+        'sec-ch-ua-mobile': '?0',
+      });
+
+      expect(detectInconsistencies(agent)).toEqual({ inconsistencies: [], lieScore: 0 });
+    });
+
+    it('should check Client Hints server-side', () => {
+      const originalWindow = globalThis.window;
+      // @ts-expect-error - intentionally removing window
+      delete (globalThis as Window & { window?: Window }).window;
+
+      const agent = DeviceUUID.fromHeaders({
+        'user-agent': mobile.android.chrome,
+        'sec-ch-ua-platform': '"Windows"',
+      });
+      const result = detectInconsistencies(agent);
+
+      globalThis.window = originalWindow;
+
+      expect(result.inconsistencies).toEqual([
+        { name: 'clientHintsPlatform', expected: 'Android', actual: 'Windows' },
+      ]);
+    });
+
+    it('should cap the lie score at 1', () => {
+      mockEnvironment('Win32', 0);
+      mockRenderer('ANGLE (Intel, Intel(R) UHD Graphics Direct3D11 vs_5_0 ps_5_0, D3D11)');
+      testWindow.chrome = {};
+
+      const result = detectInconsistencies(parse(mobile.iPhone.safari));
+
+      expect(result.inconsistencies.length).toBeGreaterThan(2);
+      expect(result.lieScore).toBe(1);
+    });
+  });
+
+  describe('consistency option', () => {
+    it('should lower the confidence of spoofed environments', async () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(browsers.safari.mac);
+      mockEnvironment('Win32');
+      const device = new DeviceUUID();
+
+      const plain = await device.getDetailedAsync();
+      const checked = await device.getDetailedAsync({ consistency: true });
+
+      expect(checked.consistency?.lieScore).toBe(INCONSISTENCY_WEIGHTS.navigatorPlatform);
+      expect(checked.confidence).toBeCloseTo(plain.confidence * 0.6);
+      expect(checked.uuid).toBe(plain.uuid);
+    });
+
+    it('should keep the confidence of consistent environments', async () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(browsers.safari.mac);
+      mockEnvironment('MacIntel');
+
+      const device = new DeviceUUID();
+
+      const plain = await device.getDetailedAsync();
+      const details = await device.getDetailedAsync({ consistency: true });
+
+      expect(details.consistency).toEqual({ inconsistencies: [], lieScore: 0 });
+      expect(details.confidence).toBe(plain.confidence);
+    });
+
+    it('should be omitted when disabled', async () => {
+      const details = await new DeviceUUID().getDetailedAsync();
+
+      expect(details.consistency).toBeUndefined();
+    });
+  });
+});
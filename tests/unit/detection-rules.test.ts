@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the detection rule engine and custom rule sets
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DeviceUUID, DETECTION_RULES } from '../../src';
+import type { DetectionRule } from '../../src';
+import { createDeviceResolver } from '../../src/server';
+import { browsers, mobile } from '../fixtures/user-agents';
+
+const KIOSK_UA =
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 AcmeKiosk/4.2.1';
+
+const kioskRules: DetectionRule[] = [
+  {
+    kind: 'browser',
+    name: 'Acme Kiosk',
+    pattern: 'AcmeKiosk/',
+    // Above the built-in Chrome rule, which also matches the kiosk user agent
+    priority: 1000,
+    fields: { isChrome: true },
+    version: /AcmeKiosk\/([\d.]+)/,
+  },
+  {
+    kind: 'os',
+    name: 'Acme OS',
+    pattern: /AcmeKiosk/,
+    priority: 1000,
+  },
+];
+
+describe('Detection Rules', () => {
+  describe('DETECTION_RULES', () => {
+    it('should cover browsers, operating systems and platforms', () => {
+      const kinds = new Set(DETECTION_RULES.map(({ kind }) => kind));
+
+      expect([...kinds].sort()).toEqual(['browser', 'os', 'platform']);
+    });
+
+    it('should give every built-in rule a priority', () => {
+      expect(DETECTION_RULES.every(({ priority }) => typeof priority === 'number')).toBe(true);
+    });
+  });
+
+  describe('built-in rules', () => {
+    it('should keep the previous detection results', () => {
+      const agent = new DeviceUUID().parse(browsers.chrome.windows);
+
+      expect(agent.browser).toBe('Chrome');
+      expect(agent.version).toBe('120.0.0.0');
+      expect(agent.isChrome).toBe(true);
+      expect(agent.os).toBe('Windows 10.0');
+      expect(agent.isWindows).toBe(true);
+      expect(agent.platform).toBe('Microsoft Windows');
+    });
+
+    it('should fall back to the product token for unknown non-Mozilla agents', () => {
+      const agent = new DeviceUUID().parse('AcmeKiosk/4.2.1');
+
+      expect(agent.browser).toBe('AcmeKiosk');
+      expect(agent.version).toBe('4.2.1');
+      expect(agent.isAuthoritative).toBe(false);
+    });
+  });
+
+  describe('custom rules', () => {
+    it('should detect a custom browser with its version and fields', () => {
+      const agent = new DeviceUUID({ rules: kioskRules }).parse(KIOSK_UA);
+
+      expect(agent.browser).toBe('Acme Kiosk');
+      expect(agent.version).toBe('4.2.1');
+      expect(agent.isChrome).toBe(true);
+      expect(agent.os).toBe('Acme OS');
+      expect(agent.platform).toBe('Linux');
+    });
+
+    it('should not affect instances without custom rules', () => {
+      expect(new DeviceUUID().parse(KIOSK_UA).browser).toBe('Chrome');
+    });
+
+    it('should check built-in rules first when the custom priority is lower', () => {
+      const rules: DetectionRule[] = [{ ...kioskRules[0], priority: -1 }];
+
+      expect(new DeviceUUID({ rules }).parse(KIOSK_UA).browser).toBe('Chrome');
+    });
+
+    it('should prefer custom rules over built-in rules of equal priority', () => {
+      const chrome = DETECTION_RULES.find(({ name }) => name === 'Chrome');
+      const rules: DetectionRule[] = [{ ...kioskRules[0], priority: chrome?.priority }];
+
+      expect(new DeviceUUID({ rules }).parse(KIOSK_UA).browser).toBe('Acme Kiosk');
+    });
+
+    it('should accept version extractor functions', () => {
+      const rules: DetectionRule[] = [
+        {
+          kind: 'browser',
+          name: 'Acme Kiosk',
+          pattern: /AcmeKiosk/,
+          priority: 1000,
+          version: (source) => source.split('AcmeKiosk/')[1]?.split('.')[0] ?? null,
+        },
+      ];
+
+      expect(new DeviceUUID({ rules }).parse(KIOSK_UA).version).toBe('4');
+    });
+
+    it('should fall back to the generic version pattern', () => {
+      const rules: DetectionRule[] = [
+        { kind: 'browser', name: 'AcmeKiosk', pattern: /AcmeKiosk/, priority: 1000 },
+      ];
+
+      expect(new DeviceUUID({ rules }).parse(KIOSK_UA).version).toBe('4.2.1');
+    });
+
+    it('should override platform detection', () => {
+      const rules: DetectionRule[] = [
+        { kind: 'platform', name: 'Acme Terminal', pattern: /iPhone/, priority: 1000 },
+      ];
+
+      const agent = new DeviceUUID({ rules }).parse(mobile.iPhone.safari);
+
+      expect(agent.platform).toBe('Acme Terminal');
+      expect(agent.isiPhone).toBe(true);
+    });
+
+    it('should not change the UUID for agents the rules do not match', () => {
+      const plain = new DeviceUUID().get(browsers.firefox.windows);
+      const custom = new DeviceUUID({ rules: kioskRules }).get(browsers.firefox.windows);
+
+      expect(custom).toBe(plain);
+    });
+
+    it('should apply custom rules to request headers', () => {
+      const headers = { 'user-agent': KIOSK_UA };
+
+      expect(DeviceUUID.fromHeaders(headers, undefined, kioskRules).browser).toBe('Acme Kiosk');
+      expect(createDeviceResolver({ uuidOptions: { rules: kioskRules } })(headers).browser).toBe(
+        'Acme Kiosk'
+      );
+    });
+  });
+});
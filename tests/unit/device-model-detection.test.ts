@@ -0,0 +1,181 @@
+/**
+ * Unit tests for device vendor, model and form factor detection
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DeviceUUID, DEVICE_DEFINITIONS, detectDevice } from '../../src';
+import { browsers, devices, mobile, smartTV, tablets } from '../fixtures/user-agents';
+
+const parse = (source: string) => new DeviceUUID().parse(source);
+
+describe('Device Model Detection', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('detectDevice', () => {
+    it('should return null for unknown devices', () => {
+      expect(detectDevice('')).toBeNull();
+      expect(detectDevice(devices.reducedAndroid)).toBeNull();
+    });
+
+    it('should leave the type of generic entries to the user agent flags', () => {
+      expect(detectDevice(devices.pixel8Pro)).toEqual({
+        vendor: 'Google',
+        model: 'Pixel 8 Pro',
+        type: 'unknown',
+      });
+    });
+
+    it('should match bare Client Hints models', () => {
+      expect(detectDevice('SM-S918B')?.model).toBe('Galaxy S23 Ultra');
+      expect(detectDevice('Pixel 7')?.model).toBe('Pixel 7');
+    });
+
+    it('should keep every built-in Kindle model name', () => {
+      const kindles = DEVICE_DEFINITIONS.filter(({ pattern }) => /KF/.test(String(pattern)));
+
+      expect(kindles.length).toBeGreaterThanOrEqual(10);
+      expect(kindles.every(({ vendor, type }) => vendor === 'Amazon' && type === 'tablet')).toBe(
+        true
+      );
+    });
+  });
+
+  describe('Android devices', () => {
+    it.each([
+      ['Galaxy S23 Ultra', devices.galaxyS23Ultra, 'Samsung', 'Galaxy S23 Ultra', 'mobile'],
+      ['Galaxy S24', devices.galaxyS24, 'Samsung', 'Galaxy S24', 'mobile'],
+      ['Galaxy S24 Ultra', devices.galaxyS24Ultra, 'Samsung', 'Galaxy S24 Ultra', 'mobile'],
+      ['generic Samsung codes', devices.galaxyUnknown, 'Samsung', 'SM-M236B', 'mobile'],
+      ['Galaxy Tab S8', tablets.androidTablet, 'Samsung', 'Galaxy Tab S8', 'tablet'],
+      ['Galaxy Watch4', devices.galaxyWatch, 'Samsung', 'Galaxy Watch4', 'wearable'],
+      ['Pixel 8 Pro', devices.pixel8Pro, 'Google', 'Pixel 8 Pro', 'mobile'],
+      ['Pixel Tablet', devices.pixelTablet, 'Google', 'Pixel Tablet', 'tablet'],
+      ['Redmi Note 12 Pro', devices.redmiNote, 'Xiaomi', 'Redmi Note 12 Pro', 'mobile'],
+      ['Xiaomi model codes', devices.xiaomiCode, 'Xiaomi', '22101316G', 'mobile'],
+      ['Huawei phones', devices.huaweiP30, 'Huawei', 'ELE-L29', 'mobile'],
+      ['Huawei MatePad', devices.huaweiMatePad, 'Huawei', 'BAH3-W09', 'tablet'],
+      ['OnePlus', devices.onePlus, 'OnePlus', 'A6003', 'mobile'],
+      ['OnePlus model codes', devices.onePlusCode, 'OnePlus', 'IN2023', 'mobile'],
+    ])('should detect %s', (_name, source, vendor, model, type) => {
+      expect(parse(source).device).toEqual({ vendor, model, type });
+    });
+
+    it('should report unknown models for reduced user agents', () => {
+      expect(parse(devices.reducedAndroid).device).toEqual({
+        vendor: 'unknown',
+        model: 'unknown',
+        type: 'mobile',
+      });
+    });
+
+    it('should fill the model from Sec-CH-UA-Model', async () => {
+      const agent = await new DeviceUUID().parseAsync(devices.reducedAndroid, {
+        'sec-ch-ua-platform': '"Android"',
+        'sec-ch-ua-model': '"SM-S918B"',
+        'sec-ch-ua-mobile': '?1',
+      });
+
+      expect(agent.device).toEqual({
+        vendor: 'Samsung',
+        model: 'Galaxy S23 Ultra',
+        type: 'mobile',
+      });
+    });
+
+    it('should keep unknown Client Hints models', () => {
+      const agent = DeviceUUID.fromHeaders({
+        'user-agent': devices.reducedAndroid,
+        'sec-ch-ua-platform': '"Android"',
+        'sec-ch-ua-model': '"XQ-DQ54"',
+      });
+
+      expect(agent.device).toEqual({ vendor: 'unknown', model: 'XQ-DQ54', type: 'mobile' });
+    });
+  });
+
+  describe('Amazon devices', () => {
+    it('should keep the Kindle Fire model names', () => {
+      const agent = parse(devices.kindleFireHDX);
+
+      expect(agent.isKindleFire).toBe(true);
+      expect(agent.device).toEqual({
+        vendor: 'Amazon',
+        model: 'Kindle Fire HDX 7',
+        type: 'tablet',
+      });
+      expect(parse(tablets.kindleFire).device.model).toBe('Kindle Fire HD 10');
+    });
+
+    it('should detect newer Fire tablets', () => {
+      const agent = parse(devices.kindleFire7);
+
+      expect(agent.isKindleFire).toBe(true);
+      expect(agent.device.model).toBe('Fire 7 (2019)');
+    });
+
+    it('should detect Kindle e-readers', () => {
+      const agent = parse(devices.kindlePaperwhite);
+
+      expect(agent.isKindleFire).toBe(false);
+      expect(agent.device).toEqual({ vendor: 'Amazon', model: 'Kindle', type: 'ereader' });
+    });
+  });
+
+  describe('Apple devices', () => {
+    it('should detect iPhone, iPad and Mac', () => {
+      expect(parse(mobile.iPhone.safari).device).toEqual({
+        vendor: 'Apple',
+        model: 'iPhone',
+        type: 'mobile',
+      });
+      expect(parse(tablets.iPad).device.type).toBe('tablet');
+      expect(parse(browsers.safari.mac).device).toEqual({
+        vendor: 'Apple',
+        model: 'Mac',
+        type: 'desktop',
+      });
+    });
+
+    it('should detect Apple Watch and Apple TV', () => {
+      expect(parse(devices.appleWatch).device).toEqual({
+        vendor: 'Apple',
+        model: 'Apple Watch',
+        type: 'wearable',
+      });
+      expect(parse(smartTV.appleTV).device).toEqual({
+        vendor: 'Apple',
+        model: 'Apple TV',
+        type: 'smarttv',
+      });
+    });
+
+    it('should detect iPadOS requesting the desktop site', () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(browsers.safari.mac);
+      vi.spyOn(navigator, 'maxTouchPoints', 'get').mockReturnValue(5);
+
+      const agent = new DeviceUUID().parse();
+
+      expect(agent.device).toEqual({ vendor: 'Apple', model: 'iPad', type: 'tablet' });
+      expect(agent.isiPad).toBe(true);
+      expect(agent.isTablet).toBe(true);
+      expect(agent.isDesktop).toBe(false);
+      expect(agent.isMac).toBe(false);
+    });
+
+    it('should only use touch points for the live user agent', () => {
+      vi.spyOn(navigator, 'maxTouchPoints', 'get').mockReturnValue(5);
+
+      expect(parse(browsers.safari.mac).device.model).toBe('Mac');
+    });
+  });
+
+  it('should infer desktop devices without a database entry', () => {
+    expect(parse(browsers.chrome.windows).device).toEqual({
+      vendor: 'unknown',
+      model: 'unknown',
+      type: 'desktop',
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for entropy estimates and the confidence model
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DeviceUUID,
+  DEFAULT_ENTROPY_TABLE,
+  estimateConfidence,
+  getComponentEntropy,
+  getEntropyPlatform,
+  resolveEntropyTable,
+} from '../../src';
+import type { FingerprintComponent } from '../../src';
+import { browsers, mobile, tablets } from '../fixtures/user-agents';
+
+const parse = (source: string) => new DeviceUUID().parse(source);
+
+describe('Entropy Estimates', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getEntropyPlatform', () => {
+    it('should map parsed agents to entropy platforms', () => {
+      expect(getEntropyPlatform(parse(mobile.iPhone.safari))).toBe('iPhone');
+      expect(getEntropyPlatform(parse(tablets.iPad))).toBe('iPad');
+      expect(getEntropyPlatform(parse(mobile.android.chrome))).toBe('Android');
+      expect(getEntropyPlatform(parse(browsers.chrome.windows))).toBe('Windows');
+      expect(getEntropyPlatform(parse(browsers.safari.mac))).toBe('macOS');
+      expect(getEntropyPlatform(parse('curl/8.4.0'))).toBe('other');
+    });
+  });
+
+  describe('resolveEntropyTable', () => {
+    it('should return the defaults without overrides', () => {
+      expect(resolveEntropyTable()).toEqual(DEFAULT_ENTROPY_TABLE);
+    });
+
+    it('should merge overrides without mutating the defaults', () => {
+      const table = resolveEntropyTable({
+        components: { canvas: { entropy: 12 } },
+        platforms: { iPhone: 3 },
+        targetBits: 20,
+      });
+
+      expect(table.components.canvas).toEqual({
+        entropy: 12,
+        stability: DEFAULT_ENTROPY_TABLE.components.canvas.stability,
+      });
+      expect(table.platforms.iPhone).toBe(3);
+      expect(table.targetBits).toBe(20);
+      expect(DEFAULT_ENTROPY_TABLE.components.canvas.entropy).toBe(8);
+      expect(DEFAULT_ENTROPY_TABLE.platforms.iPhone).toBe(5);
+    });
+  });
+
+  describe('getComponentEntropy', () => {
+    it('should use the platform entropy for the basic component', () => {
+      expect(getComponentEntropy('basic', 'iPhone').entropy).toBe(5);
+      expect(getComponentEntropy('basic', 'Linux').entropy).toBe(11);
+      expect(getComponentEntropy('canvas', 'iPhone')).toEqual(
+        DEFAULT_ENTROPY_TABLE.components.canvas
+      );
+    });
+  });
+
+  describe('estimateConfidence', () => {
+    const component = (
+      entropy: number,
+      stability: number,
+      success = true
+    ): FingerprintComponent => ({
+      name: 'canvas',
+      value: success ? 'hash' : null,
+      success,
+      entropy,
+      stability,
+    });
+
+    it('should discount entropy by stability', () => {
+      expect(estimateConfidence([component(10, 0.5)], 10)).toBe(0.5);
+    });
+
+    it('should ignore failed components', () => {
+      expect(estimateConfidence([component(10, 1), component(10, 1, false)], 20)).toBe(0.5);
+    });
+
+    it('should cap the confidence at 1', () => {
+      expect(estimateConfidence([component(40, 1)])).toBe(1);
+    });
+
+    it('should return 0 without components or target bits', () => {
+      expect(estimateConfidence([])).toBe(0);
+      expect(estimateConfidence([component(10, 1)], 0)).toBe(0);
+    });
+  });
+
+  describe('getDetailedAsync', () => {
+    it('should not fully trust a basic-only fingerprint on a common iPhone', async () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(mobile.iPhone.safari);
+
+      const details = await new DeviceUUID().getDetailedAsync();
+
+      expect(details.components.basic).toMatchObject({ entropy: 5, stability: 0.8 });
+      expect(details.entropy).toBe(5);
+      expect(details.confidence).toBeCloseTo((5 * 0.8) / 33);
+    });
+
+    it('should report more confidence for more entropy', async () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(browsers.chrome.windows);
+      const device = new DeviceUUID();
+
+      const basic = await device.getDetailedAsync();
+      const extended = await device.getDetailedAsync({ timezone: true });
+
+      expect(extended.components.timezone?.entropy).toBe(3);
+      expect(extended.entropy).toBe(12);
+      expect(extended.confidence).toBeGreaterThan(basic.confidence);
+    });
+
+    it('should apply entropy table overrides', async () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(mobile.iPhone.safari);
+
+      const details = await new DeviceUUID().getDetailedAsync({
+        entropyTable: { components: { basic: { stability: 1 } }, targetBits: 5 },
+      });
+
+      expect(details.confidence).toBe(1);
+    });
+
+    it('should only count components that feed the fuzzy UUID', async () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(browsers.chrome.windows);
+      Object.defineProperty(navigator, 'connection', {
+        value: { effectiveType: '4g', downlink: 10, rtt: 50 },
+        configurable: true,
+      });
+
+      const details = await new DeviceUUID().getDetailedAsync({
+        fuzzy: true,
+        timezone: true,
+        networkInfo: true,
+      });
+      delete (navigator as Navigator & { connection?: unknown }).connection;
+
+      expect(details.components.networkInfo).toMatchObject({ success: true, entropy: 2 });
+      expect(details.entropy).toBe(12);
+    });
+  });
+});
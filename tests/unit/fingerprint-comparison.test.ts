@@ -0,0 +1,121 @@
+/**
+ * Unit tests for fingerprint comparison and fuzzy UUIDs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DeviceUUID, compareFingerprints, COMPONENT_WEIGHTS, STABLE_COMPONENTS } from '../../src';
+import type { FingerprintDetails } from '../../src';
+
+const createDetails = (
+  values: Partial<Record<keyof FingerprintDetails['components'], string | null>>
+): FingerprintDetails => {
+  const components = Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [
+      name,
+      { name, value: value ?? null, success: value !== null },
+    ])
+  ) as FingerprintDetails['components'];
+
+  return { uuid: 'uuid', components, confidence: 1, duration: 0, timestamp: 0 };
+};
+
+describe('Fingerprint Comparison', () => {
+  describe('compareFingerprints', () => {
+    it('should score identical fingerprints as 1', () => {
+      const details = createDetails({ basic: 'a', canvas: 'b', webgl: 'c', fonts: 'd' });
+      const result = compareFingerprints(details, details);
+
+      expect(result.score).toBe(1);
+      expect(result.matching).toEqual(['basic', 'canvas', 'webgl', 'fonts']);
+      expect(result.differing).toEqual([]);
+    });
+
+    it('should weight differing components', () => {
+      const before = createDetails({ basic: 'a', canvas: 'canvas-1', webgl: 'c', fonts: 'd' });
+      const after = createDetails({ basic: 'a', canvas: 'canvas-2', webgl: 'c', fonts: 'd' });
+      const result = compareFingerprints(before, after);
+
+      const { basic, canvas, webgl, fonts } = COMPONENT_WEIGHTS;
+      expect(result.score).toBeCloseTo((basic + webgl + fonts) / (basic + canvas + webgl + fonts));
+      expect(result.differing).toEqual(['canvas']);
+    });
+
+    it('should treat components available in only one fingerprint as differing', () => {
+      const result = compareFingerprints(
+        createDetails({ basic: 'a', audio: 'x' }),
+        createDetails({ basic: 'a', audio: null })
+      );
+
+      expect(result.differing).toEqual(['audio']);
+      expect(result.matching).toEqual(['basic']);
+    });
+
+    it('should ignore components missing from both fingerprints', () => {
+      const result = compareFingerprints(
+        createDetails({ basic: 'a', webgl: null }),
+        createDetails({ basic: 'a' })
+      );
+
+      expect(result.score).toBe(1);
+      expect(result.matching).toEqual(['basic']);
+    });
+
+    it('should accept custom weights', () => {
+      const result = compareFingerprints(
+        createDetails({ basic: 'a', canvas: 'x' }),
+        createDetails({ basic: 'a', canvas: 'y' }),
+        { basic: 1, canvas: 0 }
+      );
+
+      expect(result.score).toBe(1);
+      expect(result.differing).toEqual(['canvas']);
+    });
+
+    it('should use default weights for undefined overrides', () => {
+      const a = createDetails({ basic: 'a', canvas: 'x' });
+      const b = createDetails({ basic: 'a', canvas: 'y' });
+
+      expect(compareFingerprints(a, b, { canvas: undefined })).toEqual(compareFingerprints(a, b));
+    });
+
+    it('should return 0 when nothing can be compared', () => {
+      const empty = createDetails({ basic: null });
+      expect(compareFingerprints(empty, empty).score).toBe(0);
+    });
+  });
+
+  describe('fuzzy UUID', () => {
+    it('should only use stable components', () => {
+      expect(STABLE_COMPONENTS).not.toContain('canvas');
+      expect(STABLE_COMPONENTS).not.toContain('audio');
+      expect(STABLE_COMPONENTS).toContain('basic');
+    });
+
+    it('should not change when unstable components are added', async () => {
+      const device = new DeviceUUID();
+
+      const basic = await device.getDetailedAsync({ fuzzy: true, timezone: true });
+      const extended = await device.getDetailedAsync({
+        fuzzy: true,
+        timezone: true,
+        canvas: true,
+        networkInfo: true,
+      });
+
+      expect(extended.uuid).toBe(basic.uuid);
+      expect(extended.components.canvas).toBeDefined();
+    });
+
+    it('should match the exact UUID when only stable components are enabled', async () => {
+      const device = new DeviceUUID();
+
+      const exact = await device.getDetailedAsync({ timezone: true });
+      const fuzzy = await device.getDetailedAsync({ timezone: true, fuzzy: true });
+
+      expect(fuzzy.uuid).toBe(exact.uuid);
+      expect(fuzzy.uuid).toMatch(
+        /^[a-f0-9]{8}-[a-f0-9]{4}-4[a-f0-9]{3}-b[a-f0-9]{3}-[a-f0-9]{12}$/
+      );
+    });
+  });
+});
@@ -53,8 +53,10 @@ describe('Fingerprint Utilities', () => {
       const comprehensive = FINGERPRINT_PRESETS.comprehensive;
       expect(comprehensive.canvas).toBe(true);
       expect(comprehensive.webgl).toBe(true);
+      expect(comprehensive.webgpu).toBe(true);
       expect(comprehensive.audio).toBe(true);
       expect(comprehensive.fonts).toBe(true);
+      expect(comprehensive.voices).toBe(true);
       expect(comprehensive.mediaDevices).toBe(true);
       expect(comprehensive.networkInfo).toBe(true);
       expect(comprehensive.timezone).toBe(true);
@@ -0,0 +1,244 @@
+/**
+ * Tests for GeoIP resolution, the MMDB reader and timezone mismatch detection
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DeviceUUID, detectTimezoneMismatch, getTimezoneOffset } from '../../src';
+import { MMDBReader, openMMDB, createMMDBGeoResolver, parseIp } from '../../src/server';
+import { buildMMDB } from '../fixtures/mmdb';
+import type { MMDBNetwork } from '../fixtures/mmdb';
+import { browsers } from '../fixtures/user-agents';
+
+const cityNetworks: MMDBNetwork[] = [
+  {
+    network: '81.198.0.0/16',
+    data: {
+      country: { iso_code: 'LV', names: { en: 'Latvia' } },
+      subdivisions: [{ iso_code: 'RIX', names: { en: 'Riga' } }],
+      city: { names: { en: 'Riga', de: 'Riga' } },
+      location: { time_zone: 'Europe/Riga', latitude: 56.946, longitude: 24.1059 },
+    },
+  },
+  {
+    network: '2a02:e0::/32',
+    data: {
+      country: { iso_code: 'DE' },
+      city: { names: { en: 'Munich', de: 'München' } },
+      location: { time_zone: 'Europe/Berlin' },
+      is_anycast: false,
+    },
+  },
+];
+
+const asnNetworks: MMDBNetwork[] = [
+  {
+    network: '81.198.0.0/16',
+    data: { autonomous_system_number: 12578, autonomous_system_organization: 'Tet' },
+  },
+];
+
+describe('GeoIP', () => {
+  afterEach(() => {
+    DeviceUUID.setGeoResolver(null);
+  });
+
+  describe('parseIp', () => {
+    it('should parse IPv4 addresses', () => {
+      expect(parseIp('81.198.12.1')).toEqual([81, 198, 12, 1]);
+    });
+
+    it('should parse compressed IPv6 addresses', () => {
+      const bytes = parseIp('2a02:e0::1');
+      expect(bytes).toHaveLength(16);
+      expect(bytes!.slice(0, 4)).toEqual([0x2a, 0x02, 0x00, 0xe0]);
+      expect(bytes![15]).toBe(1);
+    });
+
+    it('should unwrap IPv4-mapped IPv6 addresses', () => {
+      expect(parseIp('::ffff:81.198.12.1')).toEqual([81, 198, 12, 1]);
+    });
+
+    it('should reject invalid addresses', () => {
+      expect(parseIp('256.1.1.1')).toBeNull();
+      expect(parseIp('1.2.3')).toBeNull();
+      expect(parseIp('1::2::3')).toBeNull();
+      expect(parseIp('not an ip')).toBeNull();
+    });
+  });
+
+  describe('MMDBReader', () => {
+    it('should read metadata', () => {
+      const reader = new MMDBReader(buildMMDB(cityNetworks));
+
+      expect(reader.metadata.ipVersion).toBe(6);
+      expect(reader.metadata.recordSize).toBe(24);
+      expect(reader.metadata.databaseType).toBe('Test-City');
+      expect(reader.metadata.languages).toEqual(['en']);
+    });
+
+    it.each([24, 28, 32])('should look up records with %i-bit records', (recordSize) => {
+      const reader = new MMDBReader(buildMMDB(cityNetworks, recordSize));
+
+      expect(reader.get('81.198.12.1')).toMatchObject({ country: { iso_code: 'LV' } });
+      expect(reader.get('2a02:e0::5')).toMatchObject({ city: { names: { de: 'München' } } });
+      expect(reader.get('8.8.8.8')).toBeNull();
+    });
+
+    it('should decode nested values, pointers, doubles and booleans', () => {
+      const reader = new MMDBReader(buildMMDB(cityNetworks));
+      const riga = reader.get('::ffff:81.198.200.9') as Record<string, Record<string, unknown>>;
+      const munich = reader.get('2a02:e0:1::') as Record<string, unknown>;
+
+      expect(riga.location.time_zone).toBe('Europe/Riga');
+      expect(riga.location.latitude).toBeCloseTo(56.946);
+      expect(munich.is_anycast).toBe(false);
+    });
+
+    it('should return null for invalid addresses', () => {
+      const reader = new MMDBReader(buildMMDB(cityNetworks));
+      expect(reader.get('invalid')).toBeNull();
+    });
+
+    it('should reject buffers that are not MaxMind databases', () => {
+      expect(() => new MMDBReader(new Uint8Array(64))).toThrow(/metadata marker/);
+    });
+
+    it('should open databases from disk', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'device-uuid-'));
+      const path = join(dir, 'test.mmdb');
+      writeFileSync(path, buildMMDB(cityNetworks));
+
+      try {
+        const reader = await openMMDB(path);
+        expect(reader.get('81.198.0.1')).not.toBeNull();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('createMMDBGeoResolver', () => {
+    it('should combine city and ASN databases', () => {
+      const resolver = createMMDBGeoResolver({
+        city: new MMDBReader(buildMMDB(cityNetworks)),
+        asn: new MMDBReader(buildMMDB(asnNetworks)),
+      });
+
+      expect(resolver.lookup('81.198.12.1')).toEqual({
+        country: 'LV',
+        region: 'RIX',
+        city: 'Riga',
+        timezone: 'Europe/Riga',
+        asn: 12578,
+        asnOrganization: 'Tet',
+      });
+    });
+
+    it('should use the configured language for city names', () => {
+      const resolver = createMMDBGeoResolver({
+        city: new MMDBReader(buildMMDB(cityNetworks)),
+        language: 'de',
+      });
+
+      expect(resolver.lookup('2a02:e0::1')).toEqual({
+        country: 'DE',
+        city: 'München',
+        timezone: 'Europe/Berlin',
+      });
+    });
+
+    it('should return null for unknown addresses', () => {
+      const resolver = createMMDBGeoResolver({ city: new MMDBReader(buildMMDB(cityNetworks)) });
+      expect(resolver.lookup('10.0.0.1')).toBeNull();
+    });
+  });
+
+  describe('DeviceUUID geo resolver', () => {
+    it('should leave geoIp empty without a resolver', () => {
+      const agent = DeviceUUID.fromHeaders({ 'user-agent': browsers.chrome.windows }, '81.198.1.1');
+      expect(agent.geoIp).toEqual({});
+    });
+
+    it('should populate geoIp in fromHeaders', () => {
+      DeviceUUID.setGeoResolver(
+        createMMDBGeoResolver({ city: new MMDBReader(buildMMDB(cityNetworks)) })
+      );
+
+      const agent = DeviceUUID.fromHeaders({ 'user-agent': browsers.chrome.windows }, '81.198.1.1');
+
+      expect(agent.geoIp.country).toBe('LV');
+      expect(agent.geoIp.timezone).toBe('Europe/Riga');
+      expect(agent.browser).toBe('Chrome');
+    });
+
+    it('should not share geoIp objects between parse results', () => {
+      DeviceUUID.setGeoResolver({ lookup: () => ({ country: 'LV' }) });
+
+      DeviceUUID.fromHeaders({ 'user-agent': browsers.chrome.windows }, '1.1.1.1');
+      const agent = DeviceUUID.fromHeaders({ 'user-agent': browsers.chrome.windows });
+
+      expect(agent.geoIp).toEqual({});
+    });
+
+    it('should swallow resolver errors', () => {
+      DeviceUUID.setGeoResolver({
+        lookup: () => {
+          throw new Error('database closed');
+        },
+      });
+
+      expect(DeviceUUID.lookupGeoIp('81.198.1.1')).toEqual({});
+    });
+  });
+
+  describe('detectTimezoneMismatch', () => {
+    const winter = new Date(Date.UTC(2024, 0, 15, 12));
+    const summer = new Date(Date.UTC(2024, 6, 15, 12));
+
+    it('should compute UTC offsets including daylight saving time', () => {
+      expect(getTimezoneOffset('Europe/Riga', winter)).toBe(120);
+      expect(getTimezoneOffset('Europe/Riga', summer)).toBe(180);
+      expect(getTimezoneOffset('America/New_York', winter)).toBe(-300);
+      expect(getTimezoneOffset('Asia/Kolkata', winter)).toBe(330);
+      expect(getTimezoneOffset('Not/AZone', winter)).toBeNull();
+    });
+
+    it('should detect mismatching timezones', () => {
+      const result = detectTimezoneMismatch(
+        { timezone: 'Europe/Riga' },
+        'America/New_York',
+        winter
+      );
+
+      expect(result).toEqual({
+        mismatch: true,
+        ipTimezone: 'Europe/Riga',
+        clientTimezone: 'America/New_York',
+        offsetDifference: -420,
+      });
+    });
+
+    it('should treat timezones with the same offset as matching', () => {
+      const result = detectTimezoneMismatch({ timezone: 'Europe/Riga' }, 'Europe/Vilnius', summer);
+
+      expect(result?.mismatch).toBe(false);
+      expect(result?.offsetDifference).toBe(0);
+    });
+
+    it('should default to the Intl timezone of the environment', () => {
+      const clientTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const result = detectTimezoneMismatch({ timezone: clientTimezone });
+
+      expect(result?.mismatch).toBe(false);
+      expect(result?.clientTimezone).toBe(clientTimezone);
+    });
+
+    it('should return null when a timezone is unknown', () => {
+      expect(detectTimezoneMismatch({}, 'Europe/Riga')).toBeNull();
+      expect(detectTimezoneMismatch({ timezone: 'Europe/Riga' }, 'Not/AZone')).toBeNull();
+    });
+  });
+});
@@ -1,5 +1,20 @@
 import { describe, it, expect } from 'vitest';
-import { hashMD5, hashInt } from '../../src';
+import {
+  DeviceUUID,
+  hashMD5,
+  hashInt,
+  hashSHA256,
+  hashSHA256Sync,
+  hashMurmur3,
+  hashXX64,
+  getDigest,
+  getDigestAsync,
+} from '../../src';
+import type { HashAlgorithm } from '../../src';
+import { createDeviceResolver } from '../../src/server';
+import { browsers } from '../fixtures/user-agents';
+
+const UUID_PATTERN = /^[a-f0-9]{8}-[a-f0-9]{4}-4[a-f0-9]{3}-b[a-f0-9]{3}-[a-f0-9]{12}$/;
 
 describe('Hash Utilities', () => {
   describe('hashMD5', () => {
@@ -103,4 +118,106 @@ describe('Hash Utilities', () => {
       expect(uniqueHashes.size).toBe(1);
     });
   });
+
+  describe('hashSHA256', () => {
+    it('should match the SHA-256 test vectors', () => {
+      expect(hashSHA256Sync('')).toBe(
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+      );
+      expect(hashSHA256Sync('abc')).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+    });
+
+    it('should handle multi-block and unicode input', () => {
+      expect(hashSHA256Sync('a'.repeat(64))).toBe(
+        'ffe054fe7ae0cb6dc65c3af9b61d5209f439851db43d0ba5997337df154668eb'
+      );
+      expect(hashSHA256Sync('héllo')).toHaveLength(64);
+    });
+
+    it('should produce the same result asynchronously', async () => {
+      for (const input of ['', 'abc', 'héllo wörld', 'x'.repeat(100)]) {
+        expect(await hashSHA256(input)).toBe(hashSHA256Sync(input));
+      }
+    });
+  });
+
+  describe('hashMurmur3', () => {
+    it('should match the MurmurHash3 x86_128 reference output', () => {
+      expect(hashMurmur3('')).toBe('00000000000000000000000000000000');
+      expect(hashMurmur3('The quick brown fox jumps over the lazy dog')).toBe(
+        '2f1583c3ecee2c675d7bf66ce5e91d2c'
+      );
+    });
+
+    it('should depend on the seed', () => {
+      expect(hashMurmur3('hello', 1)).not.toBe(hashMurmur3('hello'));
+    });
+  });
+
+  describe('hashXX64', () => {
+    it('should match the xxHash64 test vectors', () => {
+      expect(hashXX64('')).toBe('ef46db3751d8e999');
+      expect(hashXX64('a')).toBe('d24ec4f1a98c6e5b');
+      expect(hashXX64('abc')).toBe('44bc2cf5ad770999');
+      expect(hashXX64('Nobody inspects the spammish repetition')).toBe('fbcea83c8a378bf1');
+    });
+
+    it('should depend on the seed', () => {
+      expect(hashXX64('hello', 1)).not.toBe(hashXX64('hello'));
+    });
+  });
+
+  describe('getDigest', () => {
+    const algorithms: HashAlgorithm[] = ['md5', 'sha256', 'murmur3', 'xx64'];
+
+    it('should default to MD5', () => {
+      expect(getDigest('hello')).toBe(hashMD5('hello'));
+    });
+
+    it.each(algorithms)('should return a 128-bit digest for %s', async (algorithm) => {
+      const digest = getDigest('hello', algorithm);
+
+      expect(digest).toMatch(/^[a-f0-9]{32}$/);
+      expect(await getDigestAsync('hello', algorithm)).toBe(digest);
+    });
+  });
+
+  describe('hashAlgorithm option', () => {
+    it('should keep MD5 UUIDs unchanged', () => {
+      const legacy = new DeviceUUID().get();
+
+      expect(new DeviceUUID({ hashAlgorithm: 'md5' }).get()).toBe(legacy);
+    });
+
+    it('should not treat hashAlgorithm as a hashed field', () => {
+      const parsed = new DeviceUUID().parse();
+      const sha = new DeviceUUID({ hashAlgorithm: 'sha256' }).get();
+
+      expect(sha).toMatch(UUID_PATTERN);
+      expect(sha).not.toBe(new DeviceUUID().get());
+      expect(parsed).not.toHaveProperty('hashAlgorithm');
+    });
+
+    it('should apply to async fingerprints', async () => {
+      const device = new DeviceUUID();
+      const md5 = await device.getAsync();
+      const xx = await device.getAsync({ hashAlgorithm: 'xx64' });
+      const inherited = await new DeviceUUID({ hashAlgorithm: 'xx64' }).getAsync();
+
+      expect(xx).toMatch(UUID_PATTERN);
+      expect(xx).not.toBe(md5);
+      expect(inherited).not.toBe(md5);
+    });
+
+    it('should apply to server-side UUIDs', () => {
+      const headers = { 'user-agent': browsers.chrome.windows };
+      const md5 = createDeviceResolver()(headers);
+      const murmur = createDeviceResolver({ uuidOptions: { hashAlgorithm: 'murmur3' } })(headers);
+
+      expect(murmur.uuid).toMatch(UUID_PATTERN);
+      expect(murmur.uuid).not.toBe(md5.uuid);
+    });
+  });
 });
@@ -0,0 +1,279 @@
+/**
+ * Unit tests for the persistent identity store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DeviceUUID, createIdentityStore } from '../../src';
+import type { FingerprintDetails } from '../../src';
+
+const createDetails = (uuid: string, canvas = 'canvas', fonts = 'fonts'): FingerprintDetails => ({
+  uuid,
+  components: {
+    basic: { name: 'basic', value: 'basic', success: true },
+    canvas: { name: 'canvas', value: canvas, success: true },
+    webgl: { name: 'webgl', value: 'webgl', success: true },
+    fonts: { name: 'fonts', value: fonts, success: true },
+  },
+  confidence: 1,
+  duration: 0,
+  timestamp: 0,
+});
+
+/**
+ * Minimal in-memory IndexedDB supporting a single object store
+ * New databases go through onupgradeneeded and are dropped again when the upgrade is aborted
+ */
+const createFakeIndexedDB = (): {
+  factory: IDBFactory;
+  data: Map<string, unknown>;
+  databases: Set<string>;
+} => {
+  const data = new Map<string, unknown>();
+  const databases = new Set<string>();
+  const request = <T>(result: () => T): IDBRequest<T> => {
+    const req = {} as IDBRequest<T> & { result: T };
+    setTimeout(() => {
+      Object.defineProperty(req, 'result', { value: result() });
+      req.onsuccess?.call(req, new Event('success'));
+    });
+    return req;
+  };
+  const store = {
+    get: (key: string) => request(() => data.get(key)),
+    put: (value: unknown, key: string) => request(() => void data.set(key, value)),
+    delete: (key: string) => request(() => void data.delete(key)),
+  };
+  const db = {
+    transaction: () => ({ objectStore: () => store }),
+    createObjectStore: () => store,
+    close: () => undefined,
+  };
+  const factory = {
+    open: (name: string) => {
+      const req = {} as IDBOpenDBRequest & { result: unknown; transaction: unknown };
+      setTimeout(() => {
+        Object.defineProperty(req, 'result', { value: db });
+        if (!databases.has(name)) {
+          let aborted = false;
+          Object.defineProperty(req, 'transaction', { value: { abort: () => (aborted = true) } });
+          req.onupgradeneeded?.call(req, new Event('upgradeneeded') as IDBVersionChangeEvent);
+          if (aborted) {
+            req.onerror?.call(req, new Event('error'));
+            return;
+          }
+          databases.add(name);
+        }
+        req.onsuccess?.call(req, new Event('success'));
+      });
+      return req;
+    },
+  } as unknown as IDBFactory;
+
+  return { factory, data, databases };
+};
+
+/**
+ * Block localStorage the way browsers do when storage access is denied
+ */
+const blockLocalStorage = (): void => {
+  vi.spyOn(window, 'localStorage', 'get').mockImplementation(() => {
+    throw new DOMException('Blocked', 'SecurityError');
+  });
+};
+
+const clearCookies = (): void => {
+  for (const cookie of document.cookie.split(';')) {
+    const name = cookie.split('=')[0].trim();
+    if (name) document.cookie = `${name}=; max-age=0; path=/`;
+  }
+};
+
+describe('Identity Store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    clearCookies();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('reconcile', () => {
+    it('should store the first fingerprint and return its ID', async () => {
+      const store = createIdentityStore();
+      const result = await store.reconcile(createDetails('first'));
+
+      expect(result).toMatchObject({ id: 'first', status: 'created', storage: 'localStorage' });
+      expect(result.comparison).toBeNull();
+      expect((await store.load())?.id).toBe('first');
+    });
+
+    it('should keep the stored ID for similar fingerprints', async () => {
+      const store = createIdentityStore();
+      await store.reconcile(createDetails('first'));
+
+      const result = await store.reconcile(createDetails('second', 'canvas-after-update'));
+
+      expect(result.id).toBe('first');
+      expect(result.status).toBe('matched');
+      expect(result.comparison?.differing).toEqual(['canvas']);
+      expect((await store.load())?.details.uuid).toBe('second');
+    });
+
+    it('should replace the stored ID for different devices', async () => {
+      const store = createIdentityStore();
+      await store.reconcile(createDetails('first'));
+
+      const result = await store.reconcile(createDetails('other', 'other-canvas', 'other-fonts'));
+
+      expect(result.id).toBe('other');
+      expect(result.status).toBe('replaced');
+      expect((await store.load())?.id).toBe('other');
+    });
+
+    it('should respect a custom threshold', async () => {
+      const store = createIdentityStore({ threshold: 1 });
+      await store.reconcile(createDetails('first'));
+
+      expect((await store.reconcile(createDetails('second', 'changed'))).status).toBe('replaced');
+    });
+
+    it('should ignore corrupted stored data', async () => {
+      localStorage.setItem('device-uuid', '{not json');
+
+      const result = await createIdentityStore().reconcile(createDetails('fresh'));
+
+      expect(result.status).toBe('created');
+    });
+  });
+
+  describe('storage cascade', () => {
+    it('should fall back to IndexedDB when localStorage is blocked', async () => {
+      const { factory, data } = createFakeIndexedDB();
+      vi.stubGlobal('indexedDB', factory);
+      blockLocalStorage();
+
+      const store = createIdentityStore();
+      const result = await store.reconcile(createDetails('first'));
+
+      expect(result.storage).toBe('indexedDB');
+      expect(data.has('device-uuid')).toBe(true);
+      expect((await store.load())?.id).toBe('first');
+    });
+
+    it('should fall back to a first-party cookie', async () => {
+      blockLocalStorage();
+
+      const store = createIdentityStore({ key: 'tenant-id' });
+      const result = await store.reconcile(createDetails('first'));
+
+      expect(result.storage).toBe('cookie');
+      expect(document.cookie).toContain('tenant-id=');
+      expect((await store.load())?.id).toBe('first');
+    });
+
+    it('should store only the ID and component values in the cookie', async () => {
+      const store = createIdentityStore({ storages: ['cookie'] });
+      const details = createDetails('first');
+      details.components.canvas = {
+        ...details.components.canvas!,
+        raw: { width: 240, height: 60, dataUrl: `data:image/png;base64,${'A'.repeat(8000)}` },
+        duration: 12,
+        entropy: 8,
+      };
+      details.components.audio = { name: 'audio', value: null, success: false };
+
+      await store.reconcile(details);
+      const cookie = document.cookie
+        .split(';')
+        .map((part) => part.trim())
+        .find((part) => part.startsWith('device-uuid='))!;
+      const value = decodeURIComponent(cookie.slice('device-uuid='.length));
+
+      expect(cookie.length).toBeLessThan(400);
+      expect(JSON.parse(value)).toMatchObject({
+        id: 'first',
+        values: { basic: 'basic', canvas: 'canvas', webgl: 'webgl', fonts: 'fonts' },
+      });
+      expect(value).not.toContain('audio');
+    });
+
+    it('should reconcile against a cookie identity', async () => {
+      const store = createIdentityStore({ storages: ['cookie'] });
+      await store.reconcile(createDetails('first'));
+
+      const matched = await store.reconcile(createDetails('second', 'changed'));
+      const replaced = await store.reconcile(createDetails('third', 'other', 'other'));
+
+      expect(matched).toMatchObject({ id: 'first', status: 'matched' });
+      expect(replaced).toMatchObject({ id: 'third', status: 'replaced' });
+    });
+
+    it('should degrade cleanly when all storage is blocked', async () => {
+      const store = createIdentityStore({ storages: ['localStorage'] });
+      blockLocalStorage();
+
+      const result = await store.reconcile(createDetails('first'));
+
+      expect(result).toMatchObject({ id: 'first', status: 'created', storage: null });
+      expect(await store.load()).toBeNull();
+    });
+
+    it('should remove stale copies further down the cascade', async () => {
+      const store = createIdentityStore({ storages: ['localStorage', 'cookie'] });
+      await store.save({ id: 'a', details: createDetails('a'), createdAt: 0, updatedAt: 0 });
+      document.cookie = 'device-uuid=stale; path=/';
+
+      await store.save({ id: 'b', details: createDetails('b'), createdAt: 0, updatedAt: 0 });
+
+      expect(document.cookie).not.toContain('device-uuid=');
+    });
+
+    it('should remove stale IndexedDB copies', async () => {
+      const { factory, data } = createFakeIndexedDB();
+      vi.stubGlobal('indexedDB', factory);
+      const store = createIdentityStore({ storages: ['indexedDB'] });
+      await store.save({ id: 'a', details: createDetails('a'), createdAt: 0, updatedAt: 0 });
+
+      await createIdentityStore().reconcile(createDetails('b'));
+
+      expect(data.has('device-uuid')).toBe(false);
+    });
+
+    it('should not create an IndexedDB database it never writes to', async () => {
+      const { factory, databases } = createFakeIndexedDB();
+      vi.stubGlobal('indexedDB', factory);
+      const store = createIdentityStore();
+
+      expect((await store.reconcile(createDetails('first'))).storage).toBe('localStorage');
+      await store.reconcile(createDetails('second'));
+      await store.clear();
+
+      expect(databases.size).toBe(0);
+    });
+
+    it('should clear all storages', async () => {
+      const store = createIdentityStore();
+      await store.reconcile(createDetails('first'));
+
+      await store.clear();
+
+      expect(await store.load()).toBeNull();
+    });
+  });
+
+  describe('getPersistentAsync', () => {
+    it('should return the stored ID on later visits', async () => {
+      const device = new DeviceUUID();
+
+      const first = await device.getPersistentAsync({ timezone: true });
+      const second = await device.getPersistentAsync({ timezone: true });
+
+      expect(first.status).toBe('created');
+      expect(second.status).toBe('matched');
+      expect(second.id).toBe(first.id);
+      expect(second.details.uuid).toBe(first.details.uuid);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for salted and keyed (HMAC) identifiers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { DeviceUUID, hmacSHA256, hmacSHA256Sync, generateUuid, generateUuidAsync } from '../../src';
+import { createDeviceResolver } from '../../src/server';
+import { browsers } from '../fixtures/user-agents';
+
+describe('Keyed Identifiers', () => {
+  describe('hmacSHA256', () => {
+    it('should match the RFC 4231 test vector', () => {
+      expect(hmacSHA256Sync('Jefe', 'what do ya want for nothing?')).toBe(
+        '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+      );
+    });
+
+    it('should hash keys longer than the block size', () => {
+      const key = 'k'.repeat(100);
+      expect(hmacSHA256Sync(key, 'message')).toBe(
+        createHmac('sha256', key).update('message').digest('hex')
+      );
+    });
+
+    it('should produce the same result asynchronously', async () => {
+      for (const [key, message] of [
+        ['tenant-a', 'data'],
+        ['', ''],
+        ['ключ', 'héllo'],
+      ]) {
+        expect(await hmacSHA256(key, message)).toBe(hmacSHA256Sync(key, message));
+      }
+    });
+  });
+
+  describe('generateUuid', () => {
+    it('should scope identifiers by salt', () => {
+      const tenantA = generateUuid('device', { salt: 'tenant-a' });
+      const tenantB = generateUuid('device', { salt: 'tenant-b' });
+
+      expect(tenantA).not.toBe(tenantB);
+      expect(generateUuid('device', { salt: 'tenant-a' })).toBe(tenantA);
+      expect(tenantA).not.toBe(generateUuid('device'));
+    });
+
+    it('should derive keyed identifiers with HMAC-SHA256', () => {
+      const keyed = generateUuid('device', { secretKey: 'secret', outputFormat: 'hex' });
+
+      expect(keyed).toBe(hmacSHA256Sync('secret', 'device').slice(0, 32));
+      expect(generateUuid('device', { secretKey: 'other', outputFormat: 'hex' })).not.toBe(keyed);
+    });
+
+    it('should combine salt and secret key', () => {
+      expect(
+        generateUuid('device', { salt: 'tenant-a', secretKey: 'secret', outputFormat: 'hex' })
+      ).toBe(hmacSHA256Sync('secret', 'tenant-a:device').slice(0, 32));
+    });
+
+    it('should key v5 identifiers', () => {
+      const plain = generateUuid('device', { outputFormat: 'v5' });
+      const keyed = generateUuid('device', { outputFormat: 'v5', secretKey: 'secret' });
+
+      expect(keyed).not.toBe(plain);
+      expect(keyed).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5/);
+    });
+
+    it('should produce the same keyed identifier asynchronously', async () => {
+      const options = { salt: 'tenant-a', secretKey: 'secret' };
+      expect(await generateUuidAsync('device', options)).toBe(generateUuid('device', options));
+    });
+  });
+
+  describe('DeviceUUID options', () => {
+    it('should scope get() per tenant', () => {
+      const tenantA = new DeviceUUID({ salt: 'tenant-a' }).get();
+      const tenantB = new DeviceUUID({ salt: 'tenant-b' }).get();
+
+      expect(tenantA).not.toBe(tenantB);
+      expect(new DeviceUUID({ salt: 'tenant-a' }).get()).toBe(tenantA);
+    });
+
+    it('should keep unsalted UUIDs unchanged', () => {
+      expect(new DeviceUUID({ salt: '' }).get()).toBe(new DeviceUUID().get());
+    });
+
+    it('should scope getDetailedAsync per tenant', async () => {
+      const tenantA = await new DeviceUUID({ secretKey: 'key-a' }).getDetailedAsync();
+      const tenantB = await new DeviceUUID({ secretKey: 'key-b' }).getDetailedAsync();
+
+      expect(tenantA.uuid).not.toBe(tenantB.uuid);
+      expect(tenantA.components.basic.value).not.toBe(tenantB.components.basic.value);
+    });
+
+    it('should scope server-side UUIDs per tenant', () => {
+      const headers = { 'user-agent': browsers.chrome.windows };
+      const tenantA = createDeviceResolver({ uuidOptions: { salt: 'tenant-a' } })(headers);
+      const tenantB = createDeviceResolver({ uuidOptions: { salt: 'tenant-b' } })(headers);
+
+      expect(tenantA.uuid).not.toBe(tenantB.uuid);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for the LRU cache utility
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LRUCache } from '../../src';
+
+describe('LRUCache', () => {
+  it('should store and retrieve values', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.has('a')).toBe(true);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.size).toBe(1);
+  });
+
+  it('should evict the least recently used entry', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+    expect(cache.size).toBe(2);
+  });
+
+  it('should update existing keys without growing', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('a', 2);
+
+    expect(cache.get('a')).toBe(2);
+    expect(cache.size).toBe(1);
+  });
+
+  it('should not store anything with a size of 0', () => {
+    const cache = new LRUCache<string, number>(0);
+    cache.set('a', 1);
+
+    expect(cache.has('a')).toBe(false);
+    expect(cache.size).toBe(0);
+  });
+
+  it('should clear all entries', () => {
+    const cache = new LRUCache<string, number>(3);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.clear();
+
+    expect(cache.size).toBe(0);
+  });
+});
@@ -12,10 +12,21 @@ describe('Operating System Detection', () => {
       expect(result.isWindows).toBe(true);
     });
 
-    it('should detect Windows 11', () => {
+    it('should not guess Windows 11 from the browser version', () => {
       const device = new DeviceUUID();
       const result = device.parse(operatingSystems.windows.win11);
 
+      expect(result.os).toBe('Windows 10.0');
+      expect(result.isWindows).toBe(true);
+    });
+
+    it('should detect Windows 11 from Client Hints', async () => {
+      const device = new DeviceUUID();
+      const result = await device.parseAsync(operatingSystems.windows.win11, {
+        'sec-ch-ua-platform': '"Windows"',
+        'sec-ch-ua-platform-version': '"15.0.0"',
+      });
+
       expect(result.os).toBe('Windows 11');
       expect(result.isWindows).toBe(true);
     });
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for raw component values in detailed fingerprints
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DeviceUUID,
+  createIdentityStore,
+  getWebGLFingerprint,
+  getWebGLFingerprintRaw,
+  hashMD5,
+} from '../../src';
+
+const MAX_TEXTURE_SIZE = 3379;
+
+/**
+ * Make WebGL report a fixed GPU, one parameter and two extensions
+ */
+const mockWebGL = (): void => {
+  const createElement = document.createElement.bind(document);
+  vi.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
+    const element = createElement(tagName);
+    if (tagName === 'canvas') {
+      const gl = {
+        MAX_TEXTURE_SIZE,
+        getExtension: (name: string) =>
+          name === 'WEBGL_debug_renderer_info'
+            ? { UNMASKED_VENDOR_WEBGL: 1, UNMASKED_RENDERER_WEBGL: 2 }
+            : null,
+        getParameter: (param: number) =>
+          param === 1 ? 'Google Inc.' : param === 2 ? 'ANGLE (Apple M2)' : 16384,
+        getSupportedExtensions: () => ['OES_texture_float', 'ANGLE_instanced_arrays'],
+      };
+      (element as HTMLCanvasElement).getContext = (() => gl) as never;
+    }
+    return element;
+  });
+};
+
+describe('Raw Component Values', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  describe('getDetailedAsync', () => {
+    it('should exclude raw values by default', async () => {
+      const details = await new DeviceUUID().getDetailedAsync({ timezone: true });
+
+      expect(details.components.timezone?.success).toBe(true);
+      expect(details.components.timezone).not.toHaveProperty('raw');
+    });
+
+    it('should include raw values when requested', async () => {
+      const details = await new DeviceUUID().getDetailedAsync({
+        timezone: true,
+        includeRawValues: true,
+      });
+      const raw = details.components.timezone?.raw;
+
+      expect(raw?.offset).toBe(new Date().getTimezoneOffset());
+      expect(raw?.timeZone).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+      expect(raw?.languages).toEqual([...navigator.languages]);
+    });
+
+    it('should not change the UUID', async () => {
+      const device = new DeviceUUID();
+      const options = { timezone: true, incognitoDetection: true };
+
+      const withoutRaw = await device.getDetailedAsync(options);
+      const withRaw = await device.getDetailedAsync({ ...options, includeRawValues: true });
+
+      expect(withRaw.uuid).toBe(withoutRaw.uuid);
+      expect(withRaw.components.timezone?.value).toBe(withoutRaw.components.timezone?.value);
+      expect(withRaw.components.incognito?.raw?.indicators).toContain('cookies:enabled');
+    });
+
+    it('should include WebGL GPU info, parameters and extensions', async () => {
+      mockWebGL();
+
+      const details = await new DeviceUUID().getDetailedAsync({
+        webgl: true,
+        includeRawValues: true,
+      });
+
+      expect(details.components.webgl?.raw).toEqual({
+        vendor: 'Google Inc.',
+        renderer: 'ANGLE (Apple M2)',
+        webgl2: false,
+        parameters: { MAX_TEXTURE_SIZE: '16384' },
+        extensions: ['ANGLE_instanced_arrays', 'OES_texture_float'],
+      });
+    });
+  });
+
+  describe('getWebGLFingerprintRaw', () => {
+    it('should hash the raw values like getWebGLFingerprint', async () => {
+      mockWebGL();
+
+      const result = await getWebGLFingerprintRaw();
+      const expected = hashMD5(
+        [
+          'vendor:Google Inc.',
+          'renderer:ANGLE (Apple M2)',
+          'MAX_TEXTURE_SIZE:16384',
+          'webgl2:false',
+          'extensions:2',
+          `ext_hash:${hashMD5('ANGLE_instanced_arrays,OES_texture_float')}`,
+        ].join('|')
+      );
+
+      expect(result?.hash).toBe(expected);
+      expect(await getWebGLFingerprint()).toBe(expected);
+    });
+  });
+
+  describe('createIdentityStore', () => {
+    it('should not persist raw values', async () => {
+      const details = await new DeviceUUID().getDetailedAsync({
+        timezone: true,
+        includeRawValues: true,
+      });
+
+      const result = await createIdentityStore({ storages: ['localStorage'] }).reconcile(details);
+
+      expect(result.details.components.timezone?.raw).toBeDefined();
+      expect(localStorage.getItem('device-uuid')).not.toContain('"raw"');
+    });
+  });
+});
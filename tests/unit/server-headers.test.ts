@@ -0,0 +1,130 @@
+/**
+ * Unit tests for server-side parsing from request headers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DeviceUUID } from '../../src';
+import { getHeader, parseAcceptLanguage, getHeaderDeviceInfo } from '../../src/utils/headers';
+import { browsers, mobile } from '../fixtures/user-agents';
+
+describe('Request Header Parsing', () => {
+  describe('getHeader', () => {
+    it('should read headers case-insensitively from a record', () => {
+      expect(getHeader({ 'Sec-CH-UA-Mobile': '?1' }, 'sec-ch-ua-mobile')).toBe('?1');
+    });
+
+    it('should join array header values', () => {
+      expect(getHeader({ 'accept-language': ['en', 'de'] }, 'Accept-Language')).toBe('en, de');
+    });
+
+    it('should read headers from a Fetch Headers object', () => {
+      const headers = new Headers({ 'Sec-CH-UA-Platform': '"macOS"' });
+      expect(getHeader(headers, 'sec-ch-ua-platform')).toBe('"macOS"');
+      expect(getHeader(headers, 'sec-ch-ua-model')).toBeUndefined();
+    });
+  });
+
+  describe('parseAcceptLanguage', () => {
+    it('should return an empty list for missing headers', () => {
+      expect(parseAcceptLanguage(undefined)).toEqual([]);
+      expect(parseAcceptLanguage('')).toEqual([]);
+    });
+
+    it('should order languages by quality value', () => {
+      expect(parseAcceptLanguage('de;q=0.7, en-US, en;q=0.9, fr;q=0.7')).toEqual([
+        'en-US',
+        'en',
+        'de',
+        'fr',
+      ]);
+    });
+
+    it('should drop wildcards and zero-quality entries', () => {
+      expect(parseAcceptLanguage('en-GB, *;q=0.5, ru;q=0')).toEqual(['en-GB']);
+    });
+  });
+
+  describe('getHeaderDeviceInfo', () => {
+    it('should use defaults when no hints are sent', () => {
+      const info = getHeaderDeviceInfo({ 'user-agent': browsers.firefox.linux });
+
+      expect(info.userAgent).toBe(browsers.firefox.linux);
+      expect(info.viewport).toEqual([0, 0]);
+      expect(info.devicePixelRatio).toBe(-1);
+      expect(info.deviceMemory).toBe(-1);
+      expect(info.saveData).toBe(false);
+    });
+
+    it('should read legacy and Sec-CH prefixed hints', () => {
+      const info = getHeaderDeviceInfo({
+        'viewport-width': '412',
+        'sec-ch-viewport-height': '915',
+        dpr: '2.625',
+        'sec-ch-device-memory': '8',
+        'save-data': 'on',
+      });
+
+      expect(info.viewport).toEqual([412, 915]);
+      expect(info.devicePixelRatio).toBe(2.625);
+      expect(info.deviceMemory).toBe(8);
+      expect(info.saveData).toBe(true);
+    });
+  });
+
+  describe('DeviceUUID.fromHeaders', () => {
+    it('should populate AgentInfo from Node.js style headers', () => {
+      const agent = DeviceUUID.fromHeaders({
+        'user-agent': mobile.android.chrome,
+        'accept-language': 'pl-PL,pl;q=0.9,en;q=0.8',
+        'sec-ch-ua': '"Chromium";v="120", "Google Chrome";v="120"',
+        'sec-ch-ua-mobile': '?1',
+        'sec-ch-ua-platform': '"Android"',
+        'sec-ch-viewport-width': '412',
+        dpr: '3',
+        'device-memory': '4',
+        'save-data': 'on',
+      });
+
+      expect(agent.browser).toBe('Chrome');
+      expect(agent.isAndroid).toBe(true);
+      expect(agent.isMobile).toBe(true);
+      expect(agent.language).toBe('pl-pl');
+      expect(agent.languages).toEqual(['pl-PL', 'pl', 'en']);
+      expect(agent.resolution).toEqual([412, 0]);
+      expect(agent.devicePixelRatio).toBe(3);
+      expect(agent.deviceMemory).toBe(4);
+      expect(agent.saveData).toBe(true);
+      expect(agent.clientHints?.platform).toBe('Android');
+    });
+
+    it('should accept a Fetch Headers object', () => {
+      const headers = new Headers({
+        'User-Agent': browsers.chrome.windows,
+        'Sec-CH-UA-Platform': '"Windows"',
+        'Sec-CH-UA-Platform-Version': '"15.0.0"',
+      });
+      const agent = DeviceUUID.fromHeaders(headers);
+
+      expect(agent.os).toBe('Windows 11');
+      expect(agent.isDesktop).toBe(true);
+    });
+
+    it('should not read browser globals', () => {
+      const agent = DeviceUUID.fromHeaders({ 'user-agent': browsers.safari.mac });
+
+      expect(agent.source).toBe(browsers.safari.mac);
+      expect(agent.language).toBe('unknown');
+      expect(agent.languages).toEqual([]);
+      expect(agent.colorDepth).toBe(-1);
+      expect(agent.cpuCores).toBe(-1);
+      expect(agent.isTouchScreen).toBe(false);
+    });
+
+    it('should handle empty headers', () => {
+      const agent = DeviceUUID.fromHeaders({});
+
+      expect(agent.source).toBe('');
+      expect(agent.browser).toBe('unknown');
+    });
+  });
+});
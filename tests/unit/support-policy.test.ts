@@ -0,0 +1,170 @@
+/**
+ * Unit tests for browser support policies
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DeviceUUID, checkSupport, createSupportChecker } from '../../src';
+import { createDeviceResolver } from '../../src/server';
+import { browsers, edge_cases, mobile } from '../fixtures/user-agents';
+
+const OLD_CHROME =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/109.0.5414.120 Safari/537.36';
+const OLD_IPHONE_CHROME =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 15_7 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.6099.119 Mobile/15E148 Safari/604.1';
+const IPHONE_SAFARI_16_5 =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 16_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.5 Mobile/15E148 Safari/604.1';
+
+const parse = (source: string) => new DeviceUUID().parse(source);
+
+describe('Support Policy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('browserslist-style queries', () => {
+    const check = createSupportChecker('chrome >= 110, safari >= 16.4, not ie 11');
+
+    it('should support browsers satisfying a query', () => {
+      expect(check(parse(browsers.chrome.windows))).toEqual({
+        supported: true,
+        reason: 'supported',
+        message: 'Chrome 120.0.0.0 satisfies "chrome >= 110"',
+        browser: 'Chrome',
+        version: '120.0.0.0',
+        query: 'chrome >= 110',
+      });
+    });
+
+    it('should report outdated browsers', () => {
+      const result = check(parse(OLD_CHROME));
+
+      expect(result.supported).toBe(false);
+      expect(result.reason).toBe('outdated');
+      expect(result.query).toBe('chrome >= 110');
+      expect(result.message).toBe('Chrome 109.0.5414.120 does not satisfy "chrome >= 110"');
+    });
+
+    it('should report excluded browsers', () => {
+      expect(check(parse(edge_cases.ie11))).toMatchObject({
+        supported: false,
+        reason: 'excluded',
+        query: 'not ie 11',
+      });
+    });
+
+    it('should report browsers the policy does not cover', () => {
+      expect(check(parse(browsers.firefox.windows))).toMatchObject({
+        supported: false,
+        reason: 'unlisted',
+        query: null,
+      });
+    });
+
+    it('should check iOS Safari against the iOS version', () => {
+      const ios = createSupportChecker(['ios_saf >= 16.4']);
+
+      expect(ios(parse(mobile.iPhone.chrome)).supported).toBe(true);
+      expect(ios(parse(OLD_IPHONE_CHROME))).toMatchObject({
+        reason: 'outdated',
+        message: 'Chromium on iOS 15.7 does not satisfy "ios_saf >= 16.4"',
+      });
+    });
+
+    it('should restrict Android queries to Android', () => {
+      const android = createSupportChecker('and_chr >= 100');
+
+      expect(android(parse(mobile.android.chrome)).supported).toBe(true);
+      expect(android(parse(browsers.chrome.windows)).reason).toBe('unlisted');
+    });
+
+    it('should restrict safari queries to desktop Safari', () => {
+      const safari = createSupportChecker('safari >= 17');
+
+      expect(safari(parse(browsers.safari.mac)).supported).toBe(true);
+      expect(safari(parse(mobile.iPhone.safari)).reason).toBe('unlisted');
+      expect(safari(parse(mobile.iPad.safari)).reason).toBe('unlisted');
+    });
+
+    it('should check iOS Safari only against ios_saf', () => {
+      const check = createSupportChecker('safari >= 17, ios_saf >= 16.4');
+
+      expect(check(parse(IPHONE_SAFARI_16_5))).toMatchObject({
+        supported: true,
+        query: 'ios_saf >= 16.4',
+      });
+    });
+
+    it('should support version ranges and exact versions', () => {
+      expect(checkSupport(parse(browsers.safari.mac), 'safari 16-17').supported).toBe(true);
+      expect(checkSupport(parse(browsers.safari.mac), 'safari 15.0-16.6').supported).toBe(false);
+      expect(checkSupport(parse(browsers.chrome.windows), 'Chrome 120').supported).toBe(true);
+    });
+
+    it('should accept AgentInfo browser names', () => {
+      const result = checkSupport(parse(browsers.firefox.windows), 'Firefox >= 115 or IE > 10');
+
+      expect(result.supported).toBe(true);
+    });
+
+    it('should reject queries that need usage data', () => {
+      expect(() => createSupportChecker('last 2 versions')).toThrow(
+        'Unsupported browser support query: "last 2 versions"'
+      );
+      expect(() => createSupportChecker('> 0.5%, not dead')).toThrow();
+    });
+  });
+
+  describe('minimum version maps', () => {
+    it('should treat plain versions as minimums', () => {
+      const check = createSupportChecker({ Chrome: 110, Safari: '16.4' });
+
+      expect(check(parse(browsers.chrome.windows)).supported).toBe(true);
+      expect(check(parse(OLD_CHROME))).toMatchObject({ reason: 'outdated', query: 'Chrome >=110' });
+      expect(check(parse(browsers.safari.mac)).supported).toBe(true);
+    });
+
+    it('should accept version ranges', () => {
+      expect(checkSupport(parse(browsers.chrome.windows), { Chrome: '>=100 <120' }).reason).toBe(
+        'outdated'
+      );
+    });
+
+    it('should report unknown versions', () => {
+      const agent = { ...parse(browsers.chrome.windows), version: 'unknown' };
+      agent.browserVersion = { major: 0, minor: 0, patch: 0, raw: 'unknown' };
+
+      expect(checkSupport(agent, { Chrome: 110 })).toMatchObject({
+        supported: false,
+        reason: 'unknown-version',
+        message: 'Unable to detect the version of Chrome',
+      });
+    });
+  });
+
+  describe('DeviceUUID.checkSupport', () => {
+    it('should parse the current user agent', () => {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(OLD_CHROME);
+
+      expect(new DeviceUUID().checkSupport({ Chrome: 110 }).reason).toBe('outdated');
+    });
+
+    it('should parse a given user agent', () => {
+      expect(new DeviceUUID().checkSupport('safari >= 17', browsers.safari.mac).supported).toBe(
+        true
+      );
+    });
+  });
+
+  describe('server resolver', () => {
+    it('should attach the support result to request devices', () => {
+      const resolve = createDeviceResolver({ supportPolicy: 'chrome >= 110' });
+
+      expect(resolve({ 'user-agent': OLD_CHROME }).support?.reason).toBe('outdated');
+      expect(resolve({ 'user-agent': browsers.chrome.windows }).support?.supported).toBe(true);
+    });
+
+    it('should omit the support result without a policy', () => {
+      expect(createDeviceResolver()({ 'user-agent': OLD_CHROME }).support).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for the memoized user agent parser
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { DeviceUUID, registerBots, resetBots } from '../../src';
+import { parseUserAgent, parseUserAgentCached } from '../../src/core/parser';
+import { getRuleSet } from '../../src/utils/rules';
+import { browsers, bots, mobile } from '../fixtures/user-agents';
+
+describe('User Agent Parser', () => {
+  afterEach(() => {
+    resetBots();
+  });
+
+  describe('parseUserAgent', () => {
+    it('should parse user agents without an instance', () => {
+      const agent = parseUserAgent(`  ${mobile.iPhone.safari}  `);
+
+      expect(agent.source).toBe(mobile.iPhone.safari);
+      expect(agent.browser).toBe('Safari');
+      expect(agent.isiPhone).toBe(true);
+      expect(agent.isMobile).toBe(true);
+      expect(agent.hashMD5('a')).toBe(new DeviceUUID().parse().hashMD5('a'));
+    });
+
+    it('should read versions from match groups', () => {
+      expect(parseUserAgent(browsers.firefox.windows).version).toBe('121.0');
+      expect(parseUserAgent('AcmeFetcher/2.5.1 (internal)')).toMatchObject({
+        browser: 'AcmeFetcher',
+        version: '2.5.1',
+        isAuthoritative: false,
+      });
+    });
+
+    it('should give the same results on repeated calls', () => {
+      const first = parseUserAgent(browsers.chrome.windows);
+      const second = parseUserAgent(browsers.chrome.windows);
+
+      expect(second).not.toBe(first);
+      expect(second).toEqual(first);
+    });
+  });
+
+  describe('parseUserAgentCached', () => {
+    it('should match uncached results', () => {
+      const sources = [browsers.chrome.windows, mobile.android.chrome, bots.googlebot];
+
+      for (const source of sources) {
+        expect(parseUserAgentCached(source)).toEqual(parseUserAgent(source));
+      }
+    });
+
+    it('should return a fresh copy for every call', () => {
+      const first = parseUserAgentCached(browsers.safari.mac);
+      first.browser = 'Changed';
+
+      const second = parseUserAgentCached(browsers.safari.mac);
+
+      expect(second).not.toBe(first);
+      expect(second.browser).toBe('Safari');
+    });
+
+    it('should cache results per rule set', () => {
+      const rules = getRuleSet([
+        { kind: 'browser', name: 'Edge Kiosk', pattern: 'Edg/', priority: 1000 },
+      ]);
+
+      expect(parseUserAgentCached(browsers.edge.windows).browser).toBe('Edge');
+      expect(parseUserAgentCached(browsers.edge.windows, rules).browser).toBe('Edge Kiosk');
+    });
+
+    it('should drop cached results when bots are registered', () => {
+      const source = 'Mozilla/5.0 (compatible; AcmeMonitor/1.0)';
+      expect(parseUserAgentCached(source).isBot).toBe(false);
+
+      registerBots([
+        { pattern: 'acmemonitor', name: 'Acme', category: 'monitoring', vendor: 'Acme' },
+      ]);
+
+      expect(parseUserAgentCached(source).isBot).toBe('acmemonitor');
+    });
+  });
+
+  describe('DeviceUUID#parse', () => {
+    it('should not share results between calls', () => {
+      const device = new DeviceUUID();
+      const first = device.parse(browsers.chrome.mac);
+      const second = device.parse(browsers.chrome.mac);
+
+      expect(second).not.toBe(first);
+      expect(second).toEqual(first);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for UUID output formats
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DeviceUUID,
+  DEFAULT_NAMESPACE,
+  formatUuid,
+  uuidV5,
+  generateUuid,
+  generateUuidAsync,
+  hashMD5,
+} from '../../src';
+import type { UuidFormat } from '../../src';
+import { createDeviceResolver } from '../../src/server';
+import { hashSHA1 } from '../../src/utils/hash';
+import { browsers } from '../fixtures/user-agents';
+
+const DIGEST = '0123456789abcdef0123456789abcdef';
+const NAMESPACE_DNS = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+const NAMESPACE_URL = '6ba7b811-9dad-11d1-80b4-00c04fd430c8';
+const RFC_UUID = (version: number): RegExp =>
+  new RegExp(`^[0-9a-f]{8}-[0-9a-f]{4}-${version}[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$`);
+
+describe('UUID Formats', () => {
+  describe('formatUuid', () => {
+    it('should keep the legacy layout by default', () => {
+      expect(formatUuid(DIGEST)).toBe('01234567-89ab-4cde-bf01-456789abcdef');
+    });
+
+    it('should set RFC 9562 version and variant bits without dropping characters', () => {
+      expect(formatUuid(DIGEST, 'v4')).toBe('01234567-89ab-4def-8123-456789abcdef');
+      expect(formatUuid(DIGEST, 'v8')).toBe('01234567-89ab-8def-8123-456789abcdef');
+      expect(formatUuid('f'.repeat(32), 'v8')).toBe('ffffffff-ffff-8fff-bfff-ffffffffffff');
+    });
+
+    it('should encode the digest as hex, base64url and ULID', () => {
+      expect(formatUuid(DIGEST.toUpperCase(), 'hex')).toBe(DIGEST);
+      expect(formatUuid(DIGEST, 'base64url')).toBe(
+        Buffer.from(DIGEST, 'hex').toString('base64url')
+      );
+
+      const ulid = formatUuid(DIGEST, 'ulid');
+      expect(ulid).toMatch(/^[0-7][0-9A-HJKMNP-TV-Z]{25}$/);
+      const decoded = [...ulid].reduce(
+        (value, char) =>
+          value * BigInt(32) + BigInt('0123456789ABCDEFGHJKMNPQRSTVWXYZ'.indexOf(char)),
+        BigInt(0)
+      );
+      expect(decoded.toString(16).padStart(32, '0')).toBe(DIGEST);
+    });
+
+    it('should only use the first 128 bits of longer digests', () => {
+      expect(formatUuid(DIGEST + 'ffff', 'hex')).toBe(DIGEST);
+    });
+  });
+
+  describe('uuidV5', () => {
+    it('should compute SHA-1 correctly', () => {
+      expect(hashSHA1('abc')).toBe('a9993e364706816aba3e25717850c26c9cd0d89d');
+    });
+
+    it('should match RFC 9562 name-based UUIDs', () => {
+      expect(uuidV5('python.org', NAMESPACE_DNS)).toBe('886313e1-3b8a-5372-9b90-0c9aee199e5d');
+      expect(uuidV5('https://github.com/biggora/device-uuid', NAMESPACE_URL)).toBe(
+        DEFAULT_NAMESPACE
+      );
+    });
+
+    it('should use the default namespace', () => {
+      expect(uuidV5('device')).toBe(uuidV5('device', DEFAULT_NAMESPACE));
+      expect(uuidV5('device')).toMatch(RFC_UUID(5));
+    });
+
+    it('should reject invalid namespaces', () => {
+      expect(() => uuidV5('device', 'not-a-uuid')).toThrow(/Invalid namespace UUID/);
+    });
+  });
+
+  describe('generateUuid', () => {
+    const formats: UuidFormat[] = ['legacy', 'v4', 'v5', 'v8', 'hex', 'base64url', 'ulid'];
+
+    it('should default to the legacy MD5 layout', () => {
+      expect(generateUuid('data')).toBe(formatUuid(hashMD5('data')));
+    });
+
+    it.each(formats)('should produce the same %s identifier asynchronously', async (format) => {
+      const options = { outputFormat: format, hashAlgorithm: 'sha256' as const };
+      expect(await generateUuidAsync('data', options)).toBe(generateUuid('data', options));
+    });
+
+    it('should hash v5 names with SHA-1 regardless of the hash algorithm', () => {
+      expect(generateUuid('data', { outputFormat: 'v5', hashAlgorithm: 'xx64' })).toBe(
+        uuidV5('data')
+      );
+    });
+  });
+
+  describe('outputFormat option', () => {
+    it('should not change legacy UUIDs', () => {
+      expect(new DeviceUUID({ outputFormat: 'legacy' }).get()).toBe(new DeviceUUID().get());
+    });
+
+    it('should format synchronous UUIDs', () => {
+      expect(new DeviceUUID({ outputFormat: 'v8' }).get()).toMatch(RFC_UUID(8));
+      expect(new DeviceUUID({ outputFormat: 'v5' }).get()).toMatch(RFC_UUID(5));
+      expect(new DeviceUUID({ outputFormat: 'hex' }).get()).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('should use the configured namespace', () => {
+      const defaultNamespace = new DeviceUUID({ outputFormat: 'v5' }).get();
+      const custom = new DeviceUUID({ outputFormat: 'v5', namespace: NAMESPACE_DNS }).get();
+
+      expect(custom).toMatch(RFC_UUID(5));
+      expect(custom).not.toBe(defaultNamespace);
+    });
+
+    it('should format async fingerprints', async () => {
+      const device = new DeviceUUID({ outputFormat: 'v8' });
+
+      expect(await device.getAsync()).toMatch(RFC_UUID(8));
+      expect(await device.getAsync({ outputFormat: 'base64url' })).toMatch(/^[\w-]{22}$/);
+    });
+
+    it('should format server-side UUIDs', () => {
+      const device = createDeviceResolver({ uuidOptions: { outputFormat: 'ulid' } })({
+        'user-agent': browsers.chrome.windows,
+      });
+
+      expect(device.uuid).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for structured versions and version range checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DeviceUUID,
+  compareVersions,
+  getOSVersion,
+  parseVersion,
+  satisfies,
+  satisfiesVersion,
+} from '../../src';
+import { browsers, mobile, tablets } from '../fixtures/user-agents';
+
+const parse = (source: string) => new DeviceUUID().parse(source);
+
+describe('Version Parsing', () => {
+  describe('parseVersion', () => {
+    it('should split versions into major, minor and patch', () => {
+      expect(parseVersion('120.0.6099.129')).toEqual({
+        major: 120,
+        minor: 0,
+        patch: 6099,
+        raw: '120.0.6099.129',
+      });
+      expect(parseVersion('16.4')).toEqual({ major: 16, minor: 4, patch: 0, raw: '16.4' });
+    });
+
+    it('should normalize underscore separators', () => {
+      expect(parseVersion('10_15_7')).toEqual({ major: 10, minor: 15, patch: 7, raw: '10.15.7' });
+    });
+
+    it('should report unknown versions as zero', () => {
+      expect(parseVersion('unknown')).toEqual({ major: 0, minor: 0, patch: 0, raw: 'unknown' });
+      expect(parseVersion(null).raw).toBe('unknown');
+    });
+  });
+
+  describe('getOSVersion', () => {
+    it.each([
+      ['Windows', browsers.chrome.windows, '10.0'],
+      ['macOS', browsers.safari.mac, '10.15.7'],
+      ['iOS', mobile.iPhone.safari, '17.2'],
+      ['iPadOS', tablets.iPad, '17.2'],
+      ['Android', mobile.android.chrome, '14'],
+    ])('should read the %s version', (_name, source, version) => {
+      expect(getOSVersion(source)).toBe(version);
+    });
+
+    it('should return null without an OS version', () => {
+      expect(getOSVersion('curl/8.4.0')).toBeNull();
+    });
+  });
+
+  describe('AgentInfo', () => {
+    it('should expose structured browser and OS versions', () => {
+      const agent = parse(mobile.iPhone.safari);
+
+      expect(agent.browserVersion).toEqual({ major: 17, minor: 2, patch: 0, raw: '17.2' });
+      expect(agent.osVersion).toEqual({ major: 17, minor: 2, patch: 0, raw: '17.2' });
+    });
+
+    it('should default to unknown versions', () => {
+      const agent = parse('curl/8.4.0');
+
+      expect(agent.osVersion.raw).toBe('unknown');
+      expect(agent.browserVersion.major).toBe(8);
+    });
+
+    it('should use the Client Hints versions', async () => {
+      const agent = await new DeviceUUID().parseAsync(browsers.chrome.mac, {
+        'sec-ch-ua': '"Google Chrome";v="120"',
+        'sec-ch-ua-full-version-list': '"Google Chrome";v="120.0.6099.129"',
+        'sec-ch-ua-platform': '"macOS"',
+        'sec-ch-ua-platform-version': '"14.2.1"',
+      });
+
+      expect(agent.browserVersion).toMatchObject({ major: 120, patch: 6099 });
+      expect(agent.osVersion).toEqual({ major: 14, minor: 2, patch: 1, raw: '14.2.1' });
+    });
+
+    it('should keep the NT version on Windows', () => {
+      const agent = DeviceUUID.fromHeaders({
+        'user-agent': browsers.chrome.windows,
+        'sec-ch-ua-platform': '"Windows"',
+        'sec-ch-ua-platform-version': '"15.0.0"',
+      });
+
+      expect(agent.os).toBe('Windows 11');
+      expect(agent.osVersion.raw).toBe('10.0');
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should order versions numerically', () => {
+      expect(compareVersions('16.10', '16.4')).toBeGreaterThan(0);
+      expect(compareVersions('110.0.1', '110.0.1')).toBe(0);
+      expect(compareVersions(parseVersion('9'), '10')).toBeLessThan(0);
+    });
+  });
+
+  describe('satisfiesVersion', () => {
+    it.each([
+      ['>=110', '120.0.6099.129', true],
+      ['>=110', '109.0.5414.120', false],
+      ['>= 16.4', '16.4', true],
+      ['>16.4', '16.4', false],
+      ['<17', '16.6.1', true],
+      ['<=16.4', '16.5', false],
+      ['>=16.4 <18', '17.2', true],
+      ['>=16.4 <18', '18.0', false],
+      ['^15 || >=17', '16.0', false],
+      ['^15 || >=17', '15.6', true],
+      ['~16.4', '16.4.1', true],
+      ['~16.4', '16.5', false],
+      ['120', '120.0.6099.129', true],
+      ['=16.x', '16.4', true],
+      ['*', '1.0', true],
+      ['banana', '1.0', false],
+    ])('should check %s against %s', (range, version, expected) => {
+      expect(satisfiesVersion(version, range)).toBe(expected);
+    });
+
+    it('should not satisfy unknown versions', () => {
+      expect(satisfiesVersion('unknown', '*')).toBe(false);
+    });
+  });
+
+  describe('satisfies', () => {
+    const requirements = { Chrome: '>=110', Safari: '>=16.4' };
+
+    it('should check the requirement for the agent browser', () => {
+      expect(satisfies(parse(browsers.chrome.windows), requirements)).toBe(true);
+      expect(satisfies(parse(mobile.iPhone.safari), requirements)).toBe(true);
+      expect(satisfies(parse(browsers.safari.mac), { Safari: '>=17.4' })).toBe(false);
+    });
+
+    it('should match browser names case-insensitively', () => {
+      expect(satisfies(parse(browsers.chrome.windows), { chrome: '>=120' })).toBe(true);
+    });
+
+    it('should not satisfy browsers without a requirement', () => {
+      expect(satisfies(parse(browsers.firefox.windows), requirements)).toBe(false);
+    });
+  });
+});
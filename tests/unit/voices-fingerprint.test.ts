@@ -0,0 +1,145 @@
+/**
+ * Unit tests for speech synthesis voices fingerprinting
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DeviceUUID,
+  getVoicesFingerprint,
+  getVoicesFingerprintRaw,
+  isVoicesSupported,
+} from '../../src';
+
+const VOICES = [
+  { name: 'Samantha', lang: 'en-US', localService: true, default: true, voiceURI: 'Samantha' },
+  { name: 'Google Deutsch', lang: 'de-DE', localService: false, default: false, voiceURI: '' },
+  { name: 'Amélie', lang: 'fr-CA', localService: true, default: false, voiceURI: 'Amélie' },
+];
+
+/**
+ * Fake speechSynthesis whose voice list can be loaded later, like Chrome
+ */
+class MockSpeechSynthesis extends EventTarget {
+  constructor(private voices: typeof VOICES = []) {
+    super();
+  }
+
+  getVoices(): typeof VOICES {
+    return this.voices;
+  }
+
+  load(voices: typeof VOICES): void {
+    this.voices = voices;
+    this.dispatchEvent(new Event('voiceschanged'));
+  }
+}
+
+/**
+ * Install a fake window.speechSynthesis
+ */
+const mockSpeechSynthesis = (synth: MockSpeechSynthesis): MockSpeechSynthesis => {
+  Object.defineProperty(window, 'speechSynthesis', { value: synth, configurable: true });
+  return synth;
+};
+
+describe('Speech Synthesis Voices Fingerprinting', () => {
+  afterEach(() => {
+    Reflect.deleteProperty(window, 'speechSynthesis');
+  });
+
+  describe('isVoicesSupported', () => {
+    it('should return false without speechSynthesis', () => {
+      expect(isVoicesSupported()).toBe(false);
+      expect(DeviceUUID.isFeatureSupported('voices')).toBe(false);
+    });
+
+    it('should return true with speechSynthesis', () => {
+      mockSpeechSynthesis(new MockSpeechSynthesis(VOICES));
+
+      expect(isVoicesSupported()).toBe(true);
+      expect(DeviceUUID.isFeatureSupported('voices')).toBe(true);
+    });
+  });
+
+  describe('getVoicesFingerprintRaw', () => {
+    it('should collect voice names, languages and local service flags sorted by name', async () => {
+      mockSpeechSynthesis(new MockSpeechSynthesis(VOICES));
+
+      const result = await getVoicesFingerprintRaw();
+
+      expect(result?.hash).toMatch(/^[0-9a-f]{32}$/);
+      expect(result?.raw.voices).toEqual([
+        { name: 'Amélie', lang: 'fr-CA', localService: true },
+        { name: 'Google Deutsch', lang: 'de-DE', localService: false },
+        { name: 'Samantha', lang: 'en-US', localService: true },
+      ]);
+      expect(await getVoicesFingerprint()).toBe(result?.hash);
+    });
+
+    it('should not depend on voice order', async () => {
+      mockSpeechSynthesis(new MockSpeechSynthesis(VOICES));
+      const first = await getVoicesFingerprint();
+      mockSpeechSynthesis(new MockSpeechSynthesis([...VOICES].reverse()));
+      const second = await getVoicesFingerprint();
+
+      expect(second).toBe(first);
+    });
+
+    it('should hash the local service flag', async () => {
+      mockSpeechSynthesis(new MockSpeechSynthesis(VOICES));
+      const local = await getVoicesFingerprint();
+      mockSpeechSynthesis(
+        new MockSpeechSynthesis(VOICES.map((voice) => ({ ...voice, localService: false })))
+      );
+      const remote = await getVoicesFingerprint();
+
+      expect(remote).not.toBe(local);
+    });
+
+    it('should wait for voiceschanged when voices load asynchronously', async () => {
+      const synth = mockSpeechSynthesis(new MockSpeechSynthesis());
+
+      const pending = getVoicesFingerprintRaw({ timeout: 500 });
+      setTimeout(() => synth.load(VOICES), 10);
+      const result = await pending;
+
+      expect(result?.raw.voices).toHaveLength(3);
+    });
+
+    it('should return null when no voices load before the timeout', async () => {
+      mockSpeechSynthesis(new MockSpeechSynthesis());
+
+      expect(await getVoicesFingerprint({ timeout: 10 })).toBeNull();
+    });
+
+    it('should return null without speechSynthesis', async () => {
+      expect(await getVoicesFingerprintRaw()).toBeNull();
+    });
+  });
+
+  describe('getDetailedAsync', () => {
+    it('should include the voices component when enabled', async () => {
+      mockSpeechSynthesis(new MockSpeechSynthesis(VOICES));
+
+      const details = await new DeviceUUID().getDetailedAsync({
+        voices: true,
+        includeRawValues: true,
+      });
+
+      expect(details.components.voices?.success).toBe(true);
+      expect(details.components.voices?.value).toBe(await getVoicesFingerprint());
+      expect(details.components.voices?.raw?.voices).toHaveLength(3);
+    });
+
+    it('should give up after methodTimeout', async () => {
+      mockSpeechSynthesis(new MockSpeechSynthesis());
+
+      const details = await new DeviceUUID().getDetailedAsync({
+        voices: true,
+        methodTimeout: 20,
+      });
+
+      expect(details.components.voices).toMatchObject({ value: null, success: false });
+    });
+  });
+});
@@ -2,8 +2,73 @@
  * Unit tests for WebGL fingerprinting
  */
 
-import { describe, it, expect, vi } from 'vitest';
-import { isWebGLSupported, isDebugInfoSupported, getWebGLFingerprint } from '../../src';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DeviceUUID,
+  isWebGLSupported,
+  isDebugInfoSupported,
+  getWebGLFingerprint,
+  getWebGLFingerprintRaw,
+} from '../../src';
+
+/**
+ * Create a fake WebGL context that draws the given pixel value
+ */
+const createMockGL = (pixel: number, compiles = true) => ({
+  VERTEX_SHADER: 35633,
+  FRAGMENT_SHADER: 35632,
+  LOW_FLOAT: 36336,
+  MEDIUM_FLOAT: 36337,
+  HIGH_FLOAT: 36338,
+  LOW_INT: 36339,
+  MEDIUM_INT: 36340,
+  HIGH_INT: 36341,
+  MAX_TEXTURE_SIZE: 3379,
+  getExtension: () => null,
+  getParameter: () => 16384,
+  getSupportedExtensions: () => ['OES_texture_float'],
+  getShaderPrecisionFormat: (_shaderType: number, type: number) => ({
+    rangeMin: 127,
+    rangeMax: 127,
+    precision: type % 3 === 2 ? 23 : 10,
+  }),
+  createShader: () => ({}),
+  shaderSource: vi.fn(),
+  compileShader: vi.fn(),
+  getShaderParameter: () => compiles,
+  createProgram: () => ({}),
+  attachShader: vi.fn(),
+  linkProgram: vi.fn(),
+  getProgramParameter: () => true,
+  useProgram: vi.fn(),
+  createBuffer: () => ({}),
+  bindBuffer: vi.fn(),
+  bufferData: vi.fn(),
+  getAttribLocation: (_program: unknown, name: string) => (name === 'position' ? 0 : 1),
+  enableVertexAttribArray: vi.fn(),
+  vertexAttribPointer: vi.fn(),
+  viewport: vi.fn(),
+  clearColor: vi.fn(),
+  clear: vi.fn(),
+  enable: vi.fn(),
+  blendFunc: vi.fn(),
+  drawArrays: vi.fn(),
+  readPixels: (...args: unknown[]) => (args[6] as Uint8Array).fill(pixel),
+});
+
+/**
+ * Make canvases return the given fake WebGL context
+ */
+const mockWebGL = (gl: ReturnType<typeof createMockGL>): void => {
+  const createElement = document.createElement.bind(document);
+  vi.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
+    const element = createElement(tagName);
+    if (tagName === 'canvas') {
+      (element as HTMLCanvasElement).getContext = (() => gl) as never;
+    }
+    return element;
+  });
+};
 
 describe('WebGL Fingerprinting', () => {
   describe('isWebGLSupported', () => {
@@ -171,4 +236,65 @@ describe('WebGL Fingerprinting', () => {
       expect(hash === null || typeof hash === 'string').toBe(true);
     });
   });
+
+  describe('rendering mode', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should report rendered pixels and shader precision formats', async () => {
+      mockWebGL(createMockGL(128));
+
+      const result = await getWebGLFingerprintRaw({ rendering: true });
+
+      expect(result?.raw.renderHash).toMatch(/^[0-9a-f]{32}$/);
+      expect(result?.raw.shaderPrecision?.fragment.HIGH_FLOAT).toEqual({
+        rangeMin: 127,
+        rangeMax: 127,
+        precision: 23,
+      });
+      expect(Object.keys(result?.raw.shaderPrecision?.vertex ?? {})).toHaveLength(6);
+    });
+
+    it('should keep the parameter-only hash without rendering', async () => {
+      mockWebGL(createMockGL(128));
+
+      const parametersOnly = await getWebGLFingerprintRaw();
+      const rendered = await getWebGLFingerprintRaw({ rendering: true });
+
+      expect(parametersOnly?.raw).not.toHaveProperty('renderHash');
+      expect(parametersOnly?.hash).toBe(await getWebGLFingerprint());
+      expect(rendered?.hash).not.toBe(parametersOnly?.hash);
+    });
+
+    it('should tell identical parameters apart by their pixels', async () => {
+      mockWebGL(createMockGL(128));
+      const first = await getWebGLFingerprint({ rendering: true });
+      vi.restoreAllMocks();
+      mockWebGL(createMockGL(129));
+      const second = await getWebGLFingerprint({ rendering: true });
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should report failed drawing', async () => {
+      mockWebGL(createMockGL(128, false));
+
+      const result = await getWebGLFingerprintRaw({ rendering: true });
+
+      expect(result?.raw.renderHash).toBeNull();
+      expect(result?.raw.shaderPrecision).toBeDefined();
+    });
+
+    it('should be selectable with an object config', async () => {
+      mockWebGL(createMockGL(128));
+
+      const details = await new DeviceUUID().getDetailedAsync({
+        webgl: { rendering: true },
+        includeRawValues: true,
+      });
+
+      expect(details.components.webgl?.raw?.renderHash).toMatch(/^[0-9a-f]{32}$/);
+    });
+  });
 });
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for WebGPU fingerprinting
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DeviceUUID,
+  getWebGPUFingerprint,
+  getWebGPUFingerprintRaw,
+  isWebGPUSupported,
+} from '../../src';
+
+/**
+ * Limits exposed through prototype getters like GPUSupportedLimits
+ */
+class MockLimits {
+  get maxTextureDimension2D(): number {
+    return 16384;
+  }
+  get maxBindGroups(): number {
+    return 4;
+  }
+}
+
+/**
+ * Create a fake WebGPU adapter
+ */
+const createAdapter = (overrides: Record<string, unknown> = {}) => ({
+  features: new Set(['texture-compression-bc', 'float32-filterable']),
+  limits: new MockLimits(),
+  info: { vendor: 'apple', architecture: 'metal-3', device: '', description: '' },
+  ...overrides,
+});
+
+/**
+ * Install a fake navigator.gpu resolving to the given adapter
+ */
+const mockGPU = (adapter: unknown): void => {
+  Object.defineProperty(navigator, 'gpu', {
+    value: { requestAdapter: () => Promise.resolve(adapter) },
+    configurable: true,
+  });
+};
+
+describe('WebGPU Fingerprinting', () => {
+  afterEach(() => {
+    delete (navigator as Navigator & { gpu?: unknown }).gpu;
+  });
+
+  describe('isWebGPUSupported', () => {
+    it('should return false without navigator.gpu', () => {
+      expect(isWebGPUSupported()).toBe(false);
+      expect(DeviceUUID.isFeatureSupported('webgpu')).toBe(false);
+    });
+
+    it('should return true with navigator.gpu', () => {
+      mockGPU(createAdapter());
+
+      expect(isWebGPUSupported()).toBe(true);
+      expect(DeviceUUID.isFeatureSupported('webgpu')).toBe(true);
+    });
+  });
+
+  describe('getWebGPUFingerprintRaw', () => {
+    it('should collect adapter info, sorted features and limits', async () => {
+      mockGPU(createAdapter());
+
+      const result = await getWebGPUFingerprintRaw();
+
+      expect(result?.hash).toMatch(/^[0-9a-f]{32}$/);
+      expect(result?.raw).toEqual({
+        vendor: 'apple',
+        architecture: 'metal-3',
+        device: '',
+        description: '',
+        isFallbackAdapter: false,
+        features: ['float32-filterable', 'texture-compression-bc'],
+        limits: { maxTextureDimension2D: 16384, maxBindGroups: 4 },
+      });
+      expect(await getWebGPUFingerprint()).toBe(result?.hash);
+    });
+
+    it('should fall back to requestAdapterInfo()', async () => {
+      mockGPU(
+        createAdapter({
+          info: undefined,
+          isFallbackAdapter: true,
+          requestAdapterInfo: () => Promise.resolve({ vendor: 'intel', architecture: 'gen-12' }),
+        })
+      );
+
+      const result = await getWebGPUFingerprintRaw();
+
+      expect(result?.raw).toMatchObject({
+        vendor: 'intel',
+        architecture: 'gen-12',
+        isFallbackAdapter: true,
+      });
+    });
+
+    it('should tell adapters apart', async () => {
+      mockGPU(createAdapter());
+      const first = await getWebGPUFingerprint();
+      mockGPU(createAdapter({ features: new Set(['texture-compression-bc']) }));
+      const second = await getWebGPUFingerprint();
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should return null without an adapter', async () => {
+      mockGPU(null);
+
+      expect(await getWebGPUFingerprintRaw()).toBeNull();
+    });
+
+    it('should return null when requestAdapter rejects', async () => {
+      Object.defineProperty(navigator, 'gpu', {
+        value: { requestAdapter: () => Promise.reject(new Error('blocked')) },
+        configurable: true,
+      });
+
+      expect(await getWebGPUFingerprint()).toBeNull();
+    });
+
+    it('should return null on timeout', async () => {
+      Object.defineProperty(navigator, 'gpu', {
+        value: { requestAdapter: () => new Promise(() => {}) },
+        configurable: true,
+      });
+
+      expect(await getWebGPUFingerprint({ timeout: 10 })).toBeNull();
+    });
+  });
+
+  describe('getDetailedAsync', () => {
+    it('should include the webgpu component when enabled', async () => {
+      mockGPU(createAdapter());
+      const device = new DeviceUUID();
+
+      const details = await device.getDetailedAsync({ webgpu: true, includeRawValues: true });
+      const basic = await device.getDetailedAsync();
+
+      expect(details.components.webgpu?.success).toBe(true);
+      expect(details.components.webgpu?.value).toBe(await getWebGPUFingerprint());
+      expect(details.components.webgpu?.raw?.vendor).toBe('apple');
+      expect(details.uuid).not.toBe(basic.uuid);
+    });
+
+    it('should report failure without WebGPU', async () => {
+      const details = await new DeviceUUID().getDetailedAsync({ webgpu: true });
+
+      expect(details.components.webgpu).toMatchObject({ value: null, success: false });
+    });
+  });
+});
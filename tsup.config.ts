@@ -1,12 +1,13 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig([
-  // ESM and CJS builds for Node.js
+  // ESM and CJS builds for Node.js (main and server entry points)
   {
-    entry: ['src/index.ts'],
+    entry: { index: 'src/index.ts', server: 'src/server/index.ts' },
     format: ['esm', 'cjs'],
     dts: true,
-    splitting: false,
+    // Share one copy of the core (DeviceUUID, geo resolver, bot registry) between the entries
+    splitting: true,
     sourcemap: true,
     clean: true,
     minify: false,
@@ -19,6 +20,19 @@ export default defineConfig([
       };
     },
   },
+  // CLI executable (device-uuid bin)
+  {
+    entry: { cli: 'src/cli/bin.ts' },
+    format: ['esm'],
+    splitting: false,
+    sourcemap: true,
+    clean: false,
+    minify: false,
+    treeshake: true,
+    target: 'node18',
+    outDir: 'dist',
+    platform: 'node',
+  },
   // Browser IIFE build (unminified)
   {
     entry: { 'index.browser': 'src/browser.ts' },